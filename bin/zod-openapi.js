@@ -0,0 +1,8 @@
+#!/usr/bin/env node
+const { runCli } = require('../dist/cli.cjs');
+
+runCli(process.argv.slice(2)).catch((error) => {
+  // eslint-disable-next-line no-console
+  console.error(error instanceof Error ? error.message : error);
+  process.exitCode = 1;
+});
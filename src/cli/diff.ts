@@ -0,0 +1,53 @@
+import { writeFile } from 'fs/promises';
+import { parseArgs } from 'util';
+
+import { diffDocuments, printDocumentDiff } from '../diff/diffDocuments';
+
+import { readDocument } from './document';
+
+export const DIFF_USAGE =
+  'zod-openapi diff <before> <after> [--format markdown|json] [--out <file>] [--fail-on-breaking]';
+
+export const runDiff = async (
+  args: string[],
+  write: (output: string) => void,
+): Promise<void> => {
+  const { positionals, values } = parseArgs({
+    args,
+    allowPositionals: true,
+    options: {
+      format: { type: 'string', short: 'f', default: 'markdown' },
+      out: { type: 'string', short: 'o' },
+      'fail-on-breaking': { type: 'boolean' },
+    },
+  });
+
+  const [before, after] = positionals;
+  const format = values.format;
+  if (
+    !before ||
+    !after ||
+    positionals.length > 2 ||
+    (format !== 'markdown' && format !== 'json')
+  ) {
+    throw new Error(`Usage: ${DIFF_USAGE}`);
+  }
+
+  const diff = diffDocuments(
+    await readDocument(before),
+    await readDocument(after),
+  );
+  const output = printDocumentDiff(diff, format);
+
+  if (values.out) {
+    await writeFile(values.out, output);
+  } else {
+    write(output);
+  }
+
+  if (values['fail-on-breaking'] && diff.breaking) {
+    throw new Error(
+      `Found ${diff.changes.filter((change) => change.severity === 'breaking').length} breaking changes`,
+    );
+  }
+};
@@ -0,0 +1,28 @@
+import { readFile } from 'fs/promises';
+import { extname } from 'path';
+
+import type { oas30, oas31 } from '../openapi3-ts/dist';
+
+/**
+ * Imports the optional `yaml` package which is needed to read or write `path`.
+ */
+export const importYaml = (path: string) =>
+  import('yaml').catch(() => {
+    throw new Error(`Install the "yaml" package to read or write ${path}`);
+  });
+
+/**
+ * Reads a JSON or YAML OpenAPI document. YAML documents require the optional `yaml` package to be installed.
+ */
+export const readDocument = async (
+  path: string,
+): Promise<oas31.OpenAPIObject | oas30.OpenAPIObject> => {
+  const contents = await readFile(path, 'utf8');
+
+  if (!['.yaml', '.yml'].includes(extname(path))) {
+    return JSON.parse(contents) as oas31.OpenAPIObject;
+  }
+
+  const yaml = await importYaml(path);
+  return yaml.parse(contents) as oas31.OpenAPIObject;
+};
@@ -0,0 +1,168 @@
+import { type ChildProcess, execFile, spawn } from 'child_process';
+import { mkdir, mkdtemp, readFile, rm, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { promisify } from 'util';
+
+const document = {
+  openapi: '3.1.0',
+  info: { title: 'Jobs API', version: '1.0.0' },
+  paths: {},
+  components: {
+    schemas: {
+      Job: { type: 'string' },
+    },
+  },
+};
+
+const TSX_CLI = require.resolve('tsx/cli');
+
+describe('runGenerate', () => {
+  let dir: string;
+  let cli: string;
+
+  const runCli = async (args: string[]) =>
+    (
+      await promisify(execFile)(process.execPath, [TSX_CLI, cli, ...args], {
+        cwd: dir,
+      })
+    ).stdout;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), 'zod-openapi-'));
+    cli = join(dir, 'cli.ts');
+    await writeFile(
+      cli,
+      [
+        `import { runCli } from ${JSON.stringify(join(__dirname, 'index'))};`,
+        'runCli(process.argv.slice(2)).catch((error: Error) => {',
+        '  process.stderr.write(error.message);',
+        '  process.exitCode = 1;',
+        '});',
+      ].join('\n'),
+    );
+  });
+
+  afterEach(() => rm(dir, { recursive: true, force: true }));
+
+  it('generates a document from a module', async () => {
+    await writeFile(
+      join(dir, 'document.js'),
+      `module.exports.api = ${JSON.stringify(document)};`,
+    );
+
+    await expect(
+      runCli([
+        'generate',
+        'document.js',
+        '--export',
+        'api',
+        '--openapi',
+        '3.0.3',
+      ]),
+    ).resolves.toBe(
+      `${JSON.stringify({ ...document, openapi: '3.0.3' }, null, 2)}\n`,
+    );
+  });
+
+  it('generates a document from a TypeScript module', async () => {
+    await writeFile(
+      join(dir, 'document.ts'),
+      `export const document: Record<string, unknown> = ${JSON.stringify(document)};`,
+    );
+
+    await expect(runCli(['generate', 'document.ts'])).resolves.toBe(
+      `${JSON.stringify(document, null, 2)}\n`,
+    );
+  });
+
+  it('reports errors thrown by a TypeScript module', async () => {
+    await writeFile(
+      join(dir, 'document.ts'),
+      "throw new Error('Missing environment variable');",
+    );
+
+    await expect(runCli(['generate', 'document.ts'])).rejects.toMatchObject({
+      stderr: expect.stringContaining(
+        'Missing environment variable',
+      ) as unknown,
+    });
+  });
+
+  it('writes YAML and checks whether it is up to date', async () => {
+    await writeFile(
+      join(dir, 'document.js'),
+      `module.exports.document = ${JSON.stringify(document)};`,
+    );
+    const args = ['generate', 'document.js', '--out', 'openapi.yml'];
+
+    await expect(runCli([...args, '--check'])).rejects.toMatchObject({
+      stderr: expect.stringContaining('is out of date') as unknown,
+    });
+
+    await runCli(args);
+
+    await expect(readFile(join(dir, 'openapi.yml'), 'utf8')).resolves.toContain(
+      'title: Jobs API\n',
+    );
+    await expect(runCli([...args, '--check'])).resolves.toBe('');
+  });
+
+  it('throws when the export is missing', async () => {
+    await writeFile(join(dir, 'document.js'), 'module.exports = {};');
+
+    await expect(runCli(['generate', 'document.js'])).rejects.toMatchObject({
+      stderr: 'document.js does not export "document"',
+    });
+  });
+
+  describe('--watch', () => {
+    let child: ChildProcess | undefined;
+
+    afterEach(() => child?.kill());
+
+    const waitForTitle = async (out: string, title: string) => {
+      for (let attempt = 0; attempt < 100; attempt++) {
+        const output = await readFile(out, 'utf8').catch(() => '');
+        if (output.includes(`"title": "${title}"`)) {
+          return;
+        }
+        await new Promise((resolve) => setTimeout(resolve, 100));
+      }
+      throw new Error(`${out} was not generated with the title "${title}"`);
+    };
+
+    it('regenerates the document when an imported module changes', async () => {
+      const info = join(dir, 'shared', 'info.ts');
+      const out = join(dir, 'openapi.json');
+      await mkdir(join(dir, 'shared'));
+      await writeFile(
+        info,
+        "export const info = { title: 'Jobs API', version: '1.0.0' };",
+      );
+      await mkdir(join(dir, 'src'));
+      await writeFile(
+        join(dir, 'src', 'document.ts'),
+        [
+          "import { info } from '../shared/info';",
+          "export const document = { openapi: '3.1.0', info, paths: {} };",
+        ].join('\n'),
+      );
+
+      child = spawn(
+        process.execPath,
+        [TSX_CLI, cli, 'generate', 'src/document.ts', '--out', out, '--watch'],
+        { cwd: dir },
+      );
+
+      await waitForTitle(out, 'Jobs API');
+
+      await writeFile(
+        info,
+        "export const info = { title: 'Careers API', version: '1.0.0' };",
+      );
+
+      await waitForTitle(out, 'Careers API');
+    }, 30_000);
+  });
+});
@@ -0,0 +1,294 @@
+import { type FSWatcher, watch } from 'fs';
+import { readFile, writeFile } from 'fs/promises';
+import { createRequire } from 'module';
+import { extname, relative, resolve, sep } from 'path';
+import { fileURLToPath, pathToFileURL } from 'url';
+import { parseArgs } from 'util';
+
+import {
+  type CreateDocumentOptions,
+  type ZodOpenApiObject,
+  createDocument,
+} from '../create/document';
+import { type OpenApiVersion, openApiVersions } from '../openapi';
+
+import { importYaml } from './document';
+
+export const GENERATE_USAGE =
+  'zod-openapi generate <module> [--export <name>] [--options-export <name>] [--format json|yaml] [--out <file>] [--openapi <version>] [--check] [--watch] [options]';
+
+const OPTIONS_USAGE = [
+  'Options:',
+  '  --union-one-of',
+  '  --integer-format',
+  '  --zod-transforms-extension',
+  '  --component-variants auto',
+  '  --auto-ref',
+  '  --strict-circular-refs',
+  '  --convert-express-paths',
+  '  --auto-examples',
+  '  --path-parameter-validation error|warn|off',
+  '  --validate-examples error|warn|off',
+].join('\n');
+
+const TYPESCRIPT_EXTENSIONS = ['.ts', '.mts', '.cts', '.tsx'];
+const SEVERITIES = ['error', 'warn', 'off'] as const;
+
+type Severity = (typeof SEVERITIES)[number];
+
+const isSeverity = (value: string | undefined): value is Severity =>
+  SEVERITIES.includes(value as Severity);
+
+const usageError = () =>
+  new Error(`Usage: ${GENERATE_USAGE}\n${OPTIONS_USAGE}`);
+
+type TsImport = (
+  specifier: string,
+  options: { parentURL: string; onImport?: (url: string) => void },
+) => Promise<Record<string, unknown>>;
+
+/**
+ * Returns `tsImport` from the optional `tsx` package or `undefined` when it is not installed.
+ */
+const importTsx = async (): Promise<TsImport | undefined> => {
+  const tsxApi = 'tsx/esm/api';
+  const tsx = (await import(tsxApi).catch(() => undefined)) as
+    | { tsImport: TsImport }
+    | undefined;
+  return tsx?.tsImport;
+};
+
+/**
+ * Imports a JavaScript or TypeScript module. TypeScript modules are loaded with the optional `tsx` package unless the
+ * current process is already able to import them.
+ */
+const importModule = async (path: string): Promise<Record<string, unknown>> => {
+  const url = pathToFileURL(resolve(path)).href;
+
+  if (!TYPESCRIPT_EXTENSIONS.includes(extname(path))) {
+    return (await import(url)) as Record<string, unknown>;
+  }
+
+  const tsImport = await importTsx();
+  if (tsImport) {
+    return tsImport(url, { parentURL: url });
+  }
+
+  return (await import(url).catch((error: unknown) => {
+    if (
+      (error as { code?: unknown } | undefined)?.code ===
+      'ERR_UNKNOWN_FILE_EXTENSION'
+    ) {
+      throw new Error(`Install the "tsx" package to load ${path}`);
+    }
+    throw error;
+  })) as Record<string, unknown>;
+};
+
+const getExport = (
+  moduleExports: Record<string, unknown>,
+  name: string,
+  path: string,
+): unknown => {
+  const value =
+    moduleExports[name] ??
+    (moduleExports.default as Record<string, unknown> | undefined)?.[name];
+  if (value === undefined) {
+    throw new Error(`${path} does not export "${name}"`);
+  }
+  return value;
+};
+
+const writeToStderr = (value: unknown) =>
+  process.stderr.write(
+    `${value instanceof Error ? value.message : String(value)}\n`,
+  );
+
+const isProjectFile = (file: string) =>
+  !file.split(sep).includes('node_modules');
+
+/**
+ * Regenerates the document whenever a file imported by the module changes. Every generation imports fresh copies of
+ * the project's modules with `tsx` and then watches the files in the module graph, which are tracked through the
+ * CommonJS module cache and the `tsx` import hook.
+ */
+const watchModule = async (
+  path: string,
+  generate: (moduleExports: Record<string, unknown>) => Promise<void>,
+): Promise<never> => {
+  const tsImport = await importTsx();
+  if (!tsImport) {
+    throw new Error('Install the "tsx" package to use --watch');
+  }
+
+  const url = pathToFileURL(resolve(path)).href;
+  const cache = createRequire(url).cache;
+  let watchers: FSWatcher[] = [];
+  let timeout: NodeJS.Timeout | undefined;
+
+  const run = async () => {
+    Object.keys(cache)
+      .filter(isProjectFile)
+      .forEach((key) => delete cache[key]);
+    const files = new Set([resolve(path)]);
+
+    try {
+      await generate(
+        await tsImport(url, {
+          parentURL: url,
+          onImport: (importedUrl) => {
+            if (importedUrl.startsWith('file:')) {
+              files.add(fileURLToPath(importedUrl));
+            }
+          },
+        }),
+      );
+    } finally {
+      Object.keys(cache).forEach((key) => files.add(key.split('?')[0] ?? key));
+      watchers.forEach((watcher) => watcher.close());
+      watchers = [...files].filter(isProjectFile).flatMap((file) => {
+        try {
+          return watch(file, () => {
+            clearTimeout(timeout);
+            timeout = setTimeout(() => {
+              run().catch(writeToStderr);
+            }, 100);
+          });
+        } catch {
+          // The file was removed since it was imported
+          return [];
+        }
+      });
+    }
+  };
+
+  await run().catch(writeToStderr);
+  return new Promise<never>(() => undefined);
+};
+
+export const runGenerate = async (
+  args: string[],
+  write: (output: string) => void,
+): Promise<void> => {
+  const { positionals, values } = parseArgs({
+    args,
+    allowPositionals: true,
+    options: {
+      export: { type: 'string', short: 'e' },
+      'options-export': { type: 'string' },
+      format: { type: 'string', short: 'f' },
+      out: { type: 'string', short: 'o' },
+      openapi: { type: 'string' },
+      check: { type: 'boolean' },
+      watch: { type: 'boolean', short: 'w' },
+      'union-one-of': { type: 'boolean' },
+      'integer-format': { type: 'boolean' },
+      'zod-transforms-extension': { type: 'boolean' },
+      'component-variants': { type: 'string' },
+      'auto-ref': { type: 'boolean' },
+      'strict-circular-refs': { type: 'boolean' },
+      'convert-express-paths': { type: 'boolean' },
+      'auto-examples': { type: 'boolean' },
+      'path-parameter-validation': { type: 'string' },
+      'validate-examples': { type: 'string' },
+    },
+  });
+
+  const [input] = positionals;
+  const format =
+    values.format ??
+    (values.out && ['.yaml', '.yml'].includes(extname(values.out))
+      ? 'yaml'
+      : 'json');
+  const openapi = values.openapi as OpenApiVersion | undefined;
+  const pathParameterValidation = values['path-parameter-validation'];
+  const validateExamples = values['validate-examples'];
+
+  if (
+    !input ||
+    positionals.length > 1 ||
+    (format !== 'json' && format !== 'yaml') ||
+    (openapi !== undefined && !openApiVersions.includes(openapi)) ||
+    (values['component-variants'] !== undefined &&
+      values['component-variants'] !== 'auto') ||
+    (pathParameterValidation !== undefined &&
+      !isSeverity(pathParameterValidation)) ||
+    (validateExamples !== undefined && !isSeverity(validateExamples)) ||
+    (values.check && !values.out) ||
+    (values.check && values.watch)
+  ) {
+    throw usageError();
+  }
+
+  const generate = async (moduleExports: Record<string, unknown>) => {
+    const zodOpenApiObject = getExport(
+      moduleExports,
+      values.export ?? 'document',
+      input,
+    ) as ZodOpenApiObject;
+    const exportedOptions = values['options-export']
+      ? (getExport(
+          moduleExports,
+          values['options-export'],
+          input,
+        ) as CreateDocumentOptions)
+      : undefined;
+
+    const documentOptions: CreateDocumentOptions = {
+      onDiagnostic: ({ severity, message }) => {
+        if (severity === 'warning') {
+          writeToStderr(`Warning: ${message}`);
+        }
+      },
+      ...exportedOptions,
+      ...(values['union-one-of'] && { unionOneOf: true }),
+      ...(values['integer-format'] && { integerFormat: true }),
+      ...(values['zod-transforms-extension'] && {
+        zodTransformsExtension: true,
+      }),
+      ...(values['component-variants'] && { componentVariants: 'auto' }),
+      ...(values['auto-ref'] && { autoRef: true }),
+      ...(values['strict-circular-refs'] && { strictCircularRefs: true }),
+      ...(values['convert-express-paths'] && { convertExpressPaths: true }),
+      ...(values['auto-examples'] && { autoExamples: true }),
+      ...(pathParameterValidation && { pathParameterValidation }),
+      ...(validateExamples && { validateExamples }),
+    };
+
+    const document = createDocument(
+      openapi ? { ...zodOpenApiObject, openapi } : zodOpenApiObject,
+      documentOptions,
+    );
+
+    const output =
+      format === 'yaml'
+        ? (await importYaml(values.out ?? input)).stringify(document, {
+            aliasDuplicateObjects: false,
+          })
+        : `${JSON.stringify(document, null, 2)}\n`;
+
+    if (values.check && values.out) {
+      const existing = await readFile(values.out, 'utf8').catch(
+        () => undefined,
+      );
+      if (existing !== output) {
+        throw new Error(
+          `${relative(process.cwd(), values.out)} is out of date. Run zod-openapi generate without --check to update it`,
+        );
+      }
+      return;
+    }
+
+    if (values.out) {
+      await writeFile(values.out, output);
+      return;
+    }
+    write(output);
+  };
+
+  if (values.watch) {
+    return watchModule(input, generate);
+  }
+
+  return generate(await importModule(input));
+};
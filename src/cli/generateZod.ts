@@ -0,0 +1,38 @@
+import { writeFile } from 'fs/promises';
+import { parseArgs } from 'util';
+
+import { generateZod } from '../generate/generateZod';
+
+import { readDocument } from './document';
+
+export const GENERATE_ZOD_USAGE =
+  'zod-openapi generate-zod <document> [--out <file>] [--document-name <name>]';
+
+export const runGenerateZod = async (
+  args: string[],
+  write: (output: string) => void,
+): Promise<void> => {
+  const { positionals, values } = parseArgs({
+    args,
+    allowPositionals: true,
+    options: {
+      out: { type: 'string', short: 'o' },
+      'document-name': { type: 'string' },
+    },
+  });
+
+  const [input] = positionals;
+  if (!input || positionals.length > 1) {
+    throw new Error(`Usage: ${GENERATE_ZOD_USAGE}`);
+  }
+
+  const source = generateZod(await readDocument(input), {
+    documentName: values['document-name'],
+  });
+
+  if (values.out) {
+    await writeFile(values.out, source);
+    return;
+  }
+  write(source);
+};
@@ -0,0 +1,103 @@
+import { mkdtemp, readFile, rm, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+
+import { runCli } from '.';
+
+const document = {
+  openapi: '3.1.0',
+  info: { title: 'Jobs API', version: '1.0.0' },
+  paths: {},
+  components: {
+    schemas: {
+      Job: { type: 'string' },
+    },
+  },
+};
+
+describe('runCli', () => {
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), 'zod-openapi-'));
+  });
+
+  afterEach(() => rm(dir, { recursive: true, force: true }));
+
+  it('generates Zod schemas from a JSON document', async () => {
+    const input = join(dir, 'openapi.json');
+    await writeFile(input, JSON.stringify(document));
+    const write = jest.fn();
+
+    await runCli(['generate-zod', input, '--document-name', 'api'], write);
+
+    expect(write).toHaveBeenCalledWith(
+      expect.stringContaining(
+        "export const Job = z.string().openapi({\n  ref: 'Job',\n});",
+      ),
+    );
+    expect(write).toHaveBeenCalledWith(
+      expect.stringContaining('export const api = {'),
+    );
+  });
+
+  it('reads a YAML document and writes to a file', async () => {
+    const input = join(dir, 'openapi.yml');
+    const out = join(dir, 'openapi.ts');
+    await writeFile(
+      input,
+      [
+        'openapi: 3.1.0',
+        'info:',
+        '  title: Jobs API',
+        '  version: 1.0.0',
+        'paths: {}',
+      ].join('\n'),
+    );
+
+    await runCli(['generate-zod', input, '--out', out]);
+
+    await expect(readFile(out, 'utf8')).resolves.toContain(
+      "title: 'Jobs API',",
+    );
+  });
+
+  it('diffs two documents', async () => {
+    const before = join(dir, 'before.json');
+    const after = join(dir, 'after.json');
+    await writeFile(before, JSON.stringify(document));
+    await writeFile(
+      after,
+      JSON.stringify({
+        ...document,
+        paths: {
+          '/jobs': {
+            get: { responses: { '200': { description: '200 OK' } } },
+          },
+        },
+      }),
+    );
+    const write = jest.fn();
+
+    await runCli(['diff', before, after], write);
+
+    expect(write).toHaveBeenCalledWith(
+      '## Non-breaking changes\n\n- Operation GET /jobs was added at `/jobs > get`\n',
+    );
+    await expect(
+      runCli(['diff', after, before, '--fail-on-breaking'], write),
+    ).rejects.toThrow('Found 1 breaking changes');
+  });
+
+  it('throws for an unknown command', async () => {
+    await expect(runCli(['generate-ts'])).rejects.toThrow(
+      'Unknown command "generate-ts"',
+    );
+  });
+
+  it('throws when the document is missing', async () => {
+    await expect(runCli(['generate-zod'])).rejects.toThrow(
+      'Usage: zod-openapi generate-zod <document>',
+    );
+  });
+});
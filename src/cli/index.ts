@@ -0,0 +1,35 @@
+import { DIFF_USAGE, runDiff } from './diff';
+import { GENERATE_USAGE, runGenerate } from './generate';
+import { GENERATE_ZOD_USAGE, runGenerateZod } from './generateZod';
+
+const USAGE = [
+  'Usage:',
+  `  ${GENERATE_USAGE}`,
+  `  ${GENERATE_ZOD_USAGE}`,
+  `  ${DIFF_USAGE}`,
+].join('\n');
+
+/**
+ * Runs the `zod-openapi` command line interface with the arguments following the executable name.
+ */
+export const runCli = async (
+  args: string[],
+  write: (output: string) => void = (output) => process.stdout.write(output),
+): Promise<void> => {
+  const [command, ...rest] = args;
+
+  switch (command) {
+    case 'generate':
+      return runGenerate(rest, write);
+    case 'generate-zod':
+      return runGenerateZod(rest, write);
+    case 'diff':
+      return runDiff(rest, write);
+    case undefined:
+    case '--help':
+    case '-h':
+      return write(`${USAGE}\n`);
+    default:
+      throw new Error(`Unknown command "${command}"\n${USAGE}`);
+  }
+};
@@ -0,0 +1,207 @@
+import '../entries/extend';
+import { z } from 'zod';
+
+import { createClient } from './client';
+
+const Job = z.object({
+  id: z.string(),
+  title: z.string(),
+  createdAt: z.string().transform((value) => new Date(value)),
+});
+
+const document = {
+  openapi: '3.1.0',
+  info: {
+    title: 'My API',
+    version: '1.0.0',
+  },
+  paths: {
+    '/jobs/{id}': {
+      get: {
+        operationId: 'getJob',
+        requestParams: {
+          path: z.object({ id: z.string() }),
+          query: z.object({ expand: z.array(z.string()).optional() }),
+        },
+        responses: {
+          '200': {
+            description: '200 OK',
+            content: {
+              'application/json': { schema: Job },
+            },
+          },
+          '404': {
+            description: '404 Not Found',
+            content: {
+              'application/json': {
+                schema: z.object({ message: z.string() }),
+              },
+            },
+          },
+        },
+      },
+    },
+    '/jobs': {
+      post: {
+        operationId: 'createJob',
+        requestParams: {
+          header: z.object({ 'x-request-id': z.string() }),
+        },
+        requestBody: {
+          required: true,
+          content: {
+            'application/json': { schema: Job.pick({ title: true }) },
+          },
+        },
+        responses: {
+          '204': {
+            description: '204 No Content',
+          },
+        },
+      },
+    },
+  },
+} as const;
+
+const job = {
+  id: '1',
+  title: 'Developer',
+  createdAt: '2024-01-01T00:00:00.000Z',
+};
+
+const jsonResponse = (status: number, body: unknown) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { 'content-type': 'application/json' },
+  });
+
+describe('createClient', () => {
+  it('creates a method for each operationId', async () => {
+    const fetchStub = jest.fn(() => Promise.resolve(jsonResponse(200, job)));
+    const client = createClient(document, {
+      baseUrl: 'https://api.example.com/',
+      fetch: fetchStub,
+    });
+
+    const response = await client.getJob({
+      params: { path: { id: 'a/b' }, query: { expand: ['owner', 'tags'] } },
+    });
+
+    expect(fetchStub).toHaveBeenCalledWith(
+      'https://api.example.com/jobs/a%2Fb?expand=owner&expand=tags',
+      expect.objectContaining({ method: 'GET' }),
+    );
+    expect(response.status).toBe(200);
+    expect(response.body).toEqual(job);
+
+    const title =
+      response.status === 200 ? response.body.title : response.body.message;
+    expect(title satisfies string).toBe('Developer');
+  });
+
+  it('sends header parameters and a JSON body', async () => {
+    const fetchStub = jest.fn(() =>
+      Promise.resolve(new Response(null, { status: 204 })),
+    );
+    const client = createClient(document, {
+      baseUrl: 'https://api.example.com',
+      fetch: fetchStub,
+    });
+
+    const response = await client.createJob({
+      params: { header: { 'x-request-id': 'abc' } },
+      body: { title: 'Developer' },
+    });
+
+    expect(response).toEqual({
+      status: 204,
+      body: undefined,
+      headers: expect.any(Headers),
+    });
+
+    const [url, init] = fetchStub.mock.calls[0] as unknown as [
+      string,
+      RequestInit,
+    ];
+    const headers = init.headers as Headers;
+    expect(url).toBe('https://api.example.com/jobs');
+    expect(init.method).toBe('POST');
+    expect(init.body).toBe('{"title":"Developer"}');
+    expect(headers.get('x-request-id')).toBe('abc');
+    expect(headers.get('content-type')).toBe('application/json');
+  });
+
+  it('parses responses when validateResponses is set', async () => {
+    const client = createClient(document, {
+      baseUrl: 'https://api.example.com',
+      fetch: () => Promise.resolve(jsonResponse(200, job)),
+      validateResponses: true,
+    });
+
+    const response = await client.getJob({ params: { path: { id: '1' } } });
+
+    expect(response.body).toEqual({
+      ...job,
+      createdAt: new Date(job.createdAt),
+    });
+  });
+
+  it('throws an error when a response fails validation', async () => {
+    const client = createClient(document, {
+      baseUrl: 'https://api.example.com',
+      fetch: () => Promise.resolve(jsonResponse(404, { error: 'Not Found' })),
+      validateResponses: true,
+    });
+
+    await expect(
+      client.getJob({ params: { path: { id: '1' } } }),
+    ).rejects.toThrow(
+      'Response from getJob failed validation: body > message: Required',
+    );
+  });
+
+  it('accepts path item parameters', async () => {
+    const fetchStub = jest.fn(() =>
+      Promise.resolve(new Response(null, { status: 204 })),
+    );
+    const client = createClient(
+      {
+        openapi: '3.1.0',
+        info: { title: 'My API', version: '1.0.0' },
+        paths: {
+          '/orgs/{orgId}/jobs/{id}': {
+            requestParams: { path: z.object({ orgId: z.string() }) },
+            delete: {
+              operationId: 'deleteJob',
+              requestParams: { path: z.object({ id: z.string() }) },
+              responses: { '204': { description: '204 No Content' } },
+            },
+          },
+        },
+      },
+      { baseUrl: 'https://api.example.com', fetch: fetchStub },
+    );
+
+    await client.deleteJob({ params: { path: { orgId: 'acme', id: '1' } } });
+
+    expect(fetchStub).toHaveBeenCalledWith(
+      'https://api.example.com/orgs/acme/jobs/1',
+      expect.objectContaining({ method: 'DELETE' }),
+    );
+  });
+
+  it('throws an error when an operationId is used twice', () => {
+    expect(() =>
+      createClient(
+        {
+          ...document,
+          paths: {
+            ...document.paths,
+            '/other-jobs': document.paths['/jobs'],
+          },
+        },
+        { baseUrl: 'https://api.example.com' },
+      ),
+    ).toThrow('operationId "createJob" is already registered');
+  });
+});
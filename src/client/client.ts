@@ -0,0 +1,234 @@
+import type { ZodType, z } from 'zod';
+
+import type {
+  ZodOpenApiObject,
+  ZodOpenApiOperationObject,
+  ZodOpenApiParameters,
+  ZodOpenApiPathItemObject,
+} from '../create/document';
+import { HTTP_METHODS, type HttpMethod } from '../openapi';
+import type { ValidationIssue } from '../validate/request';
+import { validateResponseOperation } from '../validate/response';
+
+import {
+  type ClientRequestInput,
+  createFetchRequest,
+  readResponseBody,
+} from './request';
+
+export interface CreateClientOptions {
+  /** The URL which the paths are appended to eg. `https://api.example.com/v1` */
+  baseUrl: string;
+  /** Defaults to the global `fetch` */
+  fetch?: typeof fetch;
+  /** Set to `true` to parse response headers and bodies with their Zod schemas. Invalid responses throw an error */
+  validateResponses?: boolean;
+}
+
+type ZodInput<T> = T extends ZodType ? z.input<T> : unknown;
+type ZodOutput<T> = T extends ZodType ? z.output<T> : unknown;
+
+type EmptyObject = Record<never, never>;
+
+type PartialWhenEmpty<T> = {
+  [K in keyof T as EmptyObject extends T[K] ? never : K]: T[K];
+} & {
+  [K in keyof T as EmptyObject extends T[K] ? K : never]?: T[K];
+};
+
+type Operations<Paths> = {
+  [Path in keyof Paths]: {
+    [Method in keyof Paths[Path] & HttpMethod]: Paths[Path][Method] &
+      Pick<Paths[Path], 'requestParams' & keyof Paths[Path]>;
+  }[keyof Paths[Path] & HttpMethod];
+}[keyof Paths];
+
+type DocumentOperations<Document extends ZodOpenApiObject> = Extract<
+  Operations<NonNullable<Document['paths']>>,
+  { operationId: string }
+>;
+
+type ParamsInput<Operation> = Operation extends {
+  requestParams?: infer Params;
+}
+  ? PartialWhenEmpty<{
+      [Location in keyof NonNullable<Params> &
+        keyof ZodOpenApiParameters]: ZodInput<
+        NonNullable<NonNullable<Params>[Location]>
+      >;
+    }>
+  : EmptyObject;
+
+type BodyInput<Operation> = Operation extends {
+  requestBody?: { content: infer Content };
+}
+  ? {
+      [MediaType in keyof Content]: NonNullable<Content[MediaType]> extends {
+        schema?: infer Schema;
+      }
+        ? ZodInput<Schema>
+        : unknown;
+    }[keyof Content]
+  : never;
+
+type ContentType<Operation> = Operation extends {
+  requestBody?: { content: infer Content };
+}
+  ? keyof Content & string
+  : never;
+
+export type ClientOperationInput<Operation> = PartialWhenEmpty<{
+  params: ParamsInput<Operation>;
+}> &
+  ([BodyInput<Operation>] extends [never]
+    ? EmptyObject
+    : Operation extends { requestBody: { required: true } }
+      ? { body: BodyInput<Operation> }
+      : { body?: BodyInput<Operation> }) & {
+    contentType?: ContentType<Operation>;
+    init?: RequestInit;
+  };
+
+type ResponseBody<Response> = Response extends { content: infer Content }
+  ? {
+      [MediaType in keyof Content]: NonNullable<Content[MediaType]> extends {
+        schema?: infer Schema;
+      }
+        ? ZodOutput<Schema>
+        : unknown;
+    }[keyof Content]
+  : undefined;
+
+export type ClientOperationResponse<Operation> = Operation extends {
+  responses: infer Responses;
+}
+  ? {
+      [Status in keyof Responses & string]: {
+        status: Status extends `${infer Code extends number}` ? Code : number;
+        body: ResponseBody<Responses[Status]>;
+        headers: Headers;
+      };
+    }[keyof Responses & string]
+  : never;
+
+export type Client<Document extends ZodOpenApiObject> = {
+  [OperationId in DocumentOperations<Document>['operationId']]: (
+    ...args: EmptyObject extends ClientOperationInput<
+      Extract<DocumentOperations<Document>, { operationId: OperationId }>
+    >
+      ? [
+          input?: ClientOperationInput<
+            Extract<DocumentOperations<Document>, { operationId: OperationId }>
+          >,
+        ]
+      : [
+          input: ClientOperationInput<
+            Extract<DocumentOperations<Document>, { operationId: OperationId }>
+          >,
+        ]
+  ) => Promise<
+    ClientOperationResponse<
+      Extract<DocumentOperations<Document>, { operationId: OperationId }>
+    >
+  >;
+};
+
+interface ClientResponse {
+  status: number;
+  body: unknown;
+  headers: Headers;
+}
+
+const formatIssue = (issue: ValidationIssue) =>
+  [issue.location, ...issue.path].join(' > ').concat(`: ${issue.message}`);
+
+const createOperation =
+  (
+    template: string,
+    method: HttpMethod,
+    pathItem: ZodOpenApiPathItemObject,
+    operation: ZodOpenApiOperationObject,
+    options: CreateClientOptions,
+  ) =>
+  async (input?: ClientRequestInput): Promise<ClientResponse> => {
+    const fetchFn = options.fetch ?? fetch;
+    const [url, init] = createFetchRequest(
+      options.baseUrl,
+      template,
+      method,
+      operation,
+      input,
+    );
+
+    const response = await fetchFn(url, init);
+    const body = await readResponseBody(response);
+
+    if (!options.validateResponses) {
+      return { status: response.status, body, headers: response.headers };
+    }
+
+    const result = validateResponseOperation(
+      { template, params: {}, method, pathItem, operation },
+      {
+        method,
+        path: template,
+        status: response.status,
+        headers: Object.fromEntries(response.headers.entries()),
+        body,
+      },
+    );
+    if (!result.success) {
+      throw new Error(
+        `Response from ${operation.operationId} failed validation: ${result.issues.map(formatIssue).join(', ')}`,
+      );
+    }
+
+    return {
+      status: response.status,
+      body: result.data.body,
+      headers: response.headers,
+    };
+  };
+
+/**
+ * Creates a client with a method for each operation with an `operationId`. Request inputs and responses are typed from
+ * the Zod schemas in the document.
+ */
+export const createClient = <const Document extends ZodOpenApiObject>(
+  document: Document,
+  options: CreateClientOptions,
+): Client<Document> => {
+  const client: Record<
+    string,
+    (input?: ClientRequestInput) => Promise<ClientResponse>
+  > = {};
+
+  Object.entries(document.paths ?? {}).forEach(([template, pathItem]) => {
+    if (!template.startsWith('/')) {
+      return;
+    }
+
+    HTTP_METHODS.forEach((method) => {
+      const operation = pathItem[method];
+      if (!operation?.operationId) {
+        return;
+      }
+
+      if (client[operation.operationId]) {
+        throw new Error(
+          `operationId "${operation.operationId}" is already registered`,
+        );
+      }
+
+      client[operation.operationId] = createOperation(
+        template,
+        method,
+        pathItem,
+        operation,
+        options,
+      );
+    });
+  });
+
+  return client as unknown as Client<Document>;
+};
@@ -0,0 +1,76 @@
+import { createFetchRequest, createUrl, readResponseBody } from './request';
+
+describe('createUrl', () => {
+  it('fills path templates and serializes query parameters', () => {
+    expect(
+      createUrl('https://api.example.com/v1/', '/jobs/{id}', {
+        path: { id: 'a b' },
+        query: {
+          from: new Date('2024-01-01T00:00:00.000Z'),
+          tags: ['a', 'b'],
+          page: 2,
+          skipped: undefined,
+        },
+      }),
+    ).toBe(
+      'https://api.example.com/v1/jobs/a%20b?from=2024-01-01T00%3A00%3A00.000Z&tags=a&tags=b&page=2',
+    );
+  });
+
+  it('throws an error when a path parameter is missing', () => {
+    expect(() =>
+      createUrl('https://api.example.com', '/jobs/{id}', undefined),
+    ).toThrow('Path parameter "id" is missing for /jobs/{id}');
+  });
+});
+
+describe('createFetchRequest', () => {
+  it('serializes cookies and form bodies', () => {
+    const [url, init] = createFetchRequest(
+      'https://api.example.com',
+      '/login',
+      'post',
+      {
+        requestBody: {
+          content: {
+            'application/x-www-form-urlencoded': {},
+          },
+        },
+        responses: {},
+      },
+      {
+        params: { cookie: { session: 'a;b', theme: 'dark' } },
+        body: { username: 'sam' },
+        init: { headers: { accept: 'application/json' } },
+      },
+    );
+
+    const headers = init.headers as Headers;
+    expect(url).toBe('https://api.example.com/login');
+    expect(init.method).toBe('POST');
+    expect(init.body).toEqual(new URLSearchParams({ username: 'sam' }));
+    expect(headers.get('cookie')).toBe('session=a%3Bb; theme=dark');
+    expect(headers.get('accept')).toBe('application/json');
+    expect(headers.get('content-type')).toBe(
+      'application/x-www-form-urlencoded',
+    );
+  });
+});
+
+describe('readResponseBody', () => {
+  it('parses JSON and returns text or undefined otherwise', async () => {
+    await expect(
+      readResponseBody(
+        new Response('{"a":1}', {
+          headers: { 'content-type': 'application/problem+json' },
+        }),
+      ),
+    ).resolves.toEqual({ a: 1 });
+    await expect(readResponseBody(new Response('hello'))).resolves.toBe(
+      'hello',
+    );
+    await expect(
+      readResponseBody(new Response(null, { status: 204 })),
+    ).resolves.toBeUndefined();
+  });
+});
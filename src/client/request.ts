@@ -0,0 +1,151 @@
+import type { ZodOpenApiOperationObject } from '../create/document';
+
+export interface ClientRequestParams {
+  path?: Record<string, unknown>;
+  query?: Record<string, unknown>;
+  header?: Record<string, unknown>;
+  cookie?: Record<string, unknown>;
+}
+
+export interface ClientRequestInput {
+  params?: ClientRequestParams;
+  body?: unknown;
+  /** The media type of the request body. Defaults to `application/json` or the first declared media type */
+  contentType?: string;
+  /** Additional options passed to `fetch` */
+  init?: RequestInit;
+}
+
+type RequestBody = NonNullable<RequestInit['body']>;
+
+const serializeParam = (value: unknown): string =>
+  value instanceof Date ? value.toISOString() : String(value);
+
+const isJsonMediaType = (mediaType: string) =>
+  /^application\/(?:[\w.-]+\+)?json$/i.test(mediaType);
+
+const getDefinedEntries = (values: Record<string, unknown> | undefined) =>
+  Object.entries(values ?? {}).filter(
+    (entry): entry is [string, NonNullable<unknown>] =>
+      entry[1] !== undefined && entry[1] !== null,
+  );
+
+export const createUrl = (
+  baseUrl: string,
+  template: string,
+  params: ClientRequestParams | undefined,
+): string => {
+  const path = template.replace(/\{([^}]+)\}/g, (_, name: string) => {
+    const value = params?.path?.[name];
+    if (value === undefined || value === null) {
+      throw new Error(`Path parameter "${name}" is missing for ${template}`);
+    }
+    return encodeURIComponent(serializeParam(value));
+  });
+
+  const query = new URLSearchParams();
+  getDefinedEntries(params?.query).forEach(([name, value]) =>
+    (Array.isArray(value) ? value : [value]).forEach((item) =>
+      query.append(name, serializeParam(item)),
+    ),
+  );
+  const queryString = query.toString();
+
+  return `${baseUrl.replace(/\/$/, '')}${path}${queryString ? `?${queryString}` : ''}`;
+};
+
+const createBody = (
+  operation: ZodOpenApiOperationObject,
+  input: ClientRequestInput,
+  headers: Headers,
+): RequestBody | undefined => {
+  const content = operation.requestBody?.content;
+  if (!content || input.body === undefined) {
+    return input.body as RequestBody | undefined;
+  }
+
+  const contentType =
+    input.contentType ??
+    ('application/json' in content
+      ? 'application/json'
+      : Object.keys(content)[0]);
+  if (!contentType) {
+    return input.body as RequestBody;
+  }
+
+  if (!headers.has('content-type')) {
+    headers.set('content-type', contentType);
+  }
+
+  if (isJsonMediaType(contentType)) {
+    return JSON.stringify(input.body);
+  }
+
+  if (
+    contentType === 'application/x-www-form-urlencoded' &&
+    typeof input.body === 'object' &&
+    !(input.body instanceof URLSearchParams)
+  ) {
+    return new URLSearchParams(
+      getDefinedEntries(input.body as Record<string, unknown>).map(
+        ([name, value]): [string, string] => [name, serializeParam(value)],
+      ),
+    );
+  }
+
+  return input.body as RequestBody;
+};
+
+/**
+ * Creates the `fetch` arguments for an operation by serializing its path, query, header and cookie parameters and body
+ */
+export const createFetchRequest = (
+  baseUrl: string,
+  template: string,
+  method: string,
+  operation: ZodOpenApiOperationObject,
+  input: ClientRequestInput = {},
+): [string, RequestInit] => {
+  const headers = new Headers(input.init?.headers);
+  getDefinedEntries(input.params?.header).forEach(([name, value]) =>
+    headers.set(
+      name,
+      Array.isArray(value)
+        ? value.map(serializeParam).join(',')
+        : serializeParam(value),
+    ),
+  );
+
+  const cookies = getDefinedEntries(input.params?.cookie).map(
+    ([name, value]) => `${name}=${encodeURIComponent(serializeParam(value))}`,
+  );
+  if (cookies.length) {
+    headers.set('cookie', cookies.join('; '));
+  }
+
+  const body = createBody(operation, input, headers);
+
+  return [
+    createUrl(baseUrl, template, input.params),
+    {
+      ...input.init,
+      method: method.toUpperCase(),
+      headers,
+      ...(body !== undefined && { body }),
+    },
+  ];
+};
+
+export const readResponseBody = async (
+  response: Response,
+): Promise<unknown> => {
+  const text = await response.text();
+  if (!text) {
+    return undefined;
+  }
+
+  const contentType = response.headers.get('content-type')?.split(';')[0];
+  return contentType && isJsonMediaType(contentType.trim())
+    ? (JSON.parse(text) as unknown)
+    : text;
+};
@@ -0,0 +1,270 @@
+import '../entries/extend';
+import { z } from 'zod';
+
+import {
+  type ZodOpenApiObject,
+  type ZodOpenApiVersion,
+  createDocument,
+} from '../create/document';
+import type { oas30, oas31 } from '../openapi3-ts/dist';
+
+import { convertDocument } from './convertDocument';
+
+const Job = z.object({ id: z.string() }).openapi({ ref: 'Job' });
+
+const createJobsObject = (openapi: ZodOpenApiVersion): ZodOpenApiObject => ({
+  openapi,
+  info: { title: 'Jobs API', version: '1.0.0' },
+  paths: {
+    '/jobs': {
+      post: {
+        requestParams: {
+          query: z.object({ limit: z.number().gt(0).lt(100).optional() }),
+        },
+        requestBody: {
+          content: {
+            'application/json': {
+              schema: z.object({
+                title: z.string().nullable(),
+                job: Job.nullable(),
+                salary: z.union([z.number(), z.string()]).nullable(),
+              }),
+            },
+          },
+        },
+        responses: {
+          '200': {
+            description: '200 OK',
+            content: {
+              'application/json': {
+                schema: z.object({
+                  kind: z.literal('job'),
+                  range: z.tuple([z.number(), z.number()]),
+                }),
+              },
+            },
+          },
+        },
+      },
+    },
+  },
+});
+
+describe('convertDocument', () => {
+  it('downgrades an OpenAPI 3.1 document to the OpenAPI 3.0 rendering', () => {
+    const { document, diagnostics } = convertDocument(
+      createDocument(createJobsObject('3.1.0')),
+      '3.0.3',
+    );
+
+    expect(document).toEqual(createDocument(createJobsObject('3.0.3')));
+    expect(diagnostics.map(({ message }) => message)).toEqual([
+      'The positions of "prefixItems" cannot be represented in OpenAPI 3.0 and were merged into "items" at /jobs > post > responses > 200 > content > application/json > schema > properties > range',
+    ]);
+  });
+
+  it('upgrades an OpenAPI 3.0 document to the OpenAPI 3.1 rendering', () => {
+    const { document, diagnostics } = convertDocument(
+      createDocument(createJobsObject('3.0.3')),
+      '3.1.0',
+    );
+
+    const expected = createDocument(createJobsObject('3.1.0'));
+    const responseSchema = expected.paths?.['/jobs']?.post?.responses?.['200']
+      .content['application/json'].schema as oas31.SchemaObject;
+    // Tuple item positions and `const` are not represented in OpenAPI 3.0
+    responseSchema.properties = {
+      kind: { type: 'string', enum: ['job'] },
+      range: {
+        type: 'array',
+        minItems: 2,
+        maxItems: 2,
+        items: { oneOf: [{ type: 'number' }, { type: 'number' }] },
+      },
+    };
+
+    expect(document).toEqual(expected);
+    expect(diagnostics).toEqual([]);
+  });
+
+  it('converts hand-written schemas', () => {
+    const schema: oas31.SchemaObject = {
+      type: ['string', 'integer', 'null'],
+      examples: ['a'],
+      properties: {
+        status: { enum: ['open', 'closed'], type: ['string', 'null'] },
+        nothing: { type: 'null' },
+        pet: {
+          $ref: '#/components/schemas/Pet',
+          description: 'The pet',
+        },
+        tuple: {
+          type: 'array',
+          prefixItems: [{ type: 'string' }],
+          items: { type: 'number' },
+        },
+        amount: { type: 'number', exclusiveMaximum: 10, maximum: 5 },
+      },
+    };
+
+    expect(
+      convertDocument(
+        {
+          openapi: '3.1.0',
+          info: { title: 'Jobs API', version: '1.0.0' },
+          components: { schemas: { Job: schema } },
+        },
+        '3.0.3',
+      ).document.components?.schemas?.Job,
+    ).toEqual<oas30.SchemaObject>({
+      anyOf: [{ type: 'string' }, { type: 'integer' }],
+      nullable: true,
+      example: 'a',
+      properties: {
+        status: {
+          type: 'string',
+          nullable: true,
+          enum: ['open', 'closed', null],
+        },
+        nothing: { nullable: true, enum: [null] },
+        pet: {
+          allOf: [{ $ref: '#/components/schemas/Pet' }],
+          description: 'The pet',
+        },
+        tuple: {
+          type: 'array',
+          items: { oneOf: [{ type: 'string' }, { type: 'number' }] },
+        },
+        amount: { type: 'number', maximum: 5 },
+      },
+    });
+  });
+
+  it('reports anything which cannot be represented in OpenAPI 3.0', () => {
+    const info = {
+      title: 'Jobs API',
+      version: '1.0.0',
+      summary: 'Jobs',
+      license: { name: 'MIT', identifier: 'MIT' },
+    };
+    const { document, diagnostics } = convertDocument(
+      createDocument({
+        openapi: '3.1.0',
+        info,
+        webhooks: {
+          jobCreated: {
+            post: { responses: { '200': { description: '200 OK' } } },
+          },
+        },
+        components: {
+          schemas: {
+            Tags: z.record(z.string().min(1), z.string()),
+            Examples: z.string().openapi({ examples: ['a', 'b'] }),
+          },
+        },
+      }),
+      '3.0.3',
+    );
+
+    expect(document).toEqual<oas30.OpenAPIObject>({
+      openapi: '3.0.3',
+      info: { title: 'Jobs API', version: '1.0.0', license: { name: 'MIT' } },
+      paths: {},
+      components: {
+        schemas: {
+          Tags: {
+            type: 'object',
+            additionalProperties: { type: 'string' },
+          },
+          Examples: { type: 'string', example: 'a' },
+        },
+      },
+    });
+    expect(diagnostics.map(({ message }) => message)).toEqual([
+      'Webhooks cannot be represented in OpenAPI 3.0 and were removed at webhooks',
+      '"summary" cannot be represented in OpenAPI 3.0 and was removed at info',
+      '"identifier" cannot be represented in OpenAPI 3.0 and was removed at info > license',
+      '"propertyNames" cannot be represented in OpenAPI 3.0 and was removed at components > schemas > Tags',
+      'Only the first schema example can be represented in OpenAPI 3.0 at components > schemas > Examples',
+    ]);
+  });
+
+  it('inlines path item components when downgrading', () => {
+    const { document, diagnostics } = convertDocument(
+      {
+        openapi: '3.1.0',
+        info: { title: 'Jobs API', version: '1.0.0' },
+        paths: {
+          '/jobs': {
+            $ref: '#/components/pathItems/Jobs',
+            summary: 'Jobs',
+          },
+          '/tags': { $ref: '#/components/pathItems/Tags' },
+        },
+        // pathItems are missing from the OpenAPI 3.1 types
+        components: {
+          pathItems: {
+            Jobs: {
+              get: {
+                responses: {
+                  '200': {
+                    description: '200 OK',
+                    content: {
+                      'application/json': {
+                        schema: { type: ['string', 'null'] },
+                      },
+                    },
+                  },
+                },
+              },
+            },
+          },
+        } as oas31.ComponentsObject,
+      },
+      '3.0.3',
+    );
+
+    expect(document.paths).toEqual<oas30.PathsObject>({
+      '/jobs': {
+        summary: 'Jobs',
+        get: {
+          responses: {
+            '200': {
+              description: '200 OK',
+              content: {
+                'application/json': {
+                  schema: { type: 'string', nullable: true },
+                },
+              },
+            },
+          },
+        },
+      },
+      '/tags': { $ref: '#/components/pathItems/Tags' },
+    });
+    expect(document.components).toEqual({});
+    expect(
+      diagnostics.map(({ severity, message }) => ({ severity, message })),
+    ).toEqual([
+      {
+        severity: 'error',
+        message:
+          'Path item #/components/pathItems/Tags could not be inlined at /tags',
+      },
+      {
+        severity: 'warning',
+        message:
+          'Path item components cannot be represented in OpenAPI 3.0 and were inlined where they are referenced at components > pathItems',
+      },
+    ]);
+  });
+
+  it('only changes the version within the same major version', () => {
+    const document = createDocument(createJobsObject('3.0.0'));
+
+    expect(convertDocument(document, '3.0.3').document).toEqual({
+      ...document,
+      openapi: '3.0.3',
+    });
+  });
+});
@@ -0,0 +1,750 @@
+import { type Diagnostic, reportDiagnostic } from '../create/diagnostics';
+import { collapseNullUnion } from '../create/schema/parsers/nullUnion';
+import {
+  HTTP_METHODS,
+  type OpenApiVersion,
+  satisfiesVersion,
+} from '../openapi';
+import type { oas30, oas31 } from '../openapi3-ts/dist';
+
+type JsonObject = Record<string, unknown>;
+
+export interface ConvertedDocument<Version extends OpenApiVersion> {
+  document: Version extends '3.1.0' ? oas31.OpenAPIObject : oas30.OpenAPIObject;
+  /** Anything in the document which could not be represented in the target version */
+  diagnostics: Diagnostic[];
+}
+
+interface ConvertState {
+  upgrade: boolean;
+  diagnostics: Diagnostic[];
+  /** The `components.pathItems` of the source document which are inlined when downgrading */
+  pathItems?: JsonObject;
+}
+
+const COMPONENT_PATH_ITEM_PREFIX = '#/components/pathItems/';
+
+const SUBSCHEMA_KEYWORDS = [
+  'not',
+  'items',
+  'additionalProperties',
+  'contains',
+  'propertyNames',
+  'if',
+  'then',
+  'else',
+  'unevaluatedItems',
+  'unevaluatedProperties',
+  'contentSchema',
+] as const;
+
+const SUBSCHEMA_ARRAY_KEYWORDS = [
+  'allOf',
+  'anyOf',
+  'oneOf',
+  'prefixItems',
+] as const;
+
+const SUBSCHEMA_MAP_KEYWORDS = [
+  'properties',
+  'patternProperties',
+  'dependentSchemas',
+  '$defs',
+] as const;
+
+/**
+ * JSON Schema keywords which are only valid in OpenAPI 3.1 and have no OpenAPI 3.0 equivalent.
+ */
+const OPENAPI_31_KEYWORDS = [
+  '$schema',
+  '$id',
+  '$anchor',
+  '$dynamicAnchor',
+  '$dynamicRef',
+  '$defs',
+  '$comment',
+  'contains',
+  'minContains',
+  'maxContains',
+  'propertyNames',
+  'patternProperties',
+  'dependentSchemas',
+  'dependentRequired',
+  'if',
+  'then',
+  'else',
+  'unevaluatedItems',
+  'unevaluatedProperties',
+  'contentEncoding',
+  'contentMediaType',
+  'contentSchema',
+] as const;
+
+const isObject = (value: unknown): value is JsonObject =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const mapValues = (
+  value: unknown,
+  fn: (entry: unknown, key: string) => unknown,
+): unknown =>
+  isObject(value)
+    ? Object.fromEntries(
+        Object.entries(value).map(([key, entry]) => [key, fn(entry, key)]),
+      )
+    : value;
+
+const reportUnsupported = (
+  state: ConvertState,
+  message: string,
+  subpath: string[],
+) =>
+  reportDiagnostic(state.diagnostics, {
+    severity: 'warning',
+    code: 'unsupported-conversion',
+    message: `${message} at ${subpath.join(' > ')}`,
+    subpath,
+  });
+
+const isNullSchema = (schema: unknown) =>
+  isObject(schema) &&
+  schema.type === 'null' &&
+  Object.keys(schema).length === 1;
+
+/**
+ * Moves `{ type: 'null' }` members of a `oneOf` or `anyOf` into `nullable`. This needs to happen before the members
+ * are converted as a converted null schema is indistinguishable from any other nullable schema.
+ */
+const extractNullMembers = (schema: JsonObject): JsonObject => {
+  const key = (['oneOf', 'anyOf'] as const).find(
+    (ofKey) =>
+      Array.isArray(schema[ofKey]) &&
+      (schema[ofKey] as unknown[]).some(isNullSchema),
+  );
+  if (!key) {
+    return schema;
+  }
+
+  const { [key]: members, ...rest } = schema;
+  const nonNullMembers = (members as unknown[]).filter(
+    (member) => !isNullSchema(member),
+  );
+
+  if (nonNullMembers.length === 1) {
+    return { allOf: nonNullMembers, ...rest, nullable: true };
+  }
+  return { [key]: nonNullMembers, ...rest, nullable: true };
+};
+
+const downgradeType = (schema: JsonObject): JsonObject => {
+  const { type, ...rest } = schema;
+  const types = Array.isArray(type) ? (type as unknown[]) : [type];
+  if (!types.includes('null')) {
+    return schema;
+  }
+
+  const nonNullTypes = types.filter((t) => t !== 'null');
+  const enumValues = Array.isArray(rest.enum)
+    ? (rest.enum as unknown[])
+    : undefined;
+  const nullable = {
+    nullable: true,
+    // https://github.com/OAI/OpenAPI-Specification/blob/main/proposals/2019-10-31-Clarify-Nullable.md#if-a-schema-specifies-nullable-true-and-enum-1-2-3-does-that-schema-allow-null-values-see-1900
+    ...(enumValues &&
+      !enumValues.includes(null) && { enum: [...enumValues, null] }),
+  };
+
+  if (!nonNullTypes.length) {
+    return { ...rest, nullable: true, enum: enumValues ?? [null] };
+  }
+
+  if (nonNullTypes.length === 1) {
+    return { type: nonNullTypes[0], ...rest, ...nullable };
+  }
+
+  const anyOf = nonNullTypes.map((t) => ({ type: t }));
+  if (rest.anyOf) {
+    const allOf = Array.isArray(rest.allOf) ? (rest.allOf as unknown[]) : [];
+    return { ...rest, allOf: [...allOf, { anyOf }], ...nullable };
+  }
+
+  return {
+    anyOf,
+    ...rest,
+    ...nullable,
+  };
+};
+
+const downgradeSchema = (
+  schema: JsonObject,
+  state: ConvertState,
+  subpath: string[],
+): JsonObject => {
+  const result: JsonObject = { ...schema };
+
+  OPENAPI_31_KEYWORDS.forEach((keyword) => {
+    if (keyword in result) {
+      delete result[keyword];
+      reportUnsupported(
+        state,
+        `"${keyword}" cannot be represented in OpenAPI 3.0 and was removed`,
+        subpath,
+      );
+    }
+  });
+
+  if ('const' in result) {
+    if (!result.enum) {
+      result.enum = [result.const];
+    }
+    delete result.const;
+  }
+
+  if (Array.isArray(result.examples)) {
+    const examples = result.examples as unknown[];
+    if (result.example === undefined && examples.length) {
+      result.example = examples[0];
+    }
+    if (examples.length > 1) {
+      reportUnsupported(
+        state,
+        'Only the first schema example can be represented in OpenAPI 3.0',
+        subpath,
+      );
+    }
+    delete result.examples;
+  }
+
+  (
+    [
+      ['exclusiveMinimum', 'minimum', (a: number, b: number) => a >= b],
+      ['exclusiveMaximum', 'maximum', (a: number, b: number) => a <= b],
+    ] as const
+  ).forEach(([exclusiveKey, inclusiveKey, isMoreRestrictive]) => {
+    const exclusive = result[exclusiveKey];
+    const inclusive = result[inclusiveKey];
+    if (typeof exclusive !== 'number') {
+      return;
+    }
+    if (
+      typeof inclusive === 'number' &&
+      !isMoreRestrictive(exclusive, inclusive)
+    ) {
+      delete result[exclusiveKey];
+      return;
+    }
+    result[inclusiveKey] = exclusive;
+    result[exclusiveKey] = true;
+  });
+
+  if (Array.isArray(result.prefixItems)) {
+    const prefixItems = result.prefixItems as unknown[];
+    const rest = isObject(result.items) ? [result.items] : [];
+    result.items = { oneOf: [...prefixItems, ...rest] };
+    delete result.prefixItems;
+    reportUnsupported(
+      state,
+      'The positions of "prefixItems" cannot be represented in OpenAPI 3.0 and were merged into "items"',
+      subpath,
+    );
+  }
+
+  if (typeof result.$ref === 'string' && Object.keys(result).length > 1) {
+    const { $ref, ...siblings } = result;
+    return { allOf: [{ $ref }], ...siblings };
+  }
+
+  return downgradeType(result);
+};
+
+const upgradeSchema = (schema: JsonObject): JsonObject => {
+  const result: JsonObject = { ...schema };
+
+  (
+    [
+      ['exclusiveMinimum', 'minimum'],
+      ['exclusiveMaximum', 'maximum'],
+    ] as const
+  ).forEach(([exclusiveKey, inclusiveKey]) => {
+    if (typeof result[exclusiveKey] !== 'boolean') {
+      return;
+    }
+    if (result[exclusiveKey] && typeof result[inclusiveKey] === 'number') {
+      result[exclusiveKey] = result[inclusiveKey];
+      delete result[inclusiveKey];
+      return;
+    }
+    delete result[exclusiveKey];
+  });
+
+  if ('example' in result) {
+    if (!result.examples) {
+      result.examples = [result.example];
+    }
+    delete result.example;
+  }
+
+  if (!('nullable' in result)) {
+    return result;
+  }
+
+  const { nullable, ...rest } = result;
+  if (!nullable) {
+    return rest;
+  }
+
+  const enumValues = Array.isArray(rest.enum)
+    ? (rest.enum as unknown[])
+    : undefined;
+  if (enumValues && !enumValues.includes(null)) {
+    rest.enum = [...enumValues, null];
+  }
+
+  if (typeof rest.type === 'string') {
+    return { ...rest, type: [rest.type, 'null'] };
+  }
+
+  const key = (['oneOf', 'anyOf'] as const).find((ofKey) =>
+    Array.isArray(rest[ofKey]),
+  );
+  if (key) {
+    const { [key]: options, ...siblings } = rest;
+    const nullOptions: oas31.SchemaObject[] = [
+      ...(options as oas31.SchemaObject[]),
+      { type: 'null' },
+    ];
+    const collapsed = Object.keys(siblings).length
+      ? undefined
+      : collapseNullUnion(nullOptions);
+    return collapsed ? { ...collapsed } : { ...siblings, [key]: nullOptions };
+  }
+
+  if (Array.isArray(rest.allOf) && rest.allOf.length === 1) {
+    const { allOf, ...siblings } = rest;
+    return { oneOf: [...(allOf as unknown[]), { type: 'null' }], ...siblings };
+  }
+
+  return rest;
+};
+
+const convertSchema = (
+  schema: unknown,
+  state: ConvertState,
+  subpath: string[],
+): unknown => {
+  if (!isObject(schema)) {
+    return schema;
+  }
+
+  const source = state.upgrade ? schema : extractNullMembers(schema);
+  const withSubschemas: JsonObject = { ...source };
+
+  SUBSCHEMA_KEYWORDS.forEach((keyword) => {
+    if (isObject(source[keyword])) {
+      withSubschemas[keyword] = convertSchema(source[keyword], state, [
+        ...subpath,
+        keyword,
+      ]);
+    }
+  });
+  SUBSCHEMA_ARRAY_KEYWORDS.forEach((keyword) => {
+    const subschemas = source[keyword];
+    if (Array.isArray(subschemas)) {
+      withSubschemas[keyword] = subschemas.map((subschema, index) =>
+        convertSchema(subschema, state, [...subpath, `${keyword} ${index}`]),
+      );
+    }
+  });
+  SUBSCHEMA_MAP_KEYWORDS.forEach((keyword) => {
+    if (isObject(source[keyword])) {
+      withSubschemas[keyword] = mapValues(source[keyword], (subschema, key) =>
+        convertSchema(subschema, state, [...subpath, keyword, key]),
+      );
+    }
+  });
+
+  return state.upgrade
+    ? upgradeSchema(withSubschemas)
+    : downgradeSchema(withSubschemas, state, subpath);
+};
+
+const convertContent = (
+  content: unknown,
+  state: ConvertState,
+  subpath: string[],
+): unknown =>
+  mapValues(content, (mediaType, key) =>
+    isObject(mediaType)
+      ? {
+          ...mediaType,
+          ...(mediaType.schema !== undefined && {
+            schema: convertSchema(mediaType.schema, state, [
+              ...subpath,
+              key,
+              'schema',
+            ]),
+          }),
+          ...(isObject(mediaType.encoding) && {
+            encoding: mapValues(mediaType.encoding, (encoding, property) =>
+              isObject(encoding)
+                ? {
+                    ...encoding,
+                    ...(encoding.headers !== undefined && {
+                      headers: convertHeaders(encoding.headers, state, [
+                        ...subpath,
+                        key,
+                        'encoding',
+                        property,
+                      ]),
+                    }),
+                  }
+                : encoding,
+            ),
+          }),
+        }
+      : mediaType,
+  );
+
+const convertParameter = (
+  parameter: unknown,
+  state: ConvertState,
+  subpath: string[],
+): unknown => {
+  if (!isObject(parameter) || '$ref' in parameter) {
+    return parameter;
+  }
+  return {
+    ...parameter,
+    ...(parameter.schema !== undefined && {
+      schema: convertSchema(parameter.schema, state, [...subpath, 'schema']),
+    }),
+    ...(parameter.content !== undefined && {
+      content: convertContent(parameter.content, state, [
+        ...subpath,
+        'content',
+      ]),
+    }),
+  };
+};
+
+const convertHeaders = (
+  headers: unknown,
+  state: ConvertState,
+  subpath: string[],
+): unknown =>
+  mapValues(headers, (header, key) =>
+    convertParameter(header, state, [...subpath, key]),
+  );
+
+const convertRequestBody = (
+  requestBody: unknown,
+  state: ConvertState,
+  subpath: string[],
+): unknown => {
+  if (!isObject(requestBody) || '$ref' in requestBody) {
+    return requestBody;
+  }
+  return {
+    ...requestBody,
+    content: convertContent(requestBody.content, state, [
+      ...subpath,
+      'content',
+    ]),
+  };
+};
+
+const convertResponse = (
+  response: unknown,
+  state: ConvertState,
+  subpath: string[],
+): unknown => {
+  if (!isObject(response) || '$ref' in response) {
+    return response;
+  }
+  return {
+    ...response,
+    ...(response.headers !== undefined && {
+      headers: convertHeaders(response.headers, state, [...subpath, 'headers']),
+    }),
+    ...(response.content !== undefined && {
+      content: convertContent(response.content, state, [...subpath, 'content']),
+    }),
+  };
+};
+
+const convertCallback = (
+  callback: unknown,
+  state: ConvertState,
+  subpath: string[],
+): unknown => {
+  if (!isObject(callback) || '$ref' in callback) {
+    return callback;
+  }
+  return mapValues(callback, (pathItem, expression) =>
+    convertPathItem(pathItem, state, [...subpath, expression]),
+  );
+};
+
+const convertParameters = (
+  parameters: unknown,
+  state: ConvertState,
+  subpath: string[],
+): unknown =>
+  Array.isArray(parameters)
+    ? parameters.map((parameter, index) =>
+        convertParameter(parameter, state, [
+          ...subpath,
+          'parameters',
+          `param index ${index}`,
+        ]),
+      )
+    : parameters;
+
+const convertOperation = (
+  operation: unknown,
+  state: ConvertState,
+  subpath: string[],
+): unknown => {
+  if (!isObject(operation)) {
+    return operation;
+  }
+  return {
+    ...operation,
+    ...(operation.parameters !== undefined && {
+      parameters: convertParameters(operation.parameters, state, subpath),
+    }),
+    ...(operation.requestBody !== undefined && {
+      requestBody: convertRequestBody(operation.requestBody, state, [
+        ...subpath,
+        'requestBody',
+      ]),
+    }),
+    ...(operation.responses !== undefined && {
+      responses: mapValues(operation.responses, (response, statusCode) =>
+        convertResponse(response, state, [...subpath, 'responses', statusCode]),
+      ),
+    }),
+    ...(operation.callbacks !== undefined && {
+      callbacks: mapValues(operation.callbacks, (callback, name) =>
+        convertCallback(callback, state, [...subpath, 'callbacks', name]),
+      ),
+    }),
+  };
+};
+
+const convertPathItem = (
+  pathItem: unknown,
+  state: ConvertState,
+  subpath: string[],
+  seen: string[] = [],
+): unknown => {
+  if (!isObject(pathItem)) {
+    return pathItem;
+  }
+
+  if (
+    !state.upgrade &&
+    typeof pathItem.$ref === 'string' &&
+    pathItem.$ref.startsWith(COMPONENT_PATH_ITEM_PREFIX)
+  ) {
+    return inlinePathItem(pathItem, state, subpath, seen);
+  }
+
+  const result: JsonObject = {
+    ...pathItem,
+    ...(pathItem.parameters !== undefined && {
+      parameters: convertParameters(pathItem.parameters, state, subpath),
+    }),
+  };
+  HTTP_METHODS.forEach((method) => {
+    if (pathItem[method] !== undefined) {
+      result[method] = convertOperation(pathItem[method], state, [
+        ...subpath,
+        method,
+      ]);
+    }
+  });
+  return result;
+};
+
+/**
+ * Replaces a reference to a path item component with a copy of the component as OpenAPI 3.0 has no path item
+ * components. Sibling keywords of the `$ref` take precedence.
+ */
+const inlinePathItem = (
+  pathItem: JsonObject,
+  state: ConvertState,
+  subpath: string[],
+  seen: string[],
+): unknown => {
+  const { $ref, ...siblings } = pathItem as JsonObject & { $ref: string };
+  const component =
+    state.pathItems?.[$ref.slice(COMPONENT_PATH_ITEM_PREFIX.length)];
+
+  if (!isObject(component) || seen.includes($ref)) {
+    reportDiagnostic(state.diagnostics, {
+      severity: 'error',
+      code: 'unsupported-conversion',
+      message: `Path item ${$ref} could not be inlined at ${subpath.join(' > ')}`,
+      subpath,
+    });
+    return pathItem;
+  }
+
+  return convertPathItem({ ...component, ...siblings }, state, subpath, [
+    ...seen,
+    $ref,
+  ]);
+};
+
+const convertComponents = (
+  components: JsonObject,
+  state: ConvertState,
+): JsonObject => {
+  const { pathItems, ...rest } = components;
+  const subpath = ['components'];
+
+  if (pathItems !== undefined && !state.upgrade) {
+    reportUnsupported(
+      state,
+      'Path item components cannot be represented in OpenAPI 3.0 and were inlined where they are referenced',
+      [...subpath, 'pathItems'],
+    );
+  }
+
+  return {
+    ...rest,
+    ...(pathItems !== undefined &&
+      state.upgrade && {
+        pathItems: mapValues(pathItems, (pathItem, key) =>
+          convertPathItem(pathItem, state, [...subpath, 'pathItems', key]),
+        ),
+      }),
+    ...(rest.schemas !== undefined && {
+      schemas: mapValues(rest.schemas, (schema, key) =>
+        convertSchema(schema, state, [...subpath, 'schemas', key]),
+      ),
+    }),
+    ...(rest.parameters !== undefined && {
+      parameters: mapValues(rest.parameters, (parameter, key) =>
+        convertParameter(parameter, state, [...subpath, 'parameters', key]),
+      ),
+    }),
+    ...(rest.headers !== undefined && {
+      headers: convertHeaders(rest.headers, state, [...subpath, 'headers']),
+    }),
+    ...(rest.requestBodies !== undefined && {
+      requestBodies: mapValues(rest.requestBodies, (requestBody, key) =>
+        convertRequestBody(requestBody, state, [
+          ...subpath,
+          'requestBodies',
+          key,
+        ]),
+      ),
+    }),
+    ...(rest.responses !== undefined && {
+      responses: mapValues(rest.responses, (response, key) =>
+        convertResponse(response, state, [...subpath, 'responses', key]),
+      ),
+    }),
+    ...(rest.callbacks !== undefined && {
+      callbacks: mapValues(rest.callbacks, (callback, key) =>
+        convertCallback(callback, state, [...subpath, 'callbacks', key]),
+      ),
+    }),
+  };
+};
+
+const downgradeInfo = (info: unknown, state: ConvertState): unknown => {
+  if (!isObject(info)) {
+    return info;
+  }
+  const { summary, license, ...rest } = info;
+  if (summary !== undefined) {
+    reportUnsupported(
+      state,
+      '"summary" cannot be represented in OpenAPI 3.0 and was removed',
+      ['info'],
+    );
+  }
+  if (!isObject(license)) {
+    return { ...rest, ...(license !== undefined && { license }) };
+  }
+  const { identifier, ...licenseRest } = license;
+  if (identifier !== undefined) {
+    reportUnsupported(
+      state,
+      '"identifier" cannot be represented in OpenAPI 3.0 and was removed',
+      ['info', 'license'],
+    );
+  }
+  return { ...rest, license: licenseRest };
+};
+
+/**
+ * Converts an OpenAPI 3.1 document to OpenAPI 3.0 or an OpenAPI 3.0 document to OpenAPI 3.1. Anything which cannot be
+ * represented in the target version is removed and returned as a diagnostic.
+ */
+export const convertDocument = <Version extends OpenApiVersion>(
+  document: oas31.OpenAPIObject | oas30.OpenAPIObject,
+  targetVersion: Version,
+): ConvertedDocument<Version> => {
+  const diagnostics: Diagnostic[] = [];
+  const isSource31 = document.openapi.startsWith('3.1');
+  const isTarget31 = satisfiesVersion(targetVersion, '3.1.0');
+
+  if (isSource31 === isTarget31) {
+    return {
+      document: {
+        ...document,
+        openapi: targetVersion,
+      } as ConvertedDocument<Version>['document'],
+      diagnostics,
+    };
+  }
+
+  const state: ConvertState = {
+    upgrade: isTarget31,
+    diagnostics,
+    ...(isObject(document.components) &&
+      'pathItems' in document.components &&
+      isObject(document.components.pathItems) && {
+        pathItems: document.components.pathItems,
+      }),
+  };
+  const { paths, webhooks, jsonSchemaDialect, components, info, ...rest } =
+    document as unknown as JsonObject;
+
+  if (!state.upgrade) {
+    if (webhooks !== undefined) {
+      reportUnsupported(
+        state,
+        'Webhooks cannot be represented in OpenAPI 3.0 and were removed',
+        ['webhooks'],
+      );
+    }
+    if (jsonSchemaDialect !== undefined) {
+      reportUnsupported(
+        state,
+        '"jsonSchemaDialect" cannot be represented in OpenAPI 3.0 and was removed',
+        ['jsonSchemaDialect'],
+      );
+    }
+  }
+
+  const converted: JsonObject = {
+    ...rest,
+    openapi: targetVersion,
+    info: state.upgrade ? info : downgradeInfo(info, state),
+    paths: mapValues(paths ?? {}, (pathItem, path) =>
+      convertPathItem(pathItem, state, [path]),
+    ),
+    ...(isObject(components) && {
+      components: convertComponents(components, state),
+    }),
+  };
+
+  return {
+    document: converted as unknown as ConvertedDocument<Version>['document'],
+    diagnostics,
+  };
+};
@@ -0,0 +1,224 @@
+import { z } from 'zod';
+
+import '../entries/extend';
+import { type ZodOpenApiObject, createDocument } from './document';
+
+const createUserDocument = (
+  user: z.ZodType,
+  paths: string[] = ['/users', '/admins'],
+): ZodOpenApiObject => ({
+  info: {
+    title: 'My API',
+    version: '1.0.0',
+  },
+  openapi: '3.1.0',
+  paths: Object.fromEntries(
+    paths.map((path) => [
+      path,
+      {
+        get: {
+          responses: {
+            '200': {
+              description: '200 OK',
+              content: {
+                'application/json': { schema: user },
+              },
+            },
+          },
+        },
+      },
+    ]),
+  ),
+});
+
+describe('autoRef', () => {
+  it('registers schemas which are used repeatedly', () => {
+    const User = z
+      .object({
+        id: z.string(),
+        name: z.string(),
+      })
+      .describe('A user');
+
+    const document = createDocument(createUserDocument(User), {
+      autoRef: true,
+    });
+
+    expect(document.paths?.['/users']?.get?.responses?.['200']).toEqual({
+      description: '200 OK',
+      content: {
+        'application/json': {
+          schema: { $ref: '#/components/schemas/AUser' },
+        },
+      },
+    });
+    expect(document.components?.schemas).toEqual({
+      AUser: {
+        type: 'object',
+        description: 'A user',
+        properties: {
+          id: { type: 'string' },
+          name: { type: 'string' },
+        },
+        required: ['id', 'name'],
+      },
+    });
+  });
+
+  it('does not register schemas which are used fewer than minUsages times', () => {
+    const User = z.object({ id: z.string() });
+
+    const document = createDocument(createUserDocument(User), {
+      autoRef: { minUsages: 3 },
+    });
+
+    expect(document.components).toBeUndefined();
+  });
+
+  it('does not register schemas which are smaller than minSize', () => {
+    const Id = z.string();
+    const User = z.object({ id: Id, managerId: Id });
+
+    const document = createDocument(createUserDocument(User), {
+      autoRef: { minSize: 20 },
+    });
+
+    expect(document.components?.schemas).toEqual({
+      Schema1: {
+        type: 'object',
+        properties: {
+          id: { type: 'string' },
+          managerId: { type: 'string' },
+        },
+        required: ['id', 'managerId'],
+      },
+    });
+  });
+
+  it('uses the name callback and avoids existing component names', () => {
+    const User = z.object({ id: z.string() });
+
+    const document = createDocument(
+      {
+        ...createUserDocument(User),
+        components: {
+          schemas: {
+            User: { type: 'string' },
+          },
+        },
+      },
+      {
+        autoRef: {
+          name: (zodType) =>
+            zodType instanceof z.ZodObject ? 'User' : undefined,
+        },
+      },
+    );
+
+    expect(document.paths?.['/users']?.get?.responses?.['200']).toEqual({
+      description: '200 OK',
+      content: {
+        'application/json': {
+          schema: { $ref: '#/components/schemas/User2' },
+        },
+      },
+    });
+    expect(document.components?.schemas).toEqual({
+      User: { type: 'string' },
+      User2: {
+        type: 'object',
+        properties: {
+          id: { type: 'string' },
+        },
+        required: ['id'],
+      },
+    });
+  });
+
+  it('does not register the children of a registered schema', () => {
+    const Address = z.object({ street: z.string() });
+    const User = z.object({ home: Address, work: Address.optional() });
+
+    const document = createDocument(createUserDocument(User), {
+      autoRef: true,
+    });
+
+    expect(document.components?.schemas).toEqual({
+      Schema1: {
+        type: 'object',
+        properties: {
+          home: { $ref: '#/components/schemas/Schema2' },
+          work: { $ref: '#/components/schemas/Schema2' },
+        },
+        required: ['home'],
+      },
+      Schema2: {
+        type: 'object',
+        properties: {
+          street: { type: 'string' },
+        },
+        required: ['street'],
+      },
+    });
+  });
+
+  it('does not register schemas which are already registered', () => {
+    const User = z.object({ id: z.string() }).openapi({ ref: 'User' });
+
+    const document = createDocument(createUserDocument(User), {
+      autoRef: true,
+    });
+
+    expect(document.components?.schemas).toEqual({
+      User: {
+        type: 'object',
+        properties: {
+          id: { type: 'string' },
+        },
+        required: ['id'],
+      },
+    });
+  });
+
+  it('does not register schemas with effects unless componentVariants is auto', () => {
+    const Count = z
+      .string()
+      .transform((value) => Number(value))
+      .pipe(z.number());
+    const Counter = z.object({ count: Count });
+    const document: ZodOpenApiObject = {
+      ...createUserDocument(Counter, []),
+      paths: {
+        '/counters': {
+          post: {
+            requestBody: {
+              content: {
+                'application/json': { schema: Counter },
+              },
+            },
+            responses: {
+              '200': {
+                description: '200 OK',
+                content: {
+                  'application/json': { schema: Counter },
+                },
+              },
+            },
+          },
+        },
+      },
+    };
+
+    expect(
+      createDocument(document, { autoRef: { minSize: 30 } }).components,
+    ).toBeUndefined();
+    expect(
+      Object.keys(
+        createDocument(document, {
+          autoRef: { minSize: 30 },
+          componentVariants: 'auto',
+        }).components?.schemas ?? {},
+      ),
+    ).toEqual(['Schema1Input', 'Schema1Output']);
+  });
+});
@@ -0,0 +1,182 @@
+import type { ZodType } from 'zod';
+
+import {
+  type ComponentsObject,
+  type SchemaUsageMap,
+  createWithComponentVariants,
+} from './components';
+import type { AutoRefOptions, CreateDocumentOptions } from './document';
+import type { Schema, SchemaState } from './schema';
+
+export const trackSchemaUsage = (zodType: ZodType, state: SchemaState) => {
+  const usages = state.components.schemaUsages;
+  if (!usages) {
+    return;
+  }
+
+  const usage = usages.get(zodType);
+  if (usage) {
+    usage.count++;
+    return;
+  }
+  usages.set(zodType, { count: 1, size: 0, effects: false });
+};
+
+export const trackSchemaRender = (
+  zodType: ZodType,
+  schema: Schema,
+  state: SchemaState,
+) => {
+  const usage = state.components.schemaUsages?.get(zodType);
+  if (!usage || schema.type !== 'schema') {
+    return;
+  }
+
+  usage.size = Math.max(usage.size, JSON.stringify(schema.schema).length);
+  usage.effects = usage.effects || Boolean(schema.effects);
+};
+
+export const toPascalCase = (description: string): string =>
+  description
+    .split(/[^a-zA-Z0-9]+/)
+    .map((word) => `${word.charAt(0).toUpperCase()}${word.slice(1)}`)
+    .join('');
+
+const defaultName: NonNullable<AutoRefOptions['name']> = (zodType) =>
+  zodType.description ? toPascalCase(zodType.description) : undefined;
+
+export const createUniqueRef = (
+  name: string | undefined,
+  usedRefs: Set<string>,
+): string => {
+  if (name && !usedRefs.has(name)) {
+    return name;
+  }
+
+  const prefix = name ?? 'Schema';
+  let index = name ? 2 : 1;
+  while (usedRefs.has(`${prefix}${index}`)) {
+    index++;
+  }
+  return `${prefix}${index}`;
+};
+
+const getSchemaComponentMaps = (components: ComponentsObject) =>
+  [
+    components.schemas,
+    components.schemaVariants?.input,
+    components.schemaVariants?.output,
+  ].filter((schemas) => schemas !== undefined);
+
+export const getUsedRefs = (components: ComponentsObject): Set<string> =>
+  new Set(
+    getSchemaComponentMaps(components).flatMap((schemas) =>
+      Array.from(schemas.values(), ({ ref }) => ref),
+    ),
+  );
+
+const getRegisteredSchemas = (components: ComponentsObject): ZodType[] =>
+  getSchemaComponentMaps(components).flatMap((schemas) =>
+    Array.from(schemas.keys()),
+  );
+
+/**
+ * Registers an in-progress component for a schema which was found to reference itself. The component is completed once
+ * the schema finishes rendering.
+ */
+export const registerCircularRef = (zodType: ZodType, state: SchemaState) => {
+  const existingComponent = getSchemaComponentMaps(state.components)
+    .map((schemas) => schemas.get(zodType))
+    .find((component) => component !== undefined);
+  const name = state.documentOptions?.circularRefName ?? defaultName;
+
+  state.components.schemas.set(zodType, {
+    type: 'in-progress',
+    ref:
+      existingComponent?.ref ??
+      createUniqueRef(name(zodType), getUsedRefs(state.components)),
+  });
+};
+
+/**
+ * When `autoRef` is enabled, the document is rendered repeatedly. Each render registers the schemas which were used
+ * often enough in the previous render and deregisters any which are no longer used often enough, eg. the children of a
+ * newly registered schema. A deregistered schema is never registered again so this always settles.
+ */
+export const createWithAutoRef = <T>(
+  getComponents: () => ComponentsObject,
+  create: (components: ComponentsObject) => T,
+  reservedRefs: string[],
+  documentOptions?: CreateDocumentOptions,
+): T => {
+  if (!documentOptions?.autoRef) {
+    return createWithComponentVariants(getComponents, create, documentOptions);
+  }
+
+  const {
+    minUsages = 2,
+    minSize = 0,
+    name = defaultName,
+  } = documentOptions.autoRef === true ? {} : documentOptions.autoRef;
+  const hoisted = new Map<ZodType, string>();
+  const rejected = new Set<ZodType>();
+
+  for (;;) {
+    let components: ComponentsObject | undefined;
+    let usages: SchemaUsageMap = new Map();
+
+    const result = createWithComponentVariants(
+      () => {
+        components = getComponents();
+        hoisted.forEach((ref, zodType) =>
+          components?.schemas.set(zodType, { type: 'manual', ref }),
+        );
+        usages = new Map();
+        components.schemaUsages = usages;
+        return components;
+      },
+      create,
+      documentOptions,
+    );
+
+    const usedRefs = new Set([
+      ...reservedRefs,
+      ...(components ? getUsedRefs(components) : []),
+    ]);
+    const registeredSchemas = new Set(
+      components ? getRegisteredSchemas(components) : [],
+    );
+    let changed = false;
+
+    for (const zodType of hoisted.keys()) {
+      if ((usages.get(zodType)?.count ?? 0) < minUsages) {
+        hoisted.delete(zodType);
+        rejected.add(zodType);
+        changed = true;
+      }
+    }
+
+    for (const [zodType, usage] of usages) {
+      if (
+        hoisted.has(zodType) ||
+        rejected.has(zodType) ||
+        registeredSchemas.has(zodType) ||
+        zodType._def.openapi?.ref ||
+        usage.count < minUsages ||
+        usage.size < minSize ||
+        (usage.effects && documentOptions.componentVariants !== 'auto')
+      ) {
+        continue;
+      }
+
+      const ref = createUniqueRef(name(zodType), usedRefs);
+      usedRefs.add(ref);
+      hoisted.set(zodType, ref);
+      changed = true;
+    }
+
+    if (!changed) {
+      return result;
+    }
+  }
+};
@@ -37,6 +37,8 @@ describe('getDefaultComponents', () => {
       schemas: expect.any(Map),
       headers: expect.any(Map),
       requestBodies: expect.any(Map),
+      examples: expect.any(Map),
+      links: expect.any(Map),
       openapi: '3.1.0',
     };
     expect(result).toStrictEqual(expected);
@@ -116,6 +118,8 @@ describe('getDefaultComponents', () => {
       parameters: expect.any(Map),
       schemas: expect.any(Map),
       headers: expect.any(Map),
+      examples: expect.any(Map),
+      links: expect.any(Map),
       openapi: '3.1.0',
     };
     const expectedParameter: ParameterComponent = {
@@ -164,6 +168,8 @@ describe('getDefaultComponents', () => {
       headers: expect.any(Map),
       parameters: expect.any(Map),
       schemas: expect.any(Map),
+      examples: expect.any(Map),
+      links: expect.any(Map),
       openapi: '3.1.0',
     };
 
@@ -201,6 +207,8 @@ describe('createComponents', () => {
         schemas: new Map(),
         headers: new Map(),
         responses: new Map(),
+        examples: new Map(),
+        links: new Map(),
         openapi: '3.1.0',
       },
     );
@@ -448,6 +456,8 @@ describe('createComponents', () => {
         headers: headerMap,
         responses: responseMap,
         requestBodies: requestBodyMap,
+        examples: new Map(),
+        links: new Map(),
         openapi: '3.1.0',
       },
     );
@@ -531,6 +541,8 @@ describe('createComponents', () => {
         headers: headerMap,
         responses: new Map(),
         requestBodies: new Map(),
+        examples: new Map(),
+        links: new Map(),
         openapi: '3.1.0',
       },
     );
@@ -601,6 +613,8 @@ describe('createComponents', () => {
         headers: headerMap,
         responses: new Map(),
         requestBodies: new Map(),
+        examples: new Map(),
+        links: new Map(),
         openapi: '3.1.0',
       },
     );
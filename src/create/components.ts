@@ -4,18 +4,28 @@ import type { oas30, oas31 } from '../openapi3-ts/dist';
 import { isAnyZodType } from '../zodType';
 
 import { createCallback } from './callbacks';
+import {
+  type Diagnostic,
+  reportDuplicate,
+  reportInvalidParameter,
+} from './diagnostics';
 import type {
   CreateDocumentOptions,
   ZodOpenApiCallbackObject,
   ZodOpenApiComponentsObject,
+  ZodOpenApiExampleObject,
+  ZodOpenApiLinkObject,
   ZodOpenApiRequestBodyObject,
   ZodOpenApiResponseObject,
   ZodOpenApiVersion,
 } from './document';
+import { createExampleOrRef } from './examples';
+import { createLinkOrRef } from './links';
 import { createParamOrRef } from './parameters';
 import { createRequestBody } from './paths';
 import { createHeaderOrRef, createResponse } from './responses';
 import { type SchemaState, createSchema } from './schema';
+import { createSecuritySchemes } from './security';
 
 export type CreationType = 'input' | 'output';
 
@@ -202,19 +212,86 @@ export type CallbackComponentMap = Map<
   CallbackComponent
 >;
 
+export interface BaseExampleComponent {
+  ref: string;
+}
+
+export interface CompleteExampleComponent extends BaseExampleComponent {
+  type: 'complete';
+  exampleObject: oas31.ExampleObject | oas30.ExampleObject;
+}
+
+export interface PartialExampleComponent extends BaseExampleComponent {
+  type: 'manual';
+}
+
+export type ExampleComponent =
+  | CompleteExampleComponent
+  | PartialExampleComponent;
+
+export type ExampleComponentMap = Map<
+  ZodOpenApiExampleObject,
+  ExampleComponent
+>;
+
+export interface BaseLinkComponent {
+  ref: string;
+}
+
+export interface CompleteLinkComponent extends BaseLinkComponent {
+  type: 'complete';
+  linkObject: oas31.LinkObject | oas30.LinkObject;
+}
+
+export interface PartialLinkComponent extends BaseLinkComponent {
+  type: 'manual';
+}
+
+export type LinkComponent = CompleteLinkComponent | PartialLinkComponent;
+
+export type LinkComponentMap = Map<ZodOpenApiLinkObject, LinkComponent>;
+
+export interface SchemaVariants {
+  input: SchemaComponentMap;
+  output: SchemaComponentMap;
+  /** Components which render differently as a request and a response schema */
+  split: Set<ZodType>;
+}
+
+export interface SchemaUsage {
+  count: number;
+  /** Length of the largest inline rendering of the schema */
+  size: number;
+  /** Set when an inline rendering of the schema contained an effect */
+  effects: boolean;
+}
+
+export type SchemaUsageMap = Map<ZodType, SchemaUsage>;
+
 export interface ComponentsObject {
   schemas: SchemaComponentMap;
+  /** Set when `autoRef` is enabled. Tracks how often each schema is used */
+  schemaUsages?: SchemaUsageMap;
+  /** Set when `componentVariants` is `auto`. Schema components are tracked separately for each creation type */
+  schemaVariants?: SchemaVariants;
   parameters: ParameterComponentMap;
   headers: HeaderComponentMap;
   requestBodies: RequestBodyComponentMap;
   responses: ResponseComponentMap;
   callbacks: CallbackComponentMap;
+  examples: ExampleComponentMap;
+  links: LinkComponentMap;
+  /** Set when `validateExamples` is enabled. The severity of the diagnostics for examples which do not match their Zod schema */
+  exampleSeverity?: Diagnostic['severity'];
+  /** Set when creating a document. Collects the errors and warnings which can be recovered from */
+  diagnostics?: Diagnostic[];
   openapi: ZodOpenApiVersion;
 }
 
 export const getDefaultComponents = (
   componentsObject?: ZodOpenApiComponentsObject,
   openapi: ZodOpenApiVersion = '3.1.0',
+  diagnostics?: Diagnostic[],
 ): ComponentsObject => {
   const defaultComponents: ComponentsObject = {
     schemas: new Map(),
@@ -223,7 +300,10 @@ export const getDefaultComponents = (
     requestBodies: new Map(),
     responses: new Map(),
     callbacks: new Map(),
+    examples: new Map(),
+    links: new Map(),
     openapi,
+    ...(diagnostics && { diagnostics }),
   };
   if (!componentsObject) {
     return defaultComponents;
@@ -235,6 +315,8 @@ export const getDefaultComponents = (
   getHeaders(componentsObject.headers, defaultComponents);
   getResponses(componentsObject.responses, defaultComponents);
   getCallbacks(componentsObject.callbacks, defaultComponents);
+  getExamples(componentsObject.examples, defaultComponents);
+  getLinks(componentsObject.links, defaultComponents);
 
   return defaultComponents;
 };
@@ -250,9 +332,13 @@ const getSchemas = (
   Object.entries(schemas).forEach(([key, schema]) => {
     if (isAnyZodType(schema)) {
       if (components.schemas.has(schema)) {
-        throw new Error(
+        reportDuplicate(
+          components,
           `Schema ${JSON.stringify(schema._def)} is already registered`,
+          ['components', 'schemas', key],
+          schema,
         );
+        return;
       }
       const ref = schema._def.openapi?.ref ?? key;
       components.schemas.set(schema, {
@@ -274,16 +360,26 @@ const getParameters = (
   Object.entries(parameters).forEach(([key, schema]) => {
     if (isAnyZodType(schema)) {
       if (components.parameters.has(schema)) {
-        throw new Error(
+        reportDuplicate(
+          components,
           `Parameter ${JSON.stringify(schema._def)} is already registered`,
+          ['components', 'parameters', key],
+          schema,
         );
+        return;
       }
       const ref = schema._def.openapi?.param?.ref ?? key;
       const name = schema._def.openapi?.param?.name;
       const location = schema._def.openapi?.param?.in;
 
       if (!name || !location) {
-        throw new Error('`name` or `in` missing in .openapi()');
+        reportInvalidParameter(
+          components,
+          '`name` or `in` missing in .openapi()',
+          ['components', 'parameters', key],
+          schema,
+        );
+        return;
       }
       components.parameters.set(schema, {
         type: 'manual',
@@ -306,9 +402,13 @@ const getHeaders = (
   Object.entries(responseHeaders).forEach(([key, schema]) => {
     if (isAnyZodType(schema)) {
       if (components.parameters.has(schema)) {
-        throw new Error(
+        reportDuplicate(
+          components,
           `Header ${JSON.stringify(schema._def)} is already registered`,
+          ['components', 'headers', key],
+          schema,
         );
+        return;
       }
       const ref = schema._def.openapi?.param?.ref ?? key;
       components.headers.set(schema, {
@@ -329,9 +429,12 @@ const getResponses = (
 
   Object.entries(responses).forEach(([key, responseObject]) => {
     if (components.responses.has(responseObject)) {
-      throw new Error(
+      reportDuplicate(
+        components,
         `Header ${JSON.stringify(responseObject)} is already registered`,
+        ['components', 'responses', key],
       );
+      return;
     }
     const ref = responseObject?.ref ?? key;
     components.responses.set(responseObject, {
@@ -351,9 +454,12 @@ const getRequestBodies = (
 
   Object.entries(requestBodies).forEach(([key, requestBody]) => {
     if (components.requestBodies.has(requestBody)) {
-      throw new Error(
+      reportDuplicate(
+        components,
         `Header ${JSON.stringify(requestBody)} is already registered`,
+        ['components', 'requestBodies', key],
       );
+      return;
     }
     const ref = requestBody?.ref ?? key;
     components.requestBodies.set(requestBody, {
@@ -373,9 +479,12 @@ const getCallbacks = (
 
   Object.entries(callbacks).forEach(([key, callback]) => {
     if (components.callbacks.has(callback)) {
-      throw new Error(
+      reportDuplicate(
+        components,
         `Callback ${JSON.stringify(callback)} is already registered`,
+        ['components', 'callbacks', key],
       );
+      return;
     }
     const ref = callback?.ref ?? key;
     components.callbacks.set(callback, {
@@ -385,11 +494,130 @@ const getCallbacks = (
   });
 };
 
+const getExamples = (
+  examples: ZodOpenApiComponentsObject['examples'],
+  components: ComponentsObject,
+): void => {
+  if (!examples) {
+    return;
+  }
+
+  Object.entries(examples).forEach(([key, example]) => {
+    if (components.examples.has(example)) {
+      reportDuplicate(
+        components,
+        `Example ${JSON.stringify(example)} is already registered`,
+        ['components', 'examples', key],
+      );
+      return;
+    }
+    const ref = example?.ref ?? key;
+    components.examples.set(example, {
+      type: 'manual',
+      ref,
+    });
+  });
+};
+
+const getLinks = (
+  links: ZodOpenApiComponentsObject['links'],
+  components: ComponentsObject,
+): void => {
+  if (!links) {
+    return;
+  }
+
+  Object.entries(links).forEach(([key, link]) => {
+    if (components.links.has(link)) {
+      reportDuplicate(
+        components,
+        `Link ${JSON.stringify(link)} is already registered`,
+        ['components', 'links', key],
+      );
+      return;
+    }
+    const ref = link?.ref ?? key;
+    components.links.set(link, {
+      type: 'manual',
+      ref,
+    });
+  });
+};
+
 export const createComponentSchemaRef = (
   schemaRef: string,
   componentPath?: string,
 ) => `${componentPath ?? '#/components/schemas/'}${schemaRef}`;
 
+const defaultVariantSuffix = (creationType: CreationType) =>
+  creationType === 'input' ? 'Input' : 'Output';
+
+export const createSchemaVariantRef = (
+  ref: string,
+  creationType: CreationType,
+  documentOptions?: CreateDocumentOptions,
+) =>
+  `${ref}${(documentOptions?.componentVariantSuffix ?? defaultVariantSuffix)(creationType)}`;
+
+export const createComponentSchemaVariantRef = (
+  ref: string,
+  zodType: ZodType,
+  state: SchemaState,
+) =>
+  createComponentSchemaRef(
+    state.components.schemaVariants?.split.has(zodType)
+      ? createSchemaVariantRef(ref, state.type, state.documentOptions)
+      : ref,
+    state.documentOptions?.componentRefPath,
+  );
+
+const getSplitSchemaComponents = (variants: SchemaVariants): Set<ZodType> =>
+  Array.from(variants.input).reduce((acc, [zodType, inputComponent]) => {
+    const outputComponent = variants.output.get(zodType);
+    if (
+      inputComponent.type === 'complete' &&
+      outputComponent?.type === 'complete' &&
+      JSON.stringify(inputComponent.schemaObject) !==
+        JSON.stringify(outputComponent.schemaObject)
+    ) {
+      acc.add(zodType);
+    }
+    return acc;
+  }, new Set(variants.split));
+
+/**
+ * When `componentVariants` is `auto`, the document is rendered repeatedly until every component which differs between
+ * request and response schemas is known. Each render uses the previous result to point `$ref`s at the correct variant.
+ */
+export const createWithComponentVariants = <T>(
+  getComponents: () => ComponentsObject,
+  create: (components: ComponentsObject) => T,
+  documentOptions?: CreateDocumentOptions,
+): T => {
+  if (documentOptions?.componentVariants !== 'auto') {
+    return create(getComponents());
+  }
+
+  let split = new Set<ZodType>();
+  for (;;) {
+    const components = getComponents();
+    const schemaVariants: SchemaVariants = {
+      input: new Map(components.schemas),
+      output: new Map(components.schemas),
+      split,
+    };
+    components.schemaVariants = schemaVariants;
+
+    const result = create(components);
+
+    const nextSplit = getSplitSchemaComponents(schemaVariants);
+    if (nextSplit.size === split.size) {
+      return result;
+    }
+    split = nextSplit;
+  }
+};
+
 export const createComponentResponseRef = (responseRef: string) =>
   `#/components/responses/${responseRef}`;
 
@@ -431,9 +659,27 @@ export const createComponents = (
     components,
     documentOptions,
   );
-
-  const { schemas, parameters, headers, responses, requestBodies, ...rest } =
-    componentsObject;
+  const combinedExamples = createExampleComponents(
+    componentsObject,
+    components,
+  );
+  const combinedLinks = createLinkComponents(componentsObject, components);
+
+  const {
+    schemas,
+    parameters,
+    headers,
+    responses,
+    requestBodies,
+    examples,
+    links,
+    securitySchemes,
+    ...rest
+  } = componentsObject;
+  const combinedSecuritySchemes = createSecuritySchemes(
+    securitySchemes,
+    components.diagnostics,
+  );
 
   const finalComponents: oas31.ComponentsObject = {
     ...rest,
@@ -443,6 +689,11 @@ export const createComponents = (
     ...(combinedHeaders && { headers: combinedHeaders }),
     ...(combinedResponses && { responses: combinedResponses }),
     ...(combinedCallbacks && { callbacks: combinedCallbacks }),
+    ...(combinedExamples && { examples: combinedExamples }),
+    ...(combinedLinks && { links: combinedLinks }),
+    ...(combinedSecuritySchemes && {
+      securitySchemes: combinedSecuritySchemes,
+    }),
   };
   return Object.keys(finalComponents).length ? finalComponents : undefined;
 };
@@ -452,8 +703,15 @@ export const createSchemaComponents = (
   components: ComponentsObject,
   documentOptions?: CreateDocumentOptions,
 ): oas31.ComponentsObject['schemas'] => {
+  const { schemaVariants } = components;
+
   Array.from(components.schemas).forEach(([schema, { type }], index) => {
-    if (type === 'manual') {
+    if (
+      type === 'manual' &&
+      (!schemaVariants ||
+        (schemaVariants.input.get(schema)?.type === 'manual' &&
+          schemaVariants.output.get(schema)?.type === 'manual'))
+    ) {
       const state: SchemaState = {
         components,
         type: schema._def.openapi?.refType ?? 'output',
@@ -475,7 +733,12 @@ export const createSchemaComponents = (
       }
 
       if (acc[key]) {
-        throw new Error(`Schema "${key}" is already registered`);
+        reportDuplicate(components, `Schema "${key}" is already registered`, [
+          'components',
+          'schemas',
+          key,
+        ]);
+        return acc;
       }
 
       acc[key] = value as oas31.SchemaObject | oas31.ReferenceObject;
@@ -484,20 +747,85 @@ export const createSchemaComponents = (
     {},
   );
 
-  const finalComponents = Array.from(components.schemas).reduce<
-    NonNullable<oas31.ComponentsObject['schemas']>
-  >((acc, [_zodType, component]) => {
-    if (component.type === 'complete') {
-      if (acc[component.ref]) {
-        throw new Error(`Schema "${component.ref}" is already registered`);
+  const finalComponents = schemaVariants
+    ? createSchemaVariantComponents(
+        schemaVariants,
+        customComponents,
+        components,
+        documentOptions,
+      )
+    : Array.from(components.schemas).reduce<
+        NonNullable<oas31.ComponentsObject['schemas']>
+      >((acc, [_zodType, component]) => {
+        if (component.type === 'complete') {
+          if (acc[component.ref]) {
+            reportDuplicate(
+              components,
+              `Schema "${component.ref}" is already registered`,
+              ['components', 'schemas', component.ref],
+            );
+            return acc;
+          }
+          acc[component.ref] = component.schemaObject as oas31.SchemaObject;
+        }
+
+        return acc;
+      }, customComponents);
+
+  return Object.keys(finalComponents).length ? finalComponents : undefined;
+};
+
+const createSchemaVariantComponents = (
+  schemaVariants: SchemaVariants,
+  customComponents: NonNullable<oas31.ComponentsObject['schemas']>,
+  components: ComponentsObject,
+  documentOptions?: CreateDocumentOptions,
+): NonNullable<oas31.ComponentsObject['schemas']> => {
+  const zodTypes = new Set([
+    ...schemaVariants.input.keys(),
+    ...schemaVariants.output.keys(),
+  ]);
+
+  return Array.from(zodTypes).reduce((acc, zodType) => {
+    const addComponent = (ref: string, component: CompleteSchemaComponent) => {
+      if (acc[ref]) {
+        reportDuplicate(components, `Schema "${ref}" is already registered`, [
+          'components',
+          'schemas',
+          ref,
+        ]);
+        return;
       }
-      acc[component.ref] = component.schemaObject as oas31.SchemaObject;
+      acc[ref] = component.schemaObject as oas31.SchemaObject;
+    };
+
+    const inputComponent = schemaVariants.input.get(zodType);
+    const outputComponent = schemaVariants.output.get(zodType);
+
+    if (
+      schemaVariants.split.has(zodType) &&
+      inputComponent?.type === 'complete' &&
+      outputComponent?.type === 'complete'
+    ) {
+      addComponent(
+        createSchemaVariantRef(inputComponent.ref, 'input', documentOptions),
+        inputComponent,
+      );
+      addComponent(
+        createSchemaVariantRef(outputComponent.ref, 'output', documentOptions),
+        outputComponent,
+      );
+      return acc;
+    }
+
+    const component =
+      outputComponent?.type === 'complete' ? outputComponent : inputComponent;
+    if (component?.type === 'complete') {
+      addComponent(component.ref, component);
     }
 
     return acc;
   }, customComponents);
-
-  return Object.keys(finalComponents).length ? finalComponents : undefined;
 };
 
 const createParamComponents = (
@@ -524,7 +852,12 @@ const createParamComponents = (
     (acc, [key, value]) => {
       if (!isAnyZodType(value)) {
         if (acc[key]) {
-          throw new Error(`Parameter "${key}" is already registered`);
+          reportDuplicate(
+            components,
+            `Parameter "${key}" is already registered`,
+            ['components', 'parameters', key],
+          );
+          return acc;
         }
 
         acc[key] = value as oas31.ParameterObject;
@@ -539,7 +872,12 @@ const createParamComponents = (
   >((acc, [_zodType, component]) => {
     if (component.type === 'complete') {
       if (acc[component.ref]) {
-        throw new Error(`Parameter "${component.ref}" is already registered`);
+        reportDuplicate(
+          components,
+          `Parameter "${component.ref}" is already registered`,
+          ['components', 'parameters', component.ref],
+        );
+        return acc;
       }
       acc[component.ref] = component.paramObject as oas31.ParameterObject;
     }
@@ -567,7 +905,12 @@ const createHeaderComponents = (
   >((acc, [key, value]) => {
     if (!isAnyZodType(value)) {
       if (acc[key]) {
-        throw new Error(`Header Ref "${key}" is already registered`);
+        reportDuplicate(
+          components,
+          `Header Ref "${key}" is already registered`,
+          ['components', 'headers', key],
+        );
+        return acc;
       }
 
       acc[key] = value as oas31.HeaderObject;
@@ -580,7 +923,12 @@ const createHeaderComponents = (
   >((acc, [_zodType, component]) => {
     if (component.type === 'complete') {
       if (acc[component.ref]) {
-        throw new Error(`Header "${component.ref}" is already registered`);
+        reportDuplicate(
+          components,
+          `Header "${component.ref}" is already registered`,
+          ['components', 'headers', component.ref],
+        );
+        return acc;
       }
       acc[component.ref] = component.headerObject as oas31.HeaderObject;
     }
@@ -611,7 +959,12 @@ const createResponseComponents = (
   >((acc, [_zodType, component]) => {
     if (component.type === 'complete') {
       if (acc[component.ref]) {
-        throw new Error(`Response "${component.ref}" is already registered`);
+        reportDuplicate(
+          components,
+          `Response "${component.ref}" is already registered`,
+          ['components', 'responses', component.ref],
+        );
+        return acc;
       }
       acc[component.ref] = component.responseObject as oas31.ResponseObject;
     }
@@ -642,7 +995,12 @@ const createRequestBodiesComponents = (
   >((acc, [_zodType, component]) => {
     if (component.type === 'complete') {
       if (acc[component.ref]) {
-        throw new Error(`RequestBody "${component.ref}" is already registered`);
+        reportDuplicate(
+          components,
+          `RequestBody "${component.ref}" is already registered`,
+          ['components', 'requestBodies', component.ref],
+        );
+        return acc;
       }
       acc[component.ref] =
         component.requestBodyObject as oas31.RequestBodyObject;
@@ -674,7 +1032,12 @@ const createCallbackComponents = (
   >((acc, [_zodType, component]) => {
     if (component.type === 'complete') {
       if (acc[component.ref]) {
-        throw new Error(`Callback "${component.ref}" is already registered`);
+        reportDuplicate(
+          components,
+          `Callback "${component.ref}" is already registered`,
+          ['components', 'callbacks', component.ref],
+        );
+        return acc;
       }
       acc[component.ref] = component.callbackObject as oas31.CallbackObject;
     }
@@ -684,3 +1047,86 @@ const createCallbackComponents = (
 
   return Object.keys(finalComponents).length ? finalComponents : undefined;
 };
+
+const createExampleComponents = (
+  componentsObject: ZodOpenApiComponentsObject,
+  components: ComponentsObject,
+): oas31.ComponentsObject['examples'] => {
+  Array.from(components.examples).forEach(([exampleObject, component]) => {
+    if (component.type === 'manual') {
+      createExampleOrRef(exampleObject, components);
+    }
+  });
+
+  const customComponents = Object.entries(
+    componentsObject.examples ?? {},
+  ).reduce<NonNullable<oas31.ComponentsObject['examples']>>(
+    (acc, [key, value]) => {
+      if (!components.examples.has(value)) {
+        acc[key] = value;
+      }
+      return acc;
+    },
+    {},
+  );
+
+  const finalComponents = Array.from(components.examples).reduce<
+    NonNullable<oas31.ComponentsObject['examples']>
+  >((acc, [_exampleObject, component]) => {
+    if (component.type === 'complete') {
+      if (acc[component.ref]) {
+        reportDuplicate(
+          components,
+          `Example "${component.ref}" is already registered`,
+          ['components', 'examples', component.ref],
+        );
+        return acc;
+      }
+      acc[component.ref] = component.exampleObject as oas31.ExampleObject;
+    }
+
+    return acc;
+  }, customComponents);
+
+  return Object.keys(finalComponents).length ? finalComponents : undefined;
+};
+
+const createLinkComponents = (
+  componentsObject: ZodOpenApiComponentsObject,
+  components: ComponentsObject,
+): oas31.ComponentsObject['links'] => {
+  Array.from(components.links).forEach(([linkObject, component]) => {
+    if (component.type === 'manual') {
+      createLinkOrRef(linkObject, components);
+    }
+  });
+
+  const customComponents = Object.entries(componentsObject.links ?? {}).reduce<
+    NonNullable<oas31.ComponentsObject['links']>
+  >((acc, [key, value]) => {
+    if (!components.links.has(value)) {
+      acc[key] = value;
+    }
+    return acc;
+  }, {});
+
+  const finalComponents = Array.from(components.links).reduce<
+    NonNullable<oas31.ComponentsObject['links']>
+  >((acc, [_linkObject, component]) => {
+    if (component.type === 'complete') {
+      if (acc[component.ref]) {
+        reportDuplicate(
+          components,
+          `Link "${component.ref}" is already registered`,
+          ['components', 'links', component.ref],
+        );
+        return acc;
+      }
+      acc[component.ref] = component.linkObject as oas31.LinkObject;
+    }
+
+    return acc;
+  }, customComponents);
+
+  return Object.keys(finalComponents).length ? finalComponents : undefined;
+};
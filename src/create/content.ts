@@ -9,6 +9,8 @@ import type {
   ZodOpenApiContentObject,
   ZodOpenApiMediaTypeObject,
 } from './document';
+import { createExamples, validateExampleFields } from './examples';
+import { generateExample } from './generateExample';
 import { createSchema } from './schema';
 
 export const createMediaTypeSchema = (
@@ -43,6 +45,27 @@ export const createMediaTypeSchema = (
   );
 };
 
+const createAutoExample = (
+  mediaTypeObject: ZodOpenApiMediaTypeObject,
+  type: CreationType,
+  documentOptions?: CreateDocumentOptions,
+): unknown => {
+  const { autoExamples } = documentOptions ?? {};
+  if (
+    !autoExamples ||
+    !isAnyZodType(mediaTypeObject.schema) ||
+    mediaTypeObject.example !== undefined ||
+    mediaTypeObject.examples
+  ) {
+    return undefined;
+  }
+
+  return generateExample(mediaTypeObject.schema, {
+    ...(autoExamples !== true && autoExamples),
+    type,
+  });
+};
+
 const createMediaTypeObject = (
   mediaTypeObject: ZodOpenApiMediaTypeObject | undefined,
   components: ComponentsObject,
@@ -54,8 +77,19 @@ const createMediaTypeObject = (
     return undefined;
   }
 
+  if (isAnyZodType(mediaTypeObject.schema)) {
+    validateExampleFields(mediaTypeObject.schema, mediaTypeObject, components, [
+      ...subpath,
+    ]);
+  }
+
+  const examples = createExamples(mediaTypeObject.examples, components);
+  const autoExample = createAutoExample(mediaTypeObject, type, documentOptions);
+
   return {
     ...mediaTypeObject,
+    ...(autoExample !== undefined && { example: autoExample }),
+    ...(examples && { examples }),
     schema: createMediaTypeSchema(
       mediaTypeObject.schema,
       components,
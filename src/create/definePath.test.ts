@@ -0,0 +1,150 @@
+import '../entries/extend';
+import { z } from 'zod';
+
+import { type PathParamNames, definePath } from './definePath';
+import type { Diagnostic } from './diagnostics';
+import { createDocument, createDocumentWithDiagnostics } from './document';
+
+const responses = { '200': { description: '200 OK' } };
+
+describe('definePath', () => {
+  it('returns a paths object for the path', () => {
+    const pathItem = {
+      requestParams: { path: z.object({ orgId: z.string() }) },
+      get: {
+        requestParams: { path: z.object({ userId: z.string() }) },
+        responses,
+      },
+    };
+
+    expect(definePath('/orgs/{orgId}/users/:userId', pathItem)).toEqual({
+      '/orgs/{orgId}/users/:userId': pathItem,
+    });
+  });
+
+  it('infers path parameter names from the path', () => {
+    const names: Array<PathParamNames<'/orgs/{orgId}/files/:from-:to/*'>> = [
+      'orgId',
+      'from',
+      'to',
+      'wildcard',
+    ];
+
+    expect(names).toHaveLength(4);
+  });
+
+  it('rejects path parameters which do not match the path', () => {
+    definePath('/users/:userId', {
+      // @ts-expect-error userId is not declared
+      get: {
+        responses,
+      },
+      post: {
+        requestParams: { path: z.object({ userId: z.string() }) },
+        responses,
+      },
+    });
+
+    definePath('/users', {
+      // @ts-expect-error userId is not in the path
+      get: {
+        requestParams: { path: z.object({ userId: z.string() }) },
+        responses,
+      },
+    });
+  });
+});
+
+describe('convertExpressPaths', () => {
+  it('converts Express style paths into path templates', () => {
+    const document = createDocument(
+      {
+        openapi: '3.1.0',
+        info: { title: 'My API', version: '1.0.0' },
+        paths: {
+          ...definePath('/users/:userId(\\d+)/files/*path', {
+            requestParams: {
+              path: z.object({ userId: z.string(), path: z.string() }),
+            },
+            get: { responses },
+          }),
+          '/legacy/*': {
+            get: {
+              requestParams: { path: z.object({ wildcard: z.string() }) },
+              responses,
+            },
+          },
+        },
+      },
+      { convertExpressPaths: true, pathParameterValidation: 'error' },
+    );
+
+    expect(Object.keys(document.paths ?? {})).toEqual([
+      '/users/{userId}/files/{path}',
+      '/legacy/{wildcard}',
+    ]);
+  });
+
+  it('throws an error for optional path parameters', () => {
+    expect(() =>
+      createDocument(
+        {
+          openapi: '3.1.0',
+          info: { title: 'My API', version: '1.0.0' },
+          paths: { '/users/:userId?': { get: { responses } } },
+        },
+        { convertExpressPaths: true },
+      ),
+    ).toThrow(
+      'Optional path parameter "userId" in /users/:userId? is not supported',
+    );
+  });
+
+  it('reports paths which cannot be converted', () => {
+    const { document, diagnostics } = createDocumentWithDiagnostics(
+      {
+        openapi: '3.1.0',
+        info: { title: 'My API', version: '1.0.0' },
+        paths: {
+          '/users/:userId?': { get: { responses } },
+          '/files/*/*': { get: { responses } },
+          '/users': { get: { responses } },
+        },
+      },
+      { convertExpressPaths: true },
+    );
+
+    expect(document.paths).toEqual({ '/users': { get: { responses } } });
+    expect(diagnostics).toEqual<Diagnostic[]>([
+      {
+        severity: 'error',
+        code: 'path-parameter',
+        message:
+          'Optional path parameter "userId" in /users/:userId? is not supported',
+        subpath: ['/users/:userId?'],
+      },
+      {
+        severity: 'error',
+        code: 'path-parameter',
+        message: 'Only one unnamed wildcard is supported in /files/*/*',
+        subpath: ['/files/*/*'],
+      },
+    ]);
+  });
+
+  it('throws an error when two paths convert to the same template', () => {
+    expect(() =>
+      createDocument(
+        {
+          openapi: '3.1.0',
+          info: { title: 'My API', version: '1.0.0' },
+          paths: {
+            '/users/{id}': { get: { responses } },
+            '/users/:id': { post: { responses } },
+          },
+        },
+        { convertExpressPaths: true, pathParameterValidation: 'off' },
+      ),
+    ).toThrow('Path "/users/:id" is already registered as /users/{id}');
+  });
+});
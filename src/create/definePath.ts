@@ -0,0 +1,79 @@
+import type { ZodType, z } from 'zod';
+
+import type { HttpMethod } from '../openapi';
+
+import type { ZodOpenApiPathItemObject } from './document';
+
+type ExpressParamNames<Segment extends string> =
+  Segment extends `${infer Name}(${string}`
+    ? Name
+    : Segment extends `${infer Name}-${infer Rest}`
+      ? Name | SegmentParamNames<Rest>
+      : Segment extends `${infer Name}.${infer Rest}`
+        ? Name | SegmentParamNames<Rest>
+        : Segment extends `${infer Name}?`
+          ? Name
+          : Segment;
+
+type SegmentParamNames<Segment extends string> =
+  Segment extends `${string}{${infer Name}}${infer Rest}`
+    ? Name | SegmentParamNames<Rest>
+    : Segment extends `${string}:${infer Name}`
+      ? ExpressParamNames<Name>
+      : Segment extends `${string}*${infer Name}`
+        ? Name extends ''
+          ? 'wildcard'
+          : Name
+        : never;
+
+/**
+ * The names of the path parameters in an OpenAPI path template eg. `/users/{userId}` or an Express style path eg.
+ * `/users/:userId`
+ */
+export type PathParamNames<Path extends string> =
+  Path extends `${infer Segment}/${infer Rest}`
+    ? SegmentParamNames<Segment> | PathParamNames<Rest>
+    : SegmentParamNames<Path>;
+
+type DeclaredPathParams<T> = T extends { requestParams?: infer Params }
+  ? NonNullable<Params> extends { path?: infer Schema }
+    ? NonNullable<Schema> extends ZodType
+      ? keyof z.input<NonNullable<Schema>> & string
+      : never
+    : never
+  : never;
+
+type PathParamsCheck<Names, Declared> = [Exclude<Names, Declared>] extends [
+  never,
+]
+  ? [Exclude<Declared, Names>] extends [never]
+    ? unknown
+    : {
+        pathParamsError: `Path parameter "${Exclude<Declared, Names> & string}" is not in the path`;
+      }
+  : {
+      pathParamsError: `Path parameter "${Exclude<Names, Declared> & string}" is not declared in requestParams.path`;
+    };
+
+export type DefinePathItemObject<
+  Path extends string,
+  PathItem extends ZodOpenApiPathItemObject,
+> = PathItem & {
+  [Method in keyof PathItem & HttpMethod]: PathParamsCheck<
+    PathParamNames<Path>,
+    DeclaredPathParams<PathItem> | DeclaredPathParams<PathItem[Method]>
+  >;
+};
+
+/**
+ * Creates a paths object containing a single path. Type checks that the keys of the `requestParams.path` schemas of
+ * the path item and each of its operations match the parameters in the path.
+ */
+export const definePath = <
+  const Path extends string,
+  const PathItem extends ZodOpenApiPathItemObject,
+>(
+  path: Path,
+  pathItem: DefinePathItemObject<Path, PathItem>,
+): { [key in Path]: PathItem } =>
+  ({ [path]: pathItem }) as unknown as { [key in Path]: PathItem };
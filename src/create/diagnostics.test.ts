@@ -0,0 +1,278 @@
+import '../entries/extend';
+import { z } from 'zod';
+
+import { type Diagnostic, reportDiagnostic } from './diagnostics';
+import {
+  type ZodOpenApiObject,
+  createDocument,
+  createDocumentWithDiagnostics,
+} from './document';
+
+const Category: z.ZodType<{ children: unknown[] }> = z.lazy(() =>
+  z.object({ children: z.array(Category) }),
+);
+
+const Job = z.object({ id: z.string() });
+
+const zodOpenApiObject: ZodOpenApiObject = {
+  openapi: '3.1.0',
+  info: { title: 'My API', version: '1.0.0' },
+  paths: {
+    '/jobs': {
+      get: {
+        parameters: [z.string().openapi({ param: { in: 'query' } })],
+        responses: {
+          '200': {
+            description: '200 OK',
+            content: {
+              'application/json': {
+                schema: z.object({
+                  category: Category,
+                  count: z.string().transform((str) => str.length),
+                }),
+              },
+            },
+          },
+        },
+      },
+    },
+  },
+  components: {
+    schemas: { Job },
+    parameters: { jobId: z.string() },
+  },
+};
+
+describe('createDocumentWithDiagnostics', () => {
+  it('collects every error and returns a best-effort document', () => {
+    const { document, diagnostics } = createDocumentWithDiagnostics(
+      zodOpenApiObject,
+      { strictCircularRefs: true },
+    );
+
+    expect(diagnostics).toEqual([
+      {
+        severity: 'error',
+        code: 'invalid-parameter',
+        message: '`name` or `in` missing in .openapi()',
+        subpath: ['components', 'parameters', 'jobId'],
+        zodType: 'ZodString',
+      },
+      {
+        severity: 'error',
+        code: 'invalid-parameter',
+        message: 'Parameter name missing',
+        subpath: ['/jobs', 'get', 'parameters', 'param index 0'],
+        zodType: 'ZodString',
+      },
+      {
+        severity: 'error',
+        code: 'circular-ref',
+        message:
+          "The schema at /jobs > get > responses > 200 > content > application/json > schema > property: category > lazy schema > property: children > array items needs to be registered because it's circularly referenced",
+        subpath: [
+          '/jobs',
+          'get',
+          'responses',
+          '200',
+          'content',
+          'application/json',
+          'schema',
+          'property: category',
+          'lazy schema',
+          'property: children',
+          'array items',
+        ],
+        zodType: 'ZodLazy',
+      },
+      {
+        severity: 'error',
+        code: 'unknown-transform',
+        message:
+          "Failed to determine a type for ZodEffects - transform at /jobs > get > responses > 200 > content > application/json > schema > property: count. Please change the 'effectType' to 'input', wrap it in a ZodPipeline or assign it a manual 'type'.",
+        subpath: [
+          '/jobs',
+          'get',
+          'responses',
+          '200',
+          'content',
+          'application/json',
+          'schema',
+          'property: count',
+        ],
+        zodType: 'ZodEffects - transform',
+      },
+    ]);
+    expect(document.paths?.['/jobs']?.get?.parameters).toBeUndefined();
+    expect(document.components?.schemas).toEqual({
+      Job: {
+        type: 'object',
+        properties: { id: { type: 'string' } },
+        required: ['id'],
+      },
+    });
+  });
+
+  it('returns warnings', () => {
+    const { diagnostics } = createDocumentWithDiagnostics(
+      {
+        openapi: '3.1.0',
+        info: { title: 'My API', version: '1.0.0' },
+        paths: {
+          '/jobs/{id}': {
+            get: { responses: { '200': { description: '200 OK' } } },
+          },
+        },
+      },
+      { pathParameterValidation: 'warn' },
+    );
+
+    expect(diagnostics).toEqual([
+      {
+        severity: 'warning',
+        code: 'path-parameter',
+        message: 'Path parameter "id" is not declared at /jobs/{id} > get',
+        subpath: ['/jobs/{id}', 'get'],
+      },
+    ]);
+  });
+
+  it('keeps the paths created before an unexpected error', () => {
+    const error = new TypeError('Unexpected');
+    const { document, diagnostics } = createDocumentWithDiagnostics({
+      openapi: '3.1.0',
+      info: { title: 'My API', version: '1.0.0' },
+      paths: {
+        '/health': { get: { responses: {} } },
+        '/jobs': {
+          get: {
+            responses: {
+              '200': {
+                description: '200 OK',
+                content: {
+                  'application/json': {
+                    schema: z.lazy(() => {
+                      throw error;
+                    }),
+                  },
+                },
+              },
+            },
+          },
+        },
+      },
+    });
+
+    expect(document).toEqual({
+      openapi: '3.1.0',
+      info: { title: 'My API', version: '1.0.0' },
+      paths: { '/health': { get: { responses: {} } } },
+    });
+    expect(diagnostics).toEqual([
+      {
+        severity: 'error',
+        code: 'unexpected',
+        message: 'Unexpected',
+        subpath: [],
+        cause: error,
+      },
+    ]);
+  });
+
+  it('returns no diagnostics for a valid document', () => {
+    expect(
+      createDocumentWithDiagnostics({
+        openapi: '3.1.0',
+        info: { title: 'My API', version: '1.0.0' },
+        components: { schemas: { Job } },
+      }).diagnostics,
+    ).toEqual([]);
+  });
+});
+
+describe('createDocument', () => {
+  it('throws an error listing every error', () => {
+    expect(() =>
+      createDocument(zodOpenApiObject, { strictCircularRefs: true }),
+    ).toThrow(
+      /^`name` or `in` missing in \.openapi\(\)\nParameter name missing\nThe schema at .* needs to be registered because it's circularly referenced\nFailed to determine a type for ZodEffects - transform at/,
+    );
+  });
+
+  it('passes every diagnostic to onDiagnostic', () => {
+    const onDiagnostic = jest.fn();
+
+    expect(() =>
+      createDocument(zodOpenApiObject, {
+        strictCircularRefs: true,
+        onDiagnostic,
+      }),
+    ).toThrow();
+
+    expect(
+      onDiagnostic.mock.calls.map(([{ code }]) => code as unknown),
+    ).toEqual([
+      'invalid-parameter',
+      'invalid-parameter',
+      'circular-ref',
+      'unknown-transform',
+    ]);
+  });
+
+  it('rethrows unexpected errors', () => {
+    const error = new TypeError('Unexpected');
+
+    expect(() =>
+      createDocument(
+        {
+          openapi: '3.1.0',
+          info: { title: 'My API', version: '1.0.0' },
+          paths: { '/jobs': { get: { responses: {} } } },
+        },
+        {
+          transformOperation: () => {
+            throw error;
+          },
+        },
+      ),
+    ).toThrow(TypeError);
+  });
+});
+
+describe('reportDiagnostic', () => {
+  it('throws errors when diagnostics are not being collected', () => {
+    expect(() =>
+      reportDiagnostic(undefined, {
+        severity: 'error',
+        code: 'circular-ref',
+        message: 'Error',
+        subpath: [],
+      }),
+    ).toThrow('Error');
+  });
+
+  it('drops warnings when diagnostics are not being collected', () => {
+    expect(() =>
+      reportDiagnostic(undefined, {
+        severity: 'warning',
+        code: 'path-parameter',
+        message: 'Warning',
+        subpath: [],
+      }),
+    ).not.toThrow();
+  });
+
+  it('does not record the same diagnostic twice', () => {
+    const diagnostic: Diagnostic = {
+      severity: 'error',
+      code: 'circular-ref',
+      message: 'Error',
+      subpath: [],
+    };
+    const diagnostics = [diagnostic];
+
+    reportDiagnostic(diagnostics, { ...diagnostic, subpath: ['other'] });
+
+    expect(diagnostics).toEqual([diagnostic]);
+  });
+});
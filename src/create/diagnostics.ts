@@ -0,0 +1,115 @@
+import type { ZodFirstPartyTypeKind, ZodType } from 'zod';
+
+import { isZodType } from '../zodType';
+
+import type { ComponentsObject } from './components';
+import type { SchemaState } from './schema';
+
+export type DiagnosticCode =
+  | 'circular-ref'
+  | 'unknown-schema'
+  | 'unknown-transform'
+  | 'transform-conflict'
+  | 'invalid-parameter'
+  | 'duplicate-registration'
+  | 'path-parameter'
+  | 'security-requirement'
+  | 'invalid-link'
+  | 'invalid-example'
+  | 'unsupported-conversion'
+  | 'unexpected';
+
+export interface Diagnostic {
+  severity: 'error' | 'warning';
+  code: DiagnosticCode;
+  message: string;
+  /** The location of the problem eg. `['/jobs', 'get', 'responses', '200']` */
+  subpath: string[];
+  /** The type name of the offending Zod schema eg. `ZodEffects - transform` */
+  zodType?: string;
+  /** The error which was thrown for an `unexpected` diagnostic */
+  cause?: unknown;
+}
+
+export const getZodTypeName = (zodType: ZodType): string => {
+  if (isZodType(zodType, 'ZodEffects')) {
+    return `${zodType._def.typeName} - ${zodType._def.effect.type}`;
+  }
+  return (zodType._def as { typeName: ZodFirstPartyTypeKind }).typeName;
+};
+
+/**
+ * Records a diagnostic when diagnostics are being collected. Otherwise errors are thrown and warnings are dropped.
+ */
+export const reportDiagnostic = (
+  diagnostics: Diagnostic[] | undefined,
+  diagnostic: Diagnostic,
+): void => {
+  if (!diagnostics) {
+    if (diagnostic.severity === 'error') {
+      throw new Error(diagnostic.message);
+    }
+    return;
+  }
+
+  if (
+    !diagnostics.some(
+      (existing) =>
+        existing.code === diagnostic.code &&
+        existing.message === diagnostic.message,
+    )
+  ) {
+    diagnostics.push(diagnostic);
+  }
+};
+
+/**
+ * Reports a component, path or schema which is registered more than once
+ */
+export const reportDuplicate = (
+  components: ComponentsObject,
+  message: string,
+  subpath: string[],
+  zodType?: ZodType,
+): void =>
+  reportDiagnostic(components.diagnostics, {
+    severity: 'error',
+    code: 'duplicate-registration',
+    message,
+    subpath,
+    ...(zodType && { zodType: getZodTypeName(zodType) }),
+  });
+
+/**
+ * Reports a Zod parameter which is missing its `name` or `in`
+ */
+export const reportInvalidParameter = (
+  components: ComponentsObject,
+  message: string,
+  subpath: string[],
+  zodType: ZodType,
+): void =>
+  reportDiagnostic(components.diagnostics, {
+    severity: 'error',
+    code: 'invalid-parameter',
+    message,
+    subpath,
+    zodType: getZodTypeName(zodType),
+  });
+
+/**
+ * Reports an error for the schema at the current path of the schema state
+ */
+export const reportSchemaError = (
+  state: SchemaState,
+  code: DiagnosticCode,
+  message: string,
+  zodType: string,
+): void =>
+  reportDiagnostic(state.components.diagnostics, {
+    severity: 'error',
+    code,
+    message,
+    subpath: [...state.path],
+    zodType,
+  });
@@ -1627,4 +1627,151 @@ describe('createDocument', () => {
       }
     `);
   });
+
+  it('registers input and output variants of components when componentVariants is auto', () => {
+    const Amount = z
+      .string()
+      .transform((value) => Number(value))
+      .pipe(z.number())
+      .openapi({ ref: 'Amount' });
+    const Id = z.string().openapi({ ref: 'Id' });
+    const Payment = z.object({ id: Id, amount: Amount }).openapi({
+      ref: 'Payment',
+    });
+
+    const document = createDocument(
+      {
+        info: {
+          title: 'My API',
+          version: '1.0.0',
+        },
+        openapi: '3.1.0',
+        paths: {
+          '/payments': {
+            post: {
+              requestBody: {
+                content: {
+                  'application/json': { schema: Payment },
+                },
+              },
+              responses: {
+                '200': {
+                  description: '200 OK',
+                  content: {
+                    'application/json': { schema: Payment },
+                  },
+                },
+              },
+            },
+          },
+        },
+      },
+      { componentVariants: 'auto' },
+    );
+
+    expect(document.paths?.['/payments']?.post).toEqual({
+      requestBody: {
+        content: {
+          'application/json': {
+            schema: { $ref: '#/components/schemas/PaymentInput' },
+          },
+        },
+      },
+      responses: {
+        '200': {
+          description: '200 OK',
+          content: {
+            'application/json': {
+              schema: { $ref: '#/components/schemas/PaymentOutput' },
+            },
+          },
+        },
+      },
+    });
+    expect(document.components?.schemas).toEqual({
+      Id: { type: 'string' },
+      AmountInput: { type: 'string' },
+      AmountOutput: { type: 'number' },
+      PaymentInput: {
+        type: 'object',
+        properties: {
+          id: { $ref: '#/components/schemas/Id' },
+          amount: { $ref: '#/components/schemas/AmountInput' },
+        },
+        required: ['id', 'amount'],
+      },
+      PaymentOutput: {
+        type: 'object',
+        properties: {
+          id: { $ref: '#/components/schemas/Id' },
+          amount: { $ref: '#/components/schemas/AmountOutput' },
+        },
+        required: ['id', 'amount'],
+      },
+    });
+  });
+
+  it('uses componentVariantSuffix to name component variants', () => {
+    const Job = z
+      .object({
+        priority: z.number().default(1),
+      })
+      .openapi({ ref: 'Job' });
+
+    const document = createDocument(
+      {
+        info: {
+          title: 'My API',
+          version: '1.0.0',
+        },
+        openapi: '3.1.0',
+        components: {
+          schemas: {
+            Unused: z.string(),
+          },
+        },
+        paths: {
+          '/jobs': {
+            post: {
+              requestBody: {
+                content: {
+                  'application/json': { schema: Job },
+                },
+              },
+              responses: {
+                '200': {
+                  description: '200 OK',
+                  content: {
+                    'application/json': { schema: Job },
+                  },
+                },
+              },
+            },
+          },
+        },
+      },
+      {
+        componentVariants: 'auto',
+        componentVariantSuffix: (creationType) =>
+          creationType === 'input' ? 'Request' : 'Response',
+      },
+    );
+
+    expect(document.components?.schemas).toEqual({
+      Unused: { type: 'string' },
+      JobRequest: {
+        type: 'object',
+        properties: {
+          priority: { type: 'number', default: 1 },
+        },
+      },
+      JobResponse: {
+        type: 'object',
+        properties: {
+          priority: { type: 'number', default: 1 },
+        },
+        required: ['priority'],
+      },
+    });
+  });
 });
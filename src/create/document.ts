@@ -3,12 +3,46 @@ import type { AnyZodObject, ZodType, ZodTypeDef } from 'zod';
 import type { OpenApiVersion } from '../openapi';
 import type { oas30, oas31 } from '../openapi3-ts/dist';
 
-import { createComponents, getDefaultComponents } from './components';
-import { createPaths } from './paths';
+import { createWithAutoRef } from './autoRef';
+import {
+  type CreationType,
+  createComponents,
+  getDefaultComponents,
+} from './components';
+import type { Diagnostic } from './diagnostics';
+import type { GenerateExampleOptions } from './generateExample';
+import { validateLinks } from './links';
+import type {
+  OperationDefaultsOptOut,
+  TransformOperation,
+  ZodOpenApiOperationDefaults,
+} from './operationDefaults';
+import { validatePathParameters } from './pathParameters';
+import { createPaths, resolvePaths } from './paths';
+import {
+  type ZodOpenApiSecuritySchemesObject,
+  validateSecurityRequirements,
+} from './security';
+
+export interface ZodOpenApiExampleObject
+  extends oas31.ExampleObject,
+    oas30.ExampleObject {
+  /** Use this field to auto register this example as a component */
+  ref?: string;
+}
+
+export type ZodOpenApiExamplesObject = Record<
+  string,
+  ZodOpenApiExampleObject | oas31.ReferenceObject | oas30.ReferenceObject
+>;
 
 export interface ZodOpenApiMediaTypeObject
-  extends Omit<oas31.MediaTypeObject & oas30.MediaTypeObject, 'schema'> {
+  extends Omit<
+    oas31.MediaTypeObject & oas30.MediaTypeObject,
+    'schema' | 'examples'
+  > {
   schema?: ZodType | oas31.SchemaObject | oas31.ReferenceObject;
+  examples?: ZodOpenApiExamplesObject;
 }
 
 export interface ZodOpenApiContentObject {
@@ -23,13 +57,24 @@ export interface ZodOpenApiRequestBodyObject
   ref?: string;
 }
 
+export interface ZodOpenApiLinkObject
+  extends oas31.LinkObject,
+    oas30.LinkObject {
+  /** Use this field to auto register this link object as a component */
+  ref?: string;
+}
+
 export interface ZodOpenApiResponseObject
   extends Omit<
     oas31.ResponseObject & oas30.ResponseObject,
-    'content' | 'headers'
+    'content' | 'headers' | 'links'
   > {
   content?: ZodOpenApiContentObject;
   headers?: AnyZodObject | oas30.HeadersObject | oas31.HeadersObject;
+  links?: Record<
+    string,
+    ZodOpenApiLinkObject | oas31.ReferenceObject | oas30.ReferenceObject
+  >;
   /** Use this field to auto register this response object as a component */
   ref?: string;
 }
@@ -79,13 +124,33 @@ export interface ZodOpenApiOperationObject
   requestParams?: ZodOpenApiParameters;
   responses: ZodOpenApiResponsesObject;
   callbacks?: ZodOpenApiCallbacksObject;
+  /** Used to opt this operation out of the `operationDefaults` in CreateDocumentOptions */
+  operationDefaults?: OperationDefaultsOptOut;
 }
 
 export interface ZodOpenApiPathItemObject
   extends Omit<
     oas31.PathItemObject & oas30.PathItemObject,
-    'get' | 'put' | 'post' | 'delete' | 'options' | 'head' | 'patch' | 'trace'
+    | 'get'
+    | 'put'
+    | 'post'
+    | 'delete'
+    | 'options'
+    | 'head'
+    | 'patch'
+    | 'trace'
+    | 'parameters'
   > {
+  /** Parameters shared by all operations under this path. Operations can override these by declaring a parameter with the same location and name */
+  parameters?: Array<
+    | ZodType
+    | oas31.ParameterObject
+    | oas30.ParameterObject
+    | oas31.ReferenceObject
+    | oas30.ReferenceObject
+  >;
+  /** Request parameters shared by all operations under this path */
+  requestParams?: ZodOpenApiParameters;
   get?: ZodOpenApiOperationObject;
   put?: ZodOpenApiOperationObject;
   post?: ZodOpenApiOperationObject;
@@ -104,7 +169,14 @@ export interface ZodOpenApiPathsObject extends oas31.ISpecificationExtension {
 export interface ZodOpenApiComponentsObject
   extends Omit<
     oas31.ComponentsObject & oas30.ComponentsObject,
-    'schemas' | 'responses' | 'requestBodies' | 'headers' | 'parameters'
+    | 'schemas'
+    | 'responses'
+    | 'requestBodies'
+    | 'headers'
+    | 'parameters'
+    | 'examples'
+    | 'links'
+    | 'securitySchemes'
   > {
   parameters?: Record<
     string,
@@ -133,6 +205,10 @@ export interface ZodOpenApiComponentsObject
   >;
   responses?: Record<string, ZodOpenApiResponseObject>;
   callbacks?: Record<string, ZodOpenApiCallbackObject>;
+  examples?: Record<string, ZodOpenApiExampleObject>;
+  links?: Record<string, ZodOpenApiLinkObject>;
+  /** API keys can be declared as Zod schemas with `.openapi({ param: { in, name } })` */
+  securitySchemes?: ZodOpenApiSecuritySchemesObject;
 }
 
 export type ZodOpenApiVersion = OpenApiVersion;
@@ -154,6 +230,45 @@ export type ZodObjectInputType<
   Input = Record<string, unknown>,
 > = ZodType<Output, Def, Input>;
 
+export type ZodStringFormat =
+  | 'uuid'
+  | 'datetime'
+  | 'date'
+  | 'time'
+  | 'duration'
+  | 'email'
+  | 'url'
+  | 'ip'
+  | 'cidr'
+  | 'emoji'
+  | 'cuid'
+  | 'cuid2'
+  | 'ulid'
+  | 'nanoid'
+  | 'jwt'
+  | 'base64'
+  | 'base64url';
+
+export type StringFormatSchema = Pick<
+  oas31.SchemaObject,
+  'format' | 'pattern' | 'contentEncoding'
+>;
+
+export interface AutoRefOptions {
+  /**
+   * The number of times a schema must be used before it is registered as a component. Defaults to `2`
+   */
+  minUsages?: number;
+  /**
+   * The minimum length of a schema's JSON before it is registered as a component. Defaults to `0`
+   */
+  minSize?: number;
+  /**
+   * Used to name the registered component. Defaults to the schema's `description` in PascalCase or `Schema1`, `Schema2`... Clashing names are suffixed with a number
+   */
+  name?: (zodType: ZodType) => string | undefined;
+}
+
 export interface CreateDocumentOptions {
   /**
    * Used to change the default Zod Date schema
@@ -163,34 +278,199 @@ export interface CreateDocumentOptions {
    * Used to set the output of a ZodUnion to be `oneOf` instead of `allOf`
    */
   unionOneOf?: boolean;
+  /**
+   * Used to add an `int32` or `int64` format to bounded integers eg. `z.number().int().safe()` will output `format: 'int64'`
+   */
+  integerFormat?: boolean;
+  /**
+   * Used to override or extend how Zod string checks are mapped eg. `{ cuid: { format: 'cuid' } }`. Keys are the Zod string check names.
+   */
+  stringFormatMap?: Partial<Record<ZodStringFormat, StringFormatSchema>>;
+  /**
+   * Used to list the `trim`, `toLowerCase` and `toUpperCase` transforms of a ZodString in an `x-zod-transforms` extension on response schemas
+   */
+  zodTransformsExtension?: boolean;
+  /**
+   * Set to `auto` to register separate request and response variants of a component schema when its input and output renderings differ eg. when it contains a transform
+   */
+  componentVariants?: 'auto';
+  /**
+   * Used to name the component variants created by `componentVariants`. Defaults to `Input` and `Output`
+   */
+  componentVariantSuffix?: (creationType: CreationType) => string;
+  /**
+   * Used to automatically register schemas which are used repeatedly as components in `components.schemas`
+   */
+  autoRef?: boolean | AutoRefOptions;
+  /**
+   * Set to `true` to throw an error when a circularly referenced schema is not registered instead of automatically registering it as a component
+   */
+  strictCircularRefs?: boolean;
+  /**
+   * Used to name the components automatically registered for circularly referenced schemas. Defaults to the schema's `description` in PascalCase or `Schema1`, `Schema2`...
+   */
+  circularRefName?: (zodType: ZodType) => string | undefined;
+  /**
+   * Checks that the variables in each path template match its `in: 'path'` parameters. Set to `error` to throw an error or `warn` to report a warning. Defaults to `off`
+   */
+  pathParameterValidation?: 'error' | 'warn' | 'off';
+  /**
+   * Set to `true` to convert Express style paths eg. `/users/:userId` into OpenAPI path templates eg. `/users/{userId}`
+   */
+  convertExpressPaths?: boolean;
+  /**
+   * Parses each `example`, `examples` value and parameter example with the Zod schema which owns it. Set to `error` to throw an error listing every invalid example or `warn` to report them as warnings. Defaults to `off`
+   */
+  validateExamples?: 'error' | 'warn' | 'off';
+  /**
+   * Used to generate an `example` for request bodies and responses with a Zod schema and no hand-written examples. Set `seed` to change the generated values
+   */
+  autoExamples?: boolean | Pick<GenerateExampleOptions, 'seed'>;
+  /**
+   * Default responses, parameters, security and tags which are merged into every operation in `paths` and `webhooks`. Fields declared by an operation win
+   */
+  operationDefaults?: ZodOpenApiOperationDefaults;
+  /**
+   * Called with each operation in `paths` and `webhooks` after the `operationDefaults` are merged and before it is rendered
+   */
+  transformOperation?: TransformOperation;
+  /**
+   * Called by `createDocument` with each error and warning it finds before it throws for any errors. Warnings are not reported anywhere else
+   */
+  onDiagnostic?: (diagnostic: Diagnostic) => void;
+}
+
+export interface DocumentWithDiagnostics {
+  /** The document created from everything which could be rendered */
+  document: oas31.OpenAPIObject;
+  diagnostics: Diagnostic[];
 }
 
+/**
+ * Creates a document without throwing on problems which can be recovered from. Every error and warning is returned
+ * alongside a best-effort document.
+ */
+export const createDocumentWithDiagnostics = (
+  zodOpenApiObject: ZodOpenApiObject,
+  documentOptions?: CreateDocumentOptions,
+): DocumentWithDiagnostics => {
+  const { paths, webhooks, components = {}, ...rest } = zodOpenApiObject;
+
+  let diagnostics: Diagnostic[] = [];
+  // Holds everything which was created if an unexpected error is thrown
+  let partialDocument: oas31.OpenAPIObject = rest;
+  let resolvedPaths: ZodOpenApiPathsObject | undefined;
+  let resolvedWebhooks: ZodOpenApiPathsObject | undefined;
+
+  try {
+    const document = createWithAutoRef(
+      () => {
+        const defaultComponents = getDefaultComponents(
+          components,
+          zodOpenApiObject.openapi,
+          [],
+        );
+        if (
+          documentOptions?.validateExamples &&
+          documentOptions.validateExamples !== 'off'
+        ) {
+          defaultComponents.exampleSeverity =
+            documentOptions.validateExamples === 'error' ? 'error' : 'warning';
+        }
+        return defaultComponents;
+      },
+      (defaultComponents) => {
+        diagnostics = defaultComponents.diagnostics ?? [];
+        resolvedPaths = resolvePaths(paths, defaultComponents, documentOptions);
+        resolvedWebhooks = resolvePaths(
+          webhooks,
+          defaultComponents,
+          documentOptions,
+        );
+        partialDocument = {
+          ...rest,
+          ...(resolvedPaths && { paths: {} }),
+          ...(resolvedWebhooks && { webhooks: {} }),
+        };
+        const createdPaths = createPaths(
+          resolvedPaths,
+          defaultComponents,
+          documentOptions,
+          partialDocument.paths,
+        );
+        const createdWebhooks = createPaths(
+          resolvedWebhooks,
+          defaultComponents,
+          documentOptions,
+          partialDocument.webhooks,
+        );
+        const createdComponents = createComponents(
+          components,
+          defaultComponents,
+          documentOptions,
+        );
+
+        return {
+          ...rest,
+          ...(createdPaths && { paths: createdPaths }),
+          ...(createdWebhooks && { webhooks: createdWebhooks }),
+          ...(createdComponents && { components: createdComponents }),
+        };
+      },
+      Object.keys(components.schemas ?? {}),
+      documentOptions,
+    );
+
+    validatePathParameters(
+      document.paths,
+      document.components,
+      documentOptions,
+      diagnostics,
+    );
+    validateSecurityRequirements(document, diagnostics);
+    validateLinks(
+      { paths: resolvedPaths, webhooks: resolvedWebhooks, components },
+      diagnostics,
+    );
+
+    return { document, diagnostics };
+  } catch (error) {
+    diagnostics.push({
+      severity: 'error',
+      code: 'unexpected',
+      message: error instanceof Error ? error.message : String(error),
+      subpath: [],
+      cause: error,
+    });
+    return { document: partialDocument, diagnostics };
+  }
+};
+
 export const createDocument = (
   zodOpenApiObject: ZodOpenApiObject,
   documentOptions?: CreateDocumentOptions,
 ): oas31.OpenAPIObject => {
-  const { paths, webhooks, components = {}, ...rest } = zodOpenApiObject;
-  const defaultComponents = getDefaultComponents(
-    components,
-    zodOpenApiObject.openapi,
+  const { document, diagnostics } = createDocumentWithDiagnostics(
+    zodOpenApiObject,
+    documentOptions,
   );
 
-  const createdPaths = createPaths(paths, defaultComponents, documentOptions);
-  const createdWebhooks = createPaths(
-    webhooks,
-    defaultComponents,
-    documentOptions,
+  const errors = diagnostics.filter(
+    (diagnostic) => diagnostic.severity === 'error',
   );
-  const createdComponents = createComponents(
-    components,
-    defaultComponents,
-    documentOptions,
+  diagnostics.forEach((diagnostic) =>
+    documentOptions?.onDiagnostic?.(diagnostic),
   );
 
-  return {
-    ...rest,
-    ...(createdPaths && { paths: createdPaths }),
-    ...(createdWebhooks && { webhooks: createdWebhooks }),
-    ...(createdComponents && { components: createdComponents }),
-  };
+  // Rethrow the original error so that its class and stack are kept
+  const unexpected = errors.find((error) => error.code === 'unexpected');
+  if (unexpected) {
+    throw unexpected.cause;
+  }
+
+  if (errors.length) {
+    throw new Error(errors.map((error) => error.message).join('\n'));
+  }
+
+  return document;
 };
@@ -0,0 +1,194 @@
+import '../entries/extend';
+import { z } from 'zod';
+
+import {
+  type ZodOpenApiExampleObject,
+  type ZodOpenApiObject,
+  createDocument,
+} from './document';
+
+const Job = z.object({
+  title: z.string().openapi({ example: 'Developer' }),
+  salary: z.number().int(),
+});
+
+const jobExample: ZodOpenApiExampleObject = {
+  summary: 'A job',
+  value: { title: 'Developer', salary: 100 },
+};
+
+const createJobDocument = (example: unknown): ZodOpenApiObject => ({
+  openapi: '3.1.0',
+  info: { title: 'My API', version: '1.0.0' },
+  paths: {
+    '/jobs': {
+      get: {
+        requestParams: {
+          query: z.object({
+            limit: z.number().openapi({
+              // @ts-expect-error the example is not a number
+              param: { example: 'ten' },
+              examples: [10],
+            }),
+          }),
+        },
+        responses: {
+          '200': {
+            description: '200 OK',
+            content: {
+              'application/json': {
+                schema: Job,
+                example,
+                examples: { job: { $ref: '#/components/examples/job' } },
+              },
+            },
+          },
+        },
+      },
+    },
+  },
+  components: {
+    examples: { job: { value: { title: 'Developer' } } },
+  },
+});
+
+describe('components.examples', () => {
+  it('references examples which are registered as components', () => {
+    const document = createDocument({
+      openapi: '3.1.0',
+      info: { title: 'My API', version: '1.0.0' },
+      paths: {
+        '/jobs': {
+          post: {
+            requestBody: {
+              content: {
+                'application/json': {
+                  schema: Job,
+                  examples: { job: jobExample },
+                },
+              },
+            },
+            responses: {
+              '201': {
+                description: '201 Created',
+                content: {
+                  'application/json': {
+                    schema: Job,
+                    examples: {
+                      job: jobExample,
+                      other: { ref: 'other', value: { title: 'Tester' } },
+                    },
+                  },
+                },
+              },
+            },
+          },
+        },
+      },
+      components: { examples: { job: jobExample } },
+    });
+
+    expect(document.paths?.['/jobs']?.post?.requestBody).toEqual({
+      content: {
+        'application/json': {
+          schema: expect.any(Object),
+          examples: { job: { $ref: '#/components/examples/job' } },
+        },
+      },
+    });
+    expect(document.components?.examples).toEqual({
+      job: { summary: 'A job', value: { title: 'Developer', salary: 100 } },
+      other: { value: { title: 'Tester' } },
+    });
+  });
+});
+
+describe('validateExamples', () => {
+  it('throws an error listing every invalid example', () => {
+    expect(() =>
+      createDocument(createJobDocument({ title: 1, salary: 1.5 }), {
+        validateExamples: 'error',
+      }),
+    ).toThrow(
+      [
+        'Example at /jobs > get > parameters > query > limit > example does not match its schema: Expected number, received string',
+        'Example at /jobs > get > responses > 200 > content > application/json > example does not match its schema: title: Expected string, received number, salary: Expected integer, received float',
+        'Example at /jobs > get > responses > 200 > content > application/json > examples > job does not match its schema: salary: Required',
+      ].join('\n'),
+    );
+  });
+
+  it('accepts valid examples', () => {
+    expect(() =>
+      createDocument(
+        {
+          openapi: '3.1.0',
+          info: { title: 'My API', version: '1.0.0' },
+          paths: {
+            '/jobs': {
+              get: {
+                parameters: [
+                  z.number().openapi({
+                    param: {
+                      in: 'query',
+                      name: 'limit',
+                      example: 10,
+                      examples: { max: { value: 100 } },
+                    },
+                  }),
+                ],
+                responses: {
+                  '200': {
+                    description: '200 OK',
+                    content: {
+                      'application/json': {
+                        schema: Job,
+                        example: jobExample.value,
+                        examples: { job: jobExample },
+                      },
+                    },
+                  },
+                },
+              },
+            },
+          },
+        },
+        { validateExamples: 'error' },
+      ),
+    ).not.toThrow();
+  });
+
+  it('warns about invalid examples', () => {
+    const onDiagnostic = jest.fn();
+
+    createDocument(
+      {
+        openapi: '3.1.0',
+        info: { title: 'My API', version: '1.0.0' },
+        components: {
+          schemas: {
+            Salary: z
+              .number()
+              .openapi({ examples: [100, -1] })
+              .positive(),
+          },
+        },
+      },
+      { validateExamples: 'warn', onDiagnostic },
+    );
+
+    expect(onDiagnostic).toHaveBeenCalledTimes(1);
+    expect(onDiagnostic).toHaveBeenCalledWith(
+      expect.objectContaining({
+        severity: 'warning',
+        code: 'invalid-example',
+        message:
+          'Example at component schema index 0 > examples > 1 does not match its schema: Number must be greater than 0',
+      }),
+    );
+  });
+
+  it('does not validate examples by default', () => {
+    expect(() => createDocument(createJobDocument({ title: 1 }))).not.toThrow();
+  });
+});
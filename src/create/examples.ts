@@ -0,0 +1,144 @@
+import type { ZodType } from 'zod';
+
+import type { oas30, oas31 } from '../openapi3-ts/dist';
+
+import type { ComponentsObject } from './components';
+import { getZodTypeName, reportDiagnostic } from './diagnostics';
+import type {
+  ZodOpenApiExampleObject,
+  ZodOpenApiExamplesObject,
+} from './document';
+
+export const createComponentExampleRef = (exampleRef: string) =>
+  `#/components/examples/${exampleRef}`;
+
+export const createExampleOrRef = (
+  exampleObject:
+    | ZodOpenApiExampleObject
+    | oas31.ReferenceObject
+    | oas30.ReferenceObject,
+  components: ComponentsObject,
+): oas31.ExampleObject | oas31.ReferenceObject => {
+  if ('$ref' in exampleObject) {
+    return exampleObject;
+  }
+
+  const component = components.examples.get(exampleObject);
+  if (component && component.type === 'complete') {
+    return { $ref: createComponentExampleRef(component.ref) };
+  }
+
+  const { ref, ...example } = exampleObject;
+  const exampleRef = ref ?? component?.ref;
+
+  if (exampleRef) {
+    components.examples.set(exampleObject, {
+      type: 'complete',
+      ref: exampleRef,
+      exampleObject: example,
+    });
+    return { $ref: createComponentExampleRef(exampleRef) };
+  }
+
+  return example;
+};
+
+export const createExamples = (
+  examples: ZodOpenApiExamplesObject | undefined,
+  components: ComponentsObject,
+): oas31.MediaTypeObject['examples'] => {
+  if (!examples) {
+    return undefined;
+  }
+
+  return Object.fromEntries(
+    Object.entries(examples).map(([key, exampleObject]) => [
+      key,
+      createExampleOrRef(exampleObject, components),
+    ]),
+  );
+};
+
+const resolveExample = (
+  exampleObject:
+    | ZodOpenApiExampleObject
+    | oas31.ReferenceObject
+    | oas30.ReferenceObject,
+  components: ComponentsObject,
+): ZodOpenApiExampleObject | undefined => {
+  if (!('$ref' in exampleObject)) {
+    return exampleObject;
+  }
+
+  return Array.from(components.examples).find(
+    ([_exampleObject, component]) =>
+      createComponentExampleRef(component.ref) === exampleObject.$ref,
+  )?.[0];
+};
+
+const formatIssuePath = (path: Array<string | number>) =>
+  path.length ? `${path.join('.')}: ` : '';
+
+/**
+ * Parses an example with the Zod schema which owns it and records any issues when `validateExamples` is enabled
+ */
+export const validateExample = (
+  zodType: ZodType,
+  example: unknown,
+  components: ComponentsObject,
+  subpath: string[],
+): void => {
+  if (!components.exampleSeverity) {
+    return;
+  }
+
+  const result = zodType.safeParse(example);
+  if (result.success) {
+    return;
+  }
+
+  reportDiagnostic(components.diagnostics, {
+    severity: components.exampleSeverity,
+    code: 'invalid-example',
+    message: `Example at ${subpath.join(' > ')} does not match its schema: ${result.error.issues
+      .map((issue) => `${formatIssuePath(issue.path)}${issue.message}`)
+      .join(', ')}`,
+    subpath,
+    zodType: getZodTypeName(zodType),
+  });
+};
+
+/**
+ * Validates an `example` and the values of an `examples` map against the Zod schema which owns them
+ */
+export const validateExampleFields = (
+  zodType: ZodType,
+  {
+    example,
+    examples,
+  }: {
+    example?: unknown;
+    examples?: ZodOpenApiExamplesObject;
+  },
+  components: ComponentsObject,
+  subpath: string[],
+): void => {
+  if (!components.exampleSeverity) {
+    return;
+  }
+
+  if (example !== undefined) {
+    validateExample(zodType, example, components, [...subpath, 'example']);
+  }
+
+  Object.entries(examples ?? {}).forEach(([key, exampleObject]) => {
+    const resolved = resolveExample(exampleObject, components);
+    if (resolved && 'value' in resolved) {
+      validateExample(zodType, resolved.value, components, [
+        ...subpath,
+        'examples',
+        key,
+      ]);
+    }
+  });
+};
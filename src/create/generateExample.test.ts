@@ -0,0 +1,263 @@
+import '../entries/extend';
+import { z } from 'zod';
+
+import { createDocument } from './document';
+import { generateExample } from './generateExample';
+
+enum Colour {
+  Red,
+  Green,
+}
+
+const Job = z.object({
+  id: z.string().uuid(),
+  title: z.string().min(20).max(24),
+  code: z.string().startsWith('JOB-').endsWith('!').toUpperCase(),
+  email: z.string().email(),
+  website: z.string().url(),
+  createdAt: z.string().datetime(),
+  startDate: z.string().date(),
+  ip: z.string().ip({ version: 'v4' }),
+  salary: z.number().int().min(50000).max(90000).multipleOf(1000),
+  rating: z.number().gt(0).lt(1),
+  count: z.bigint().positive(),
+  status: z.enum(['open', 'closed']),
+  colour: z.nativeEnum(Colour),
+  kind: z.literal('job'),
+  tags: z.array(z.string()).min(2).max(3),
+  location: z.tuple([z.number(), z.number()]),
+  remote: z.boolean().default(true),
+  owner: z.discriminatedUnion('type', [
+    z.object({ type: z.literal('user'), name: z.string().length(5) }),
+    z.object({ type: z.literal('team'), size: z.number() }),
+  ]),
+  notes: z.string().nullable().optional(),
+  updatedAt: z.date(),
+});
+
+describe('generateExample', () => {
+  it('generates an example which respects the schema checks', () => {
+    const example = generateExample(Job, { seed: 1 });
+
+    expect(
+      Job.omit({ count: true, updatedAt: true }).safeParse(example),
+    ).toEqual({ success: true, data: expect.any(Object) });
+    expect(example).toMatchObject({
+      code: expect.stringMatching(/^JOB-.*!$/),
+      count: expect.any(Number),
+      kind: 'job',
+      owner: { type: 'user', name: expect.any(String) },
+      remote: true,
+      updatedAt: expect.stringMatching(
+        /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}Z$/,
+      ),
+    });
+  });
+
+  it('generates the same example for the same seed', () => {
+    expect(generateExample(Job, { seed: 42 })).toEqual(
+      generateExample(Job, { seed: 42 }),
+    );
+    expect(generateExample(Job, { seed: 42 })).not.toEqual(
+      generateExample(Job, { seed: 43 }),
+    );
+  });
+
+  it('uses the examples declared in .openapi()', () => {
+    expect(
+      generateExample(
+        z.object({
+          a: z.string().openapi({ example: 'hello' }),
+          b: z.number().openapi({ examples: [1, 2] }),
+        }),
+      ),
+    ).toEqual({ a: 'hello', b: 1 });
+  });
+
+  it('generates input and output examples for effects', () => {
+    const schema = z
+      .string()
+      .length(3)
+      .transform((value) => value.length);
+
+    expect(generateExample(schema, { type: 'input' })).toEqual(
+      expect.any(String),
+    );
+    expect(generateExample(schema, { type: 'output' })).toBe(3);
+  });
+
+  it('uses the most restrictive bounds', () => {
+    const schema = z.object({
+      count: z.number().int().safe().min(5),
+      size: z.bigint().min(1n).min(10n).max(20n),
+      name: z.string().min(2).min(12).max(40).max(16),
+    });
+
+    const example = generateExample(schema, { seed: 0 });
+
+    expect(schema.omit({ size: true }).safeParse(example)).toEqual({
+      success: true,
+      data: expect.any(Object),
+    });
+    expect(example).toMatchObject({
+      count: expect.any(Number) as unknown,
+      size: expect.any(Number) as unknown,
+    });
+    expect(
+      (example as { count: number; size: number }).count,
+    ).toBeLessThanOrEqual(105);
+    expect((example as { size: number }).size).toBeGreaterThanOrEqual(10);
+  });
+
+  it('generates formats which respect length checks', () => {
+    const schema = z.object({
+      email: z.string().email().min(30),
+      website: z.string().url().min(40),
+    });
+
+    expect(schema.safeParse(generateExample(schema))).toEqual({
+      success: true,
+      data: expect.any(Object),
+    });
+  });
+
+  it('skips examples which cannot be generated', () => {
+    expect(
+      generateExample(z.object({ code: z.string().regex(/^\d{3}$/) })),
+    ).toBeUndefined();
+    expect(generateExample(z.string().uuid().max(10))).toBeUndefined();
+    expect(generateExample(z.number().int().gt(0).lt(1))).toBeUndefined();
+    expect(
+      generateExample(z.string().refine((value) => value.length > 100)),
+    ).toBeUndefined();
+    expect(
+      generateExample(
+        z
+          .object({
+            start: z.number().min(100),
+            end: z.number().max(0),
+          })
+          .refine(({ start, end }) => start < end),
+      ),
+    ).toBeUndefined();
+    expect(generateExample(z.string().refine(Boolean))).toEqual(
+      expect.any(String),
+    );
+    expect(generateExample(z.string().regex(/^[a-z]+$/))).toEqual(
+      expect.stringMatching(/^[a-z]+$/),
+    );
+  });
+
+  it('stops at recursive schemas', () => {
+    type Category = { name: string; children: Category[] };
+    const Category: z.ZodType<Category> = z.lazy(() =>
+      z.object({ name: z.string(), children: z.array(Category) }),
+    );
+
+    expect(generateExample(Category)).toEqual({
+      name: expect.any(String),
+      children: [],
+    });
+  });
+});
+
+describe('autoExamples', () => {
+  it('adds examples to request bodies and responses without examples', () => {
+    const schema = z.object({
+      id: z.string().uuid(),
+      count: z.number().int().min(1).max(10),
+    });
+
+    const document = createDocument(
+      {
+        openapi: '3.1.0',
+        info: { title: 'My API', version: '1.0.0' },
+        paths: {
+          '/jobs': {
+            post: {
+              requestBody: {
+                content: { 'application/json': { schema } },
+              },
+              responses: {
+                '200': {
+                  description: '200 OK',
+                  content: {
+                    'application/json': {
+                      schema,
+                      example: { id: 'abc', count: 1 },
+                    },
+                  },
+                },
+              },
+            },
+          },
+        },
+      },
+      { autoExamples: { seed: 7 } },
+    );
+
+    expect(document.paths?.['/jobs']?.post).toMatchInlineSnapshot(`
+{
+  "requestBody": {
+    "content": {
+      "application/json": {
+        "example": {
+          "count": 10,
+          "id": "00fb8673-8b42-4835-a84f-3e32248c1e89",
+        },
+        "schema": {
+          "properties": {
+            "count": {
+              "maximum": 10,
+              "minimum": 1,
+              "type": "integer",
+            },
+            "id": {
+              "format": "uuid",
+              "type": "string",
+            },
+          },
+          "required": [
+            "id",
+            "count",
+          ],
+          "type": "object",
+        },
+      },
+    },
+  },
+  "responses": {
+    "200": {
+      "content": {
+        "application/json": {
+          "example": {
+            "count": 1,
+            "id": "abc",
+          },
+          "schema": {
+            "properties": {
+              "count": {
+                "maximum": 10,
+                "minimum": 1,
+                "type": "integer",
+              },
+              "id": {
+                "format": "uuid",
+                "type": "string",
+              },
+            },
+            "required": [
+              "id",
+              "count",
+            ],
+            "type": "object",
+          },
+        },
+      },
+      "description": "200 OK",
+    },
+  },
+}
+`);
+  });
+});
@@ -0,0 +1,237 @@
+import '../entries/extend';
+import { z } from 'zod';
+
+import type { Diagnostic } from './diagnostics';
+import {
+  type ZodOpenApiObject,
+  type ZodOpenApiOperationObject,
+  type ZodOpenApiResponseObject,
+  createDocument,
+} from './document';
+import { defineLink, resolvesJsonPointer, validateLinks } from './links';
+
+const Job = z.object({
+  id: z.string(),
+  owner: z.object({ id: z.string() }),
+  tags: z.array(z.object({ name: z.string() })),
+});
+
+const getJob = {
+  operationId: 'getJob',
+  requestParams: {
+    path: z.object({ id: z.string() }),
+    query: z.object({ expand: z.boolean().optional() }),
+  },
+  responses: {
+    '200': {
+      description: '200 OK',
+      content: { 'application/json': { schema: Job } },
+    },
+  },
+} satisfies ZodOpenApiOperationObject;
+
+const createJobDocument = (
+  links: ZodOpenApiResponseObject['links'],
+  components?: ZodOpenApiObject['components'],
+): ZodOpenApiObject => ({
+  openapi: '3.1.0',
+  info: { title: 'My API', version: '1.0.0' },
+  paths: {
+    '/jobs/{id}': { get: getJob },
+    '/jobs': {
+      post: {
+        responses: {
+          '201': {
+            description: '201 Created',
+            content: { 'application/json': { schema: Job } },
+            links,
+          },
+        },
+      },
+    },
+  },
+  components,
+});
+
+describe('defineLink', () => {
+  it('creates a link to the operation', () => {
+    expect(
+      defineLink(getJob, {
+        parameters: { 'path.id': '$response.body#/id', expand: true },
+      }),
+    ).toEqual({
+      operationId: 'getJob',
+      parameters: { 'path.id': '$response.body#/id', expand: true },
+    });
+  });
+
+  it('only accepts parameters declared by the operation', () => {
+    defineLink(getJob, {
+      // @ts-expect-error the operation does not declare a name parameter
+      parameters: { name: '$response.body#/id' },
+    });
+  });
+});
+
+describe('links', () => {
+  it('creates links and registers them as components', () => {
+    const GetJob = defineLink(getJob, {
+      ref: 'GetJob',
+      parameters: { id: '$response.body#/id' },
+    });
+
+    const document = createDocument(
+      createJobDocument(
+        {
+          GetJob,
+          GetOwner: {
+            operationId: 'getJob',
+            parameters: { id: '$response.body#/owner/id' },
+          },
+          GetTag: { $ref: '#/components/links/GetTag' },
+        },
+        {
+          links: {
+            GetTag: {
+              operationId: 'getJob',
+              parameters: { id: '$response.body#/tags/0/name' },
+            },
+          },
+        },
+      ),
+    );
+
+    expect(document.paths?.['/jobs']?.post?.responses?.['201']).toEqual({
+      description: '201 Created',
+      content: expect.any(Object),
+      links: {
+        GetJob: { $ref: '#/components/links/GetJob' },
+        GetOwner: {
+          operationId: 'getJob',
+          parameters: { id: '$response.body#/owner/id' },
+        },
+        GetTag: { $ref: '#/components/links/GetTag' },
+      },
+    });
+    expect(document.components?.links).toEqual({
+      GetJob: {
+        operationId: 'getJob',
+        parameters: { id: '$response.body#/id' },
+      },
+      GetTag: {
+        operationId: 'getJob',
+        parameters: { id: '$response.body#/tags/0/name' },
+      },
+    });
+  });
+
+  it('throws an error when the operationId does not exist', () => {
+    expect(() =>
+      createDocument(createJobDocument({ GetJob: { operationId: 'getJobs' } })),
+    ).toThrow(
+      'Link operationId "getJobs" does not match an operation at /jobs > post > responses > 201 > links > GetJob',
+    );
+  });
+
+  it('throws an error when a parameter is not declared by the operation', () => {
+    expect(() =>
+      createDocument(
+        createJobDocument({
+          GetJob: {
+            operationId: 'getJob',
+            parameters: { 'query.id': '$response.body#/id' },
+          },
+        }),
+      ),
+    ).toThrow(
+      'Link parameter "query.id" is not declared by operation "getJob" at /jobs > post > responses > 201 > links > GetJob > parameters',
+    );
+  });
+
+  it('throws an error when a response body pointer does not resolve', () => {
+    expect(() =>
+      createDocument(
+        createJobDocument({
+          GetJob: {
+            operationId: 'getJob',
+            parameters: { id: '$response.body#/owner/name' },
+          },
+        }),
+      ),
+    ).toThrow(
+      'Link expression "$response.body#/owner/name" does not resolve against the response schema at /jobs > post > responses > 201 > links > GetJob',
+    );
+  });
+
+  it('checks links registered as components', () => {
+    expect(() =>
+      createDocument(
+        createJobDocument(undefined, {
+          links: { GetJob: { operationId: 'getJob', parameters: { job: 1 } } },
+        }),
+      ),
+    ).toThrow(
+      'Link parameter "job" is not declared by operation "getJob" at components > links > GetJob > parameters',
+    );
+  });
+});
+
+describe('validateLinks', () => {
+  it('checks links against the operations it is given', () => {
+    const diagnostics: Diagnostic[] = [];
+    const { paths } = createJobDocument({
+      GetJob: {
+        operationId: 'getJob',
+        parameters: { 'header.x-request-id': '$request.header.x-request-id' },
+      },
+    });
+
+    validateLinks(
+      {
+        paths: {
+          ...paths,
+          '/jobs/{id}': {
+            get: {
+              ...getJob,
+              requestParams: {
+                ...getJob.requestParams,
+                header: z.object({ 'x-request-id': z.string() }),
+              },
+            },
+          },
+        },
+      },
+      diagnostics,
+    );
+
+    expect(diagnostics).toEqual([]);
+
+    validateLinks({ paths }, diagnostics);
+
+    expect(diagnostics).toEqual([
+      expect.objectContaining({
+        code: 'invalid-link',
+        message:
+          'Link parameter "header.x-request-id" is not declared by operation "getJob" at /jobs > post > responses > 201 > links > GetJob > parameters',
+      }),
+    ]);
+  });
+});
+
+describe('resolvesJsonPointer', () => {
+  it('resolves pointers through wrapped, union and record types', () => {
+    const schema = z
+      .object({
+        'a/b': z.string(),
+        items: z.record(z.tuple([z.string(), z.number()])).optional(),
+        value: z.union([z.object({ left: z.string() }), z.unknown()]),
+      })
+      .nullable();
+
+    expect(resolvesJsonPointer(schema, ['a/b'])).toBe(true);
+    expect(resolvesJsonPointer(schema, ['items', 'key', '1'])).toBe(true);
+    expect(resolvesJsonPointer(schema, ['items', 'key', '2'])).toBe(false);
+    expect(resolvesJsonPointer(schema, ['value', 'anything'])).toBe(true);
+    expect(resolvesJsonPointer(schema, ['missing'])).toBe(false);
+  });
+});
@@ -0,0 +1,527 @@
+import type { ZodRawShape, ZodType, z } from 'zod';
+
+import { HTTP_METHODS } from '../openapi';
+import type { oas30, oas31 } from '../openapi3-ts/dist';
+import { isAnyZodType, isZodType } from '../zodType';
+
+import type { ComponentsObject } from './components';
+import { type Diagnostic, reportDiagnostic } from './diagnostics';
+import type {
+  ZodOpenApiComponentsObject,
+  ZodOpenApiLinkObject,
+  ZodOpenApiObject,
+  ZodOpenApiOperationObject,
+  ZodOpenApiParameters,
+  ZodOpenApiPathItemObject,
+  ZodOpenApiPathsObject,
+  ZodOpenApiResponseObject,
+} from './document';
+import { getZodObject } from './parameters';
+import { isISpecificationExtension } from './specificationExtension';
+
+const PARAMETER_LOCATIONS = ['path', 'query', 'header', 'cookie'] as const;
+
+const COMPONENT_LINK_PREFIX = '#/components/links/';
+const COMPONENT_PARAMETER_PREFIX = '#/components/parameters/';
+
+export const createComponentLinkRef = (linkRef: string) =>
+  `${COMPONENT_LINK_PREFIX}${linkRef}`;
+
+export const createLinkOrRef = (
+  linkObject:
+    | ZodOpenApiLinkObject
+    | oas31.ReferenceObject
+    | oas30.ReferenceObject,
+  components: ComponentsObject,
+): oas31.LinkObject | oas31.ReferenceObject => {
+  if ('$ref' in linkObject) {
+    return linkObject;
+  }
+
+  const component = components.links.get(linkObject);
+  if (component && component.type === 'complete') {
+    return { $ref: createComponentLinkRef(component.ref) };
+  }
+
+  const { ref, ...link } = linkObject;
+  const linkRef = ref ?? component?.ref;
+
+  if (linkRef) {
+    components.links.set(linkObject, {
+      type: 'complete',
+      ref: linkRef,
+      linkObject: link,
+    });
+    return { $ref: createComponentLinkRef(linkRef) };
+  }
+
+  return link;
+};
+
+export const createLinks = (
+  links: NonNullable<ZodOpenApiResponseObject['links']>,
+  components: ComponentsObject,
+): oas31.ResponseObject['links'] =>
+  Object.fromEntries(
+    Object.entries(links).map(([name, linkObject]) => [
+      name,
+      createLinkOrRef(linkObject, components),
+    ]),
+  );
+
+type ParameterLocation = keyof ZodOpenApiParameters;
+
+type RequestParamNames<Operation> = Operation extends {
+  requestParams?: infer Params;
+}
+  ? {
+      [Location in keyof NonNullable<Params> & ParameterLocation]: NonNullable<
+        NonNullable<Params>[Location]
+      > extends ZodType
+        ?
+            | (keyof z.input<NonNullable<NonNullable<Params>[Location]>> &
+                string)
+            | `${Location}.${keyof z.input<
+                NonNullable<NonNullable<Params>[Location]>
+              > &
+                string}`
+        : never;
+    }[keyof NonNullable<Params> & ParameterLocation]
+  : never;
+
+export type DefineLinkObject<Operation> = Omit<
+  ZodOpenApiLinkObject,
+  'operationId' | 'operationRef' | 'parameters'
+> & {
+  /** Keyed by the names in the `requestParams` of the target operation, optionally prefixed with the location eg. `path.id` */
+  parameters?: { [Name in RequestParamNames<Operation>]?: unknown };
+};
+
+/**
+ * Creates a link to an operation. The `parameters` are type checked against the `requestParams` of the operation.
+ */
+export const defineLink = <
+  const Operation extends ZodOpenApiOperationObject & { operationId: string },
+>(
+  operation: Operation,
+  link: DefineLinkObject<Operation>,
+): ZodOpenApiLinkObject => ({
+  ...link,
+  operationId: operation.operationId,
+});
+
+interface LinkTarget {
+  pathItem: ZodOpenApiPathItemObject;
+  operation: ZodOpenApiOperationObject;
+}
+
+interface DeclaredParameter {
+  in: string;
+  name: string;
+}
+
+type Parameters = NonNullable<ZodOpenApiOperationObject['parameters']>;
+
+const getCallbackPaths = (
+  callback: NonNullable<ZodOpenApiOperationObject['callbacks']>[string],
+): ZodOpenApiPathsObject =>
+  Object.fromEntries(
+    Object.entries(callback).filter(
+      ([key, value]) =>
+        !isISpecificationExtension(key) &&
+        typeof value === 'object' &&
+        value !== null,
+    ),
+  ) as ZodOpenApiPathsObject;
+
+const forEachOperation = (
+  paths: ZodOpenApiPathsObject | undefined,
+  subpath: string[],
+  callback: (target: LinkTarget, subpath: string[]) => void,
+) =>
+  Object.entries(paths ?? {}).forEach(([path, pathItem]) => {
+    if (isISpecificationExtension(path)) {
+      return;
+    }
+    HTTP_METHODS.forEach((method) => {
+      const operation = pathItem[method];
+      if (!operation) {
+        return;
+      }
+      callback({ pathItem, operation }, [...subpath, path, method]);
+      Object.entries(operation.callbacks ?? {}).forEach(
+        ([name, callbackObject]) =>
+          forEachOperation(
+            getCallbackPaths(callbackObject),
+            [...subpath, path, method, 'callbacks', name],
+            callback,
+          ),
+      );
+    });
+  });
+
+const getParameterObject = (
+  parameter: Parameters[number],
+  components: ZodOpenApiComponentsObject | undefined,
+): Parameters[number] | undefined => {
+  if (isAnyZodType(parameter) || !('$ref' in parameter)) {
+    return parameter;
+  }
+  if (!parameter.$ref.startsWith(COMPONENT_PARAMETER_PREFIX)) {
+    return undefined;
+  }
+  const component =
+    components?.parameters?.[
+      parameter.$ref.slice(COMPONENT_PARAMETER_PREFIX.length)
+    ];
+  return component && (isAnyZodType(component) || !('$ref' in component))
+    ? component
+    : undefined;
+};
+
+/**
+ * Returns the parameters declared by an operation or path item or `undefined` when a parameter cannot be resolved
+ */
+const getDeclaredParameters = (
+  source: Pick<ZodOpenApiOperationObject, 'parameters' | 'requestParams'>,
+  components: ZodOpenApiComponentsObject | undefined,
+): DeclaredParameter[] | undefined => {
+  const declared: DeclaredParameter[] = PARAMETER_LOCATIONS.flatMap(
+    (location) => {
+      const zodObjectType = source.requestParams?.[location];
+      return zodObjectType
+        ? Object.keys(
+            getZodObject(zodObjectType, 'input').shape as ZodRawShape,
+          ).map((name) => ({ in: location, name }))
+        : [];
+    },
+  );
+
+  for (const parameter of source.parameters ?? []) {
+    const parameterObject = getParameterObject(parameter, components);
+    if (!parameterObject) {
+      return undefined;
+    }
+    const param = isAnyZodType(parameterObject)
+      ? parameterObject._def.openapi?.param
+      : (parameterObject as oas31.ParameterObject);
+    if (param?.in && param.name) {
+      declared.push({ in: param.in, name: param.name });
+    }
+  }
+
+  return declared;
+};
+
+const isParameterDeclared = (
+  key: string,
+  declared: DeclaredParameter[],
+): boolean => {
+  const [location, ...rest] = key.split('.');
+  const isQualified =
+    rest.length > 0 &&
+    PARAMETER_LOCATIONS.some(
+      (parameterLocation) => parameterLocation === location,
+    );
+  const name = isQualified ? rest.join('.') : key;
+
+  return declared.some(
+    (parameter) =>
+      parameter.name === name && (!isQualified || parameter.in === location),
+  );
+};
+
+/**
+ * Checks whether a JSON pointer resolves against a Zod schema
+ */
+export const resolvesJsonPointer = (
+  zodType: ZodType,
+  segments: string[],
+): boolean => {
+  const [segment, ...rest] = segments;
+  if (segment === undefined || zodType._def.openapi?.type) {
+    return true;
+  }
+
+  if (isZodType(zodType, 'ZodObject')) {
+    const property = zodType.shape[segment];
+    if (property) {
+      return resolvesJsonPointer(property as ZodType, rest);
+    }
+    const catchall = zodType._def.catchall as ZodType;
+    return (
+      !isZodType(catchall, 'ZodNever') && resolvesJsonPointer(catchall, rest)
+    );
+  }
+
+  if (isZodType(zodType, 'ZodArray') || isZodType(zodType, 'ZodSet')) {
+    return (
+      /^\d+$/.test(segment) &&
+      resolvesJsonPointer(
+        (isZodType(zodType, 'ZodArray')
+          ? zodType._def.type
+          : zodType._def.valueType) as ZodType,
+        rest,
+      )
+    );
+  }
+
+  if (isZodType(zodType, 'ZodTuple')) {
+    const item =
+      (zodType._def.items as ZodType[])[Number(segment)] ??
+      (zodType._def.rest as ZodType | null);
+    return (
+      /^\d+$/.test(segment) &&
+      item !== undefined &&
+      item !== null &&
+      resolvesJsonPointer(item, rest)
+    );
+  }
+
+  if (isZodType(zodType, 'ZodRecord') || isZodType(zodType, 'ZodMap')) {
+    return resolvesJsonPointer(zodType._def.valueType as ZodType, rest);
+  }
+
+  if (
+    isZodType(zodType, 'ZodOptional') ||
+    isZodType(zodType, 'ZodNullable') ||
+    isZodType(zodType, 'ZodDefault') ||
+    isZodType(zodType, 'ZodReadonly') ||
+    isZodType(zodType, 'ZodCatch')
+  ) {
+    return resolvesJsonPointer(zodType._def.innerType as ZodType, segments);
+  }
+
+  if (isZodType(zodType, 'ZodBranded')) {
+    return resolvesJsonPointer(zodType._def.type as ZodType, segments);
+  }
+
+  if (isZodType(zodType, 'ZodLazy')) {
+    return resolvesJsonPointer(zodType._def.getter() as ZodType, segments);
+  }
+
+  if (isZodType(zodType, 'ZodPipeline')) {
+    return resolvesJsonPointer(zodType._def.out as ZodType, segments);
+  }
+
+  if (isZodType(zodType, 'ZodEffects')) {
+    // The output of a transform is unknown
+    return (
+      zodType._def.effect.type === 'transform' ||
+      resolvesJsonPointer(zodType._def.schema as ZodType, segments)
+    );
+  }
+
+  if (
+    isZodType(zodType, 'ZodUnion') ||
+    isZodType(zodType, 'ZodDiscriminatedUnion')
+  ) {
+    return (zodType._def.options as ZodType[]).some((option) =>
+      resolvesJsonPointer(option, segments),
+    );
+  }
+
+  if (isZodType(zodType, 'ZodIntersection')) {
+    return (
+      resolvesJsonPointer(zodType._def.left as ZodType, segments) ||
+      resolvesJsonPointer(zodType._def.right as ZodType, segments)
+    );
+  }
+
+  return isZodType(zodType, 'ZodUnknown') || isZodType(zodType, 'ZodAny');
+};
+
+const RESPONSE_BODY_EXPRESSION = /\$response\.body(#[^}\s]*)?/g;
+
+const getResponseBodyPointers = (value: unknown): string[] => {
+  if (typeof value === 'string') {
+    return Array.from(
+      value.matchAll(RESPONSE_BODY_EXPRESSION),
+      (match) => match[1] ?? '',
+    );
+  }
+  if (typeof value === 'object' && value !== null) {
+    return Object.values(value).flatMap(getResponseBodyPointers);
+  }
+  return [];
+};
+
+const parseJsonPointer = (fragment: string): string[] | undefined => {
+  const pointer = fragment.replace(/^#/, '');
+  if (!pointer) {
+    return [];
+  }
+  if (!pointer.startsWith('/')) {
+    return undefined;
+  }
+  return pointer
+    .slice(1)
+    .split('/')
+    .map((segment) => segment.replace(/~1/g, '/').replace(/~0/g, '~'));
+};
+
+const getResponseSchemas = (
+  response: ZodOpenApiResponseObject | undefined,
+): ZodType[] =>
+  Object.values(response?.content ?? {}).flatMap((mediaTypeObject) =>
+    isAnyZodType(mediaTypeObject?.schema) ? [mediaTypeObject.schema] : [],
+  );
+
+interface LinkContext {
+  targets: Map<string, LinkTarget>;
+  components: ZodOpenApiComponentsObject | undefined;
+  diagnostics: Diagnostic[] | undefined;
+}
+
+const reportLinkError = (
+  context: LinkContext,
+  message: string,
+  subpath: string[],
+) =>
+  reportDiagnostic(context.diagnostics, {
+    severity: 'error',
+    code: 'invalid-link',
+    message: `${message} at ${subpath.join(' > ')}`,
+    subpath,
+  });
+
+const validateLink = (
+  linkObject: ZodOpenApiLinkObject,
+  response: ZodOpenApiResponseObject | undefined,
+  context: LinkContext,
+  subpath: string[],
+) => {
+  if (linkObject.operationId === undefined) {
+    return;
+  }
+
+  const target = context.targets.get(linkObject.operationId);
+  if (!target) {
+    reportLinkError(
+      context,
+      `Link operationId "${linkObject.operationId}" does not match an operation`,
+      subpath,
+    );
+    return;
+  }
+
+  const pathItemParameters = getDeclaredParameters(
+    target.pathItem,
+    context.components,
+  );
+  const operationParameters = getDeclaredParameters(
+    target.operation,
+    context.components,
+  );
+  if (pathItemParameters && operationParameters) {
+    const declared = [...pathItemParameters, ...operationParameters];
+    Object.keys(linkObject.parameters ?? {})
+      .filter((parameter) => !isParameterDeclared(parameter, declared))
+      .forEach((key) =>
+        reportLinkError(
+          context,
+          `Link parameter "${key}" is not declared by operation "${linkObject.operationId}"`,
+          [...subpath, 'parameters'],
+        ),
+      );
+  }
+
+  const schemas = getResponseSchemas(response);
+  if (!schemas.length) {
+    return;
+  }
+
+  getResponseBodyPointers([linkObject.parameters, linkObject.requestBody])
+    .filter((fragment) => {
+      const segments = parseJsonPointer(fragment);
+      return (
+        !segments ||
+        !schemas.some((schema) => resolvesJsonPointer(schema, segments))
+      );
+    })
+    .forEach((fragment) =>
+      reportLinkError(
+        context,
+        `Link expression "$response.body${fragment}" does not resolve against the response schema`,
+        subpath,
+      ),
+    );
+};
+
+const getLinkObject = (
+  linkObject: NonNullable<ZodOpenApiResponseObject['links']>[string],
+  components: ZodOpenApiComponentsObject | undefined,
+): ZodOpenApiLinkObject | undefined => {
+  if (!('$ref' in linkObject)) {
+    return linkObject;
+  }
+  return Object.entries(components?.links ?? {}).find(
+    ([key, link]) =>
+      createComponentLinkRef(link.ref ?? key) === linkObject.$ref,
+  )?.[1];
+};
+
+const validateResponseLinks = (
+  response: ZodOpenApiResponseObject,
+  context: LinkContext,
+  subpath: string[],
+) =>
+  Object.entries(response.links ?? {}).forEach(([name, link]) => {
+    const linkObject = getLinkObject(link, context.components);
+    if (linkObject) {
+      validateLink(linkObject, response, context, [...subpath, 'links', name]);
+    }
+  });
+
+/**
+ * The operations which links are checked against. These should be the operations which are rendered, after the
+ * `operationDefaults` and `transformOperation` options are applied, as they may add operationIds and parameters.
+ */
+export type LinkOperations = Pick<
+  ZodOpenApiObject,
+  'paths' | 'webhooks' | 'components'
+>;
+
+/**
+ * Checks that links target an operation in the document, only pass parameters which the operation declares and that
+ * `$response.body` JSON pointers resolve against the Zod schema of the response
+ */
+export const validateLinks = (
+  { paths, webhooks, components }: LinkOperations,
+  diagnostics?: Diagnostic[],
+): void => {
+  const targets = new Map<string, LinkTarget>();
+  const addTarget = (target: LinkTarget) => {
+    if (target.operation.operationId) {
+      targets.set(target.operation.operationId, target);
+    }
+  };
+  forEachOperation(paths, [], addTarget);
+  forEachOperation(webhooks, ['webhooks'], addTarget);
+
+  const context: LinkContext = { targets, components, diagnostics };
+
+  const validateOperationLinks = (target: LinkTarget, subpath: string[]) =>
+    Object.entries(target.operation.responses).forEach(([status, response]) => {
+      if (
+        !isISpecificationExtension(status) &&
+        response &&
+        !('$ref' in response)
+      ) {
+        validateResponseLinks(response as ZodOpenApiResponseObject, context, [
+          ...subpath,
+          'responses',
+          status,
+        ]);
+      }
+    });
+  forEachOperation(paths, [], validateOperationLinks);
+  forEachOperation(webhooks, ['webhooks'], validateOperationLinks);
+
+  Object.entries(components?.responses ?? {}).forEach(([key, response]) =>
+    validateResponseLinks(response, context, ['components', 'responses', key]),
+  );
+  Object.entries(components?.links ?? {}).forEach(([key, link]) =>
+    validateLink(link, undefined, context, ['components', 'links', key]),
+  );
+};
@@ -0,0 +1,211 @@
+import '../entries/extend';
+import { z } from 'zod';
+
+import {
+  type ZodOpenApiObject,
+  type ZodOpenApiOperationObject,
+  createDocument,
+} from './document';
+import type { ZodOpenApiOperationDefaults } from './operationDefaults';
+
+const operationDefaults: ZodOpenApiOperationDefaults = {
+  responses: {
+    '401': { description: '401 Unauthorized' },
+    '500': { description: '500 Internal Server Error' },
+  },
+  parameters: [
+    z.string().openapi({ param: { in: 'header', name: 'x-request-id' } }),
+  ],
+  security: [{ bearer: [] }],
+  tags: ['jobs'],
+};
+
+const zodOpenApiObject: ZodOpenApiObject = {
+  openapi: '3.1.0',
+  info: { title: 'My API', version: '1.0.0' },
+  paths: {
+    '/jobs': {
+      get: {
+        tags: ['search'],
+        responses: {
+          '200': { description: '200 OK' },
+          '500': { description: 'Search is unavailable' },
+        },
+      },
+      post: {
+        requestParams: {
+          header: z.object({ 'x-request-id': z.string().uuid() }),
+        },
+        security: [],
+        responses: { '201': { description: '201 Created' } },
+      },
+    },
+    '/health': {
+      get: {
+        operationDefaults: false,
+        responses: { '200': { description: '200 OK' } },
+      },
+    },
+    '/jobs/latest': {
+      get: {
+        operationDefaults: { security: false, responses: false },
+        responses: { '200': { description: '200 OK' } },
+      },
+    },
+  },
+  components: {
+    securitySchemes: { bearer: { type: 'http', scheme: 'bearer' } },
+  },
+};
+
+const requestIdParameter = {
+  in: 'header',
+  name: 'x-request-id',
+  required: true,
+  schema: { type: 'string' },
+};
+
+describe('operationDefaults', () => {
+  it('merges the defaults into each operation', () => {
+    const document = createDocument(zodOpenApiObject, { operationDefaults });
+
+    expect(document.paths).toEqual({
+      '/jobs': {
+        get: {
+          tags: ['search', 'jobs'],
+          parameters: [requestIdParameter],
+          security: [{ bearer: [] }],
+          responses: {
+            '200': { description: '200 OK' },
+            '401': { description: '401 Unauthorized' },
+            '500': { description: 'Search is unavailable' },
+          },
+        },
+        post: {
+          tags: ['jobs'],
+          parameters: [
+            {
+              ...requestIdParameter,
+              schema: { type: 'string', format: 'uuid' },
+            },
+          ],
+          security: [],
+          responses: {
+            '201': { description: '201 Created' },
+            '401': { description: '401 Unauthorized' },
+            '500': { description: '500 Internal Server Error' },
+          },
+        },
+      },
+      '/health': {
+        get: {
+          responses: { '200': { description: '200 OK' } },
+        },
+      },
+      '/jobs/latest': {
+        get: {
+          tags: ['jobs'],
+          parameters: [requestIdParameter],
+          responses: { '200': { description: '200 OK' } },
+        },
+      },
+    });
+  });
+});
+
+describe('transformOperation', () => {
+  it('transforms each operation after the defaults are merged', () => {
+    const document = createDocument(
+      {
+        openapi: '3.1.0',
+        info: { title: 'My API', version: '1.0.0' },
+        paths: {
+          '/jobs/:id': {
+            get: {
+              requestParams: { path: z.object({ id: z.string() }) },
+              responses: { '200': { description: '200 OK' } },
+            },
+          },
+        },
+      },
+      {
+        convertExpressPaths: true,
+        operationDefaults: { tags: ['jobs'] },
+        transformOperation: (operation, { path, method }) => ({
+          ...operation,
+          operationId: `${method} ${path}`,
+        }),
+      },
+    );
+
+    expect(document.paths?.['/jobs/{id}']?.get).toEqual({
+      operationId: 'get /jobs/{id}',
+      tags: ['jobs'],
+      parameters: [
+        { in: 'path', name: 'id', required: true, schema: { type: 'string' } },
+      ],
+      responses: { '200': { description: '200 OK' } },
+    });
+  });
+});
+
+describe('links', () => {
+  const createLinkedDocument = (
+    getB: ZodOpenApiOperationObject,
+  ): ZodOpenApiObject => ({
+    openapi: '3.1.0',
+    info: { title: 'My API', version: '1.0.0' },
+    paths: {
+      '/a': {
+        get: {
+          responses: {
+            '200': {
+              description: '200 OK',
+              links: {
+                GetB: {
+                  operationId: 'getB',
+                  parameters: {
+                    'x-request-id': '$request.header.x-request-id',
+                  },
+                },
+              },
+            },
+          },
+        },
+      },
+      '/b': { get: getB },
+    },
+    components: zodOpenApiObject.components,
+  });
+
+  it('checks links against parameters added by the operation defaults', () => {
+    expect(() =>
+      createDocument(
+        createLinkedDocument({
+          operationId: 'getB',
+          responses: { '200': { description: '200 OK' } },
+        }),
+        { operationDefaults },
+      ),
+    ).not.toThrow();
+  });
+
+  it('checks links against operationIds added by transformOperation', () => {
+    expect(() =>
+      createDocument(
+        createLinkedDocument({
+          requestParams: {
+            header: z.object({ 'x-request-id': z.string() }),
+          },
+          responses: { '200': { description: '200 OK' } },
+        }),
+        {
+          transformOperation: (operation, { path, method }) => ({
+            ...operation,
+            operationId: `${method}${path.slice(1).toUpperCase()}`,
+          }),
+        },
+      ),
+    ).not.toThrow();
+  });
+});
@@ -0,0 +1,154 @@
+import type { ZodRawShape } from 'zod';
+
+import { HTTP_METHODS, type HttpMethod } from '../openapi';
+import { isAnyZodType } from '../zodType';
+
+import type {
+  CreateDocumentOptions,
+  ZodOpenApiOperationObject,
+  ZodOpenApiPathItemObject,
+  ZodOpenApiResponsesObject,
+} from './document';
+import { getZodObject } from './parameters';
+
+export type OperationMethod = HttpMethod;
+
+export interface ZodOpenApiOperationDefaults {
+  /** Merged into the responses of each operation. Status codes declared by the operation win */
+  responses?: Partial<ZodOpenApiResponsesObject>;
+  /** Added to each operation which does not declare a parameter with the same `in` and `name` */
+  parameters?: ZodOpenApiOperationObject['parameters'];
+  /** Used by each operation which does not declare its own `security` */
+  security?: ZodOpenApiOperationObject['security'];
+  /** Appended to the tags of each operation */
+  tags?: string[];
+}
+
+/**
+ * Set to `false` to skip every operation default or eg. `{ security: false }` to skip a single default
+ */
+export type OperationDefaultsOptOut =
+  | false
+  | Partial<Record<keyof ZodOpenApiOperationDefaults, false>>;
+
+export interface TransformOperationContext {
+  path: string;
+  method: OperationMethod;
+}
+
+export type TransformOperation = (
+  operation: ZodOpenApiOperationObject,
+  context: TransformOperationContext,
+) => ZodOpenApiOperationObject;
+
+type Parameter = NonNullable<ZodOpenApiOperationObject['parameters']>[number];
+
+const getParameterKey = (parameter: Parameter): string | undefined => {
+  if (isAnyZodType(parameter)) {
+    const param = parameter._def.openapi?.param;
+    return param?.in && param.name ? `${param.in}:${param.name}` : undefined;
+  }
+  if ('$ref' in parameter) {
+    return parameter.$ref;
+  }
+  return `${parameter.in}:${parameter.name}`;
+};
+
+const getOperationParameterKeys = (
+  operation: ZodOpenApiOperationObject,
+): Set<string> => {
+  const keys = new Set<string>();
+  (operation.parameters ?? []).forEach((parameter) => {
+    const key = getParameterKey(parameter);
+    if (key) {
+      keys.add(key);
+    }
+  });
+  Object.entries(operation.requestParams ?? {}).forEach(
+    ([location, zodObjectType]) => {
+      if (!zodObjectType) {
+        return;
+      }
+      Object.keys(
+        getZodObject(zodObjectType, 'input').shape as ZodRawShape,
+      ).forEach((name) => keys.add(`${location}:${name}`));
+    },
+  );
+  return keys;
+};
+
+const mergeOperationDefaults = (
+  operation: ZodOpenApiOperationObject,
+  defaults: ZodOpenApiOperationDefaults,
+  optOut: Exclude<OperationDefaultsOptOut, false>,
+): ZodOpenApiOperationObject => {
+  const parameterKeys = getOperationParameterKeys(operation);
+  const parameters =
+    optOut.parameters === false
+      ? operation.parameters
+      : [
+          ...(operation.parameters ?? []),
+          ...(defaults.parameters ?? []).filter((parameter) => {
+            const key = getParameterKey(parameter);
+            return !key || !parameterKeys.has(key);
+          }),
+        ];
+  const tags =
+    optOut.tags === false || !defaults.tags
+      ? operation.tags
+      : [...new Set([...(operation.tags ?? []), ...defaults.tags])];
+  const security =
+    optOut.security === false
+      ? operation.security
+      : operation.security ?? defaults.security;
+
+  return {
+    ...operation,
+    ...(parameters?.length && { parameters }),
+    ...(tags && { tags }),
+    ...(security && { security }),
+    responses:
+      optOut.responses === false
+        ? operation.responses
+        : ({
+            ...defaults.responses,
+            ...operation.responses,
+          } as ZodOpenApiResponsesObject),
+  };
+};
+
+/**
+ * Applies the `operationDefaults` and `transformOperation` options to each operation in a path item
+ */
+export const applyOperationDefaults = (
+  pathItemObject: ZodOpenApiPathItemObject,
+  path: string,
+  documentOptions?: CreateDocumentOptions,
+): ZodOpenApiPathItemObject => {
+  const defaults = documentOptions?.operationDefaults;
+  const transformOperation = documentOptions?.transformOperation;
+  if (!defaults && !transformOperation) {
+    return pathItemObject;
+  }
+
+  return HTTP_METHODS.reduce<ZodOpenApiPathItemObject>(
+    (acc, method) => {
+      const operationObject = pathItemObject[method];
+      if (!operationObject) {
+        return acc;
+      }
+
+      const optOut = operationObject.operationDefaults ?? {};
+      const operation =
+        defaults && optOut !== false
+          ? mergeOperationDefaults(operationObject, defaults, optOut)
+          : operationObject;
+
+      acc[method] = transformOperation
+        ? transformOperation(operation, { path, method })
+        : operation;
+      return acc;
+    },
+    { ...pathItemObject },
+  );
+};
@@ -4,11 +4,13 @@ import type { oas30, oas31 } from '../openapi3-ts/dist';
 import { isAnyZodType, isZodType } from '../zodType';
 
 import type { ComponentsObject } from './components';
+import { reportInvalidParameter } from './diagnostics';
 import type {
   CreateDocumentOptions,
   ZodObjectInputType,
   ZodOpenApiParameters,
 } from './document';
+import { createExamples, validateExampleFields } from './examples';
 import { type SchemaState, createSchema } from './schema';
 import { isOptionalSchema } from './schema/parsers/optional';
 
@@ -21,7 +23,14 @@ export const createBaseParameter = (
   subpath: string[],
   documentOptions?: CreateDocumentOptions,
 ): oas31.BaseParameterObject => {
-  const { ref, ...rest } = schema._def.openapi?.param ?? {};
+  const { ref, examples, ...rest } = schema._def.openapi?.param ?? {};
+  validateExampleFields(
+    schema,
+    { example: rest.example, examples },
+    components,
+    subpath,
+  );
+  const createdExamples = createExamples(examples, components);
   const state: SchemaState = {
     components,
     type: 'input',
@@ -37,6 +46,7 @@ export const createBaseParameter = (
   return {
     ...(description && { description }),
     ...rest,
+    ...(createdExamples && { examples: createdExamples }),
     ...(schema && { schema: schemaObject }),
     ...(required && { required }),
   };
@@ -192,12 +202,27 @@ export const createManualParameters = (
   subpath: string[],
   documentOptions?: CreateDocumentOptions,
 ): Array<oas31.ParameterObject | oas31.ReferenceObject> =>
-  parameters?.map((param, index) => {
+  parameters?.flatMap((param, index) => {
     if (isAnyZodType(param)) {
+      const paramSubpath = [...subpath, `param index ${index}`];
+      const component = components.parameters.get(param);
+      const missing = !(param._def.openapi?.param?.in ?? component?.in)
+        ? 'type'
+        : !(param._def.openapi?.param?.name ?? component?.name) && 'name';
+      if (missing) {
+        reportInvalidParameter(
+          components,
+          `Parameter ${missing} missing`,
+          paramSubpath,
+          param,
+        );
+        return [];
+      }
+
       return createParamOrRef(
         param,
         components,
-        [...subpath, `param index ${index}`],
+        paramSubpath,
         undefined,
         undefined,
         documentOptions,
@@ -0,0 +1,144 @@
+import '../entries/extend';
+import { z } from 'zod';
+
+import type { Diagnostic } from './diagnostics';
+import { type ZodOpenApiPathsObject, createDocument } from './document';
+
+const createPathsDocument = (paths: ZodOpenApiPathsObject) => ({
+  openapi: '3.1.0' as const,
+  info: { title: 'My API', version: '1.0.0' },
+  paths,
+});
+
+const responses = { '200': { description: '200 OK' } };
+
+describe('pathParameterValidation', () => {
+  it('accepts path parameters declared on the path item, operation or a component', () => {
+    expect(() =>
+      createDocument(
+        {
+          ...createPathsDocument({
+            '/orgs/{orgId}/users/{userId}/{tab}': {
+              requestParams: { path: z.object({ orgId: z.string() }) },
+              get: {
+                requestParams: { path: z.object({ userId: z.string() }) },
+                parameters: [{ $ref: '#/components/parameters/tab' }],
+                responses,
+              },
+            },
+          }),
+          components: {
+            parameters: {
+              tab: {
+                in: 'path',
+                name: 'tab',
+                required: true,
+                schema: { type: 'string' },
+              },
+            },
+          },
+        },
+        { pathParameterValidation: 'error' },
+      ),
+    ).not.toThrow();
+  });
+
+  it('throws an error for a template variable which is not declared', () => {
+    expect(() =>
+      createDocument(
+        createPathsDocument({
+          '/users/{userId}': {
+            get: {
+              parameters: [
+                z.string().openapi({ param: { in: 'query', name: 'userId' } }),
+              ],
+              responses,
+            },
+          },
+        }),
+        { pathParameterValidation: 'error' },
+      ),
+    ).toThrow(
+      'Path parameter "userId" is not declared at /users/{userId} > get',
+    );
+  });
+
+  it('throws an error for a path parameter which is not in the template', () => {
+    expect(() =>
+      createDocument(
+        createPathsDocument({
+          '/users/{userId}': {
+            requestParams: { path: z.object({ userId: z.string() }) },
+            get: {
+              requestParams: { path: z.object({ id: z.string() }) },
+              responses,
+            },
+          },
+        }),
+        { pathParameterValidation: 'error' },
+      ),
+    ).toThrow(
+      'Path parameter "id" is not in the path template at /users/{userId} > get > parameters',
+    );
+  });
+
+  it('warns when set to warn', () => {
+    const onDiagnostic = jest.fn();
+
+    createDocument(
+      createPathsDocument({
+        '/users/{userId}': {
+          requestParams: { path: z.object({ id: z.string() }) },
+        },
+      }),
+      { pathParameterValidation: 'warn', onDiagnostic },
+    );
+
+    expect(
+      onDiagnostic.mock.calls.map(([diagnostic]) => diagnostic as Diagnostic),
+    ).toEqual([
+      {
+        severity: 'warning',
+        code: 'path-parameter',
+        message:
+          'Path parameter "id" is not in the path template at /users/{userId} > parameters',
+        subpath: ['/users/{userId}', 'parameters'],
+      },
+      {
+        severity: 'warning',
+        code: 'path-parameter',
+        message: 'Path parameter "userId" is not declared at /users/{userId}',
+        subpath: ['/users/{userId}'],
+      },
+    ]);
+  });
+
+  it('skips the check by default', () => {
+    const onDiagnostic = jest.fn();
+
+    createDocument(
+      createPathsDocument({
+        '/users/{userId}': { get: { responses } },
+      }),
+      { onDiagnostic },
+    );
+
+    expect(onDiagnostic).not.toHaveBeenCalled();
+  });
+
+  it('skips parameters which cannot be resolved', () => {
+    expect(() =>
+      createDocument(
+        createPathsDocument({
+          '/users/{userId}': {
+            get: {
+              parameters: [{ $ref: 'common.yaml#/parameters/userId' }],
+              responses,
+            },
+          },
+        }),
+        { pathParameterValidation: 'error' },
+      ),
+    ).not.toThrow();
+  });
+});
@@ -0,0 +1,138 @@
+import { HTTP_METHODS } from '../openapi';
+import type { oas31 } from '../openapi3-ts/dist';
+
+import { type Diagnostic, reportDiagnostic } from './diagnostics';
+import type { CreateDocumentOptions } from './document';
+import { isISpecificationExtension } from './specificationExtension';
+
+const COMPONENT_PARAMETER_PREFIX = '#/components/parameters/';
+
+type PathParameterIssue = Pick<Diagnostic, 'message' | 'subpath'>;
+
+/**
+ * Returns the names of the path parameters declared in a parameters array or `undefined` when a parameter cannot be
+ * resolved eg. an external reference.
+ */
+const getPathParameterNames = (
+  parameters: oas31.PathItemObject['parameters'],
+  components: oas31.ComponentsObject | undefined,
+): string[] | undefined => {
+  const names: string[] = [];
+  for (const parameter of parameters ?? []) {
+    const parameterObject =
+      '$ref' in parameter
+        ? components?.parameters?.[
+            parameter.$ref.replace(COMPONENT_PARAMETER_PREFIX, '')
+          ]
+        : parameter;
+    if (!parameterObject || '$ref' in parameterObject) {
+      return undefined;
+    }
+    if (parameterObject.in === 'path') {
+      names.push(parameterObject.name);
+    }
+  }
+  return names;
+};
+
+const getTemplateNames = (path: string) =>
+  Array.from(path.matchAll(/\{([^}]+)\}/g), (match) => match[1] as string);
+
+const getUndeclaredIssues = (
+  templateNames: string[],
+  declaredNames: string[] | undefined,
+  subpath: string[],
+): PathParameterIssue[] =>
+  declaredNames
+    ? templateNames
+        .filter((name) => !declaredNames.includes(name))
+        .map((name) => ({
+          message: `Path parameter "${name}" is not declared at ${subpath.join(' > ')}`,
+          subpath,
+        }))
+    : [];
+
+const getUnusedIssues = (
+  templateNames: string[],
+  declaredNames: string[] | undefined,
+  subpath: string[],
+): PathParameterIssue[] =>
+  (declaredNames ?? [])
+    .filter((name) => !templateNames.includes(name))
+    .map((name) => ({
+      message: `Path parameter "${name}" is not in the path template at ${subpath.join(' > ')}`,
+      subpath,
+    }));
+
+const getPathItemIssues = (
+  path: string,
+  pathItem: oas31.PathItemObject,
+  components: oas31.ComponentsObject | undefined,
+): PathParameterIssue[] => {
+  const templateNames = getTemplateNames(path);
+  const pathItemNames = getPathParameterNames(pathItem.parameters, components);
+  const methods = HTTP_METHODS.filter((method) => pathItem[method]);
+
+  const issues = getUnusedIssues(templateNames, pathItemNames, [
+    path,
+    'parameters',
+  ]);
+
+  if (!methods.length) {
+    return [
+      ...issues,
+      ...getUndeclaredIssues(templateNames, pathItemNames, [path]),
+    ];
+  }
+
+  return methods.reduce((acc, method) => {
+    const operationNames = getPathParameterNames(
+      pathItem[method]?.parameters,
+      components,
+    );
+    const declaredNames =
+      pathItemNames && operationNames
+        ? [...pathItemNames, ...operationNames]
+        : undefined;
+
+    return [
+      ...acc,
+      ...getUnusedIssues(templateNames, operationNames, [
+        path,
+        method,
+        'parameters',
+      ]),
+      ...getUndeclaredIssues(templateNames, declaredNames, [path, method]),
+    ];
+  }, issues);
+};
+
+/**
+ * Checks that every variable in a path template is declared as a path parameter and that every path parameter appears
+ * in the path template
+ */
+export const validatePathParameters = (
+  paths: oas31.PathsObject | undefined,
+  components: oas31.ComponentsObject | undefined,
+  documentOptions?: CreateDocumentOptions,
+  diagnostics?: Diagnostic[],
+): void => {
+  const mode = documentOptions?.pathParameterValidation ?? 'off';
+  if (!paths || mode === 'off') {
+    return;
+  }
+
+  const issues = Object.entries(paths).flatMap(([path, pathItem]) =>
+    isISpecificationExtension(path)
+      ? []
+      : getPathItemIssues(path, pathItem, components),
+  );
+
+  issues.forEach((issue) =>
+    reportDiagnostic(diagnostics, {
+      severity: mode === 'error' ? 'error' : 'warning',
+      code: 'path-parameter',
+      ...issue,
+    }),
+  );
+};
@@ -151,4 +151,77 @@ describe('createPaths', () => {
 
     expect(result).toStrictEqual(expectedResult);
   });
+
+  it('creates path item parameters from requestParams and Zod parameters', () => {
+    const paths: ZodOpenApiPathsObject = {
+      '/orgs/{orgId}/jobs/{jobId}': {
+        requestParams: {
+          path: z.object({ orgId: z.string(), jobId: z.string() }),
+        },
+        parameters: [
+          z.string().openapi({ param: { in: 'header', name: 'x-org' } }),
+        ],
+        get: {
+          requestParams: {
+            path: z.object({ jobId: z.string().uuid() }),
+            query: z.object({ expand: z.string().optional() }),
+          },
+          responses: {
+            '200': {
+              description: '200 OK',
+            },
+          },
+        },
+      },
+    };
+
+    const expectedResult: oas31.PathsObject = {
+      '/orgs/{orgId}/jobs/{jobId}': {
+        parameters: [
+          {
+            in: 'header',
+            name: 'x-org',
+            required: true,
+            schema: { type: 'string' },
+          },
+          {
+            in: 'path',
+            name: 'orgId',
+            required: true,
+            schema: { type: 'string' },
+          },
+          {
+            in: 'path',
+            name: 'jobId',
+            required: true,
+            schema: { type: 'string' },
+          },
+        ],
+        get: {
+          parameters: [
+            {
+              in: 'path',
+              name: 'jobId',
+              required: true,
+              schema: { type: 'string', format: 'uuid' },
+            },
+            {
+              in: 'query',
+              name: 'expand',
+              schema: { type: 'string' },
+            },
+          ],
+          responses: {
+            '200': {
+              description: '200 OK',
+            },
+          },
+        },
+      },
+    };
+
+    const result = createPaths(paths, getDefaultComponents());
+
+    expect(result).toStrictEqual(expectedResult);
+  });
 });
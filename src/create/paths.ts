@@ -6,6 +6,7 @@ import {
   createComponentRequestBodyRef,
 } from './components';
 import { createContent } from './content';
+import { reportDiagnostic, reportDuplicate } from './diagnostics';
 import type {
   CreateDocumentOptions,
   ZodOpenApiOperationObject,
@@ -13,6 +14,7 @@ import type {
   ZodOpenApiPathsObject,
   ZodOpenApiRequestBodyObject,
 } from './document';
+import { applyOperationDefaults } from './operationDefaults';
 import { createParametersObject } from './parameters';
 import { createResponses } from './responses';
 import { isISpecificationExtension } from './specificationExtension';
@@ -67,8 +69,14 @@ const createOperation = (
   subpath: string[],
   documentOptions?: CreateDocumentOptions,
 ): oas31.OperationObject | undefined => {
-  const { parameters, requestParams, requestBody, responses, ...rest } =
-    operationObject;
+  const {
+    parameters,
+    requestParams,
+    requestBody,
+    responses,
+    operationDefaults,
+    ...rest
+  } = operationObject;
 
   const maybeParameters = createParametersObject(
     parameters,
@@ -113,8 +121,18 @@ export const createPathItem = (
   components: ComponentsObject,
   path: string[],
   documentOptions?: CreateDocumentOptions,
-): oas31.PathItemObject =>
-  Object.entries(pathObject).reduce<oas31.PathItemObject>(
+): oas31.PathItemObject => {
+  const { parameters, requestParams, ...rest } = pathObject;
+
+  const maybeParameters = createParametersObject(
+    parameters,
+    requestParams,
+    components,
+    [...path, 'parameters'],
+    documentOptions,
+  );
+
+  const pathItem = Object.entries(rest).reduce<oas31.PathItemObject>(
     (acc, [key, value]) => {
       if (!value) {
         return acc;
@@ -140,16 +158,114 @@ export const createPathItem = (
       }
 
       // eslint-disable-next-line @typescript-eslint/no-unsafe-assignment
-      acc[key as keyof typeof pathObject] = value;
+      acc[key as keyof typeof rest] = value;
       return acc;
     },
     {},
   );
 
+  return {
+    ...pathItem,
+    ...(maybeParameters && { parameters: maybeParameters }),
+  };
+};
+
+/**
+ * Converts an Express style path eg. `/users/:userId/files/*path` into an OpenAPI path template eg.
+ * `/users/{userId}/files/{path}`. An unnamed wildcard is named `wildcard`. Returns `undefined` when the path cannot be
+ * converted.
+ */
+export const convertExpressPath = (
+  path: string,
+  components: ComponentsObject,
+): string | undefined => {
+  let wildcards = 0;
+  let error: string | undefined;
+  const converted = path.replace(
+    /:(\w+)(?:\([^)]*\))?(\?)?|\*(\w*)/g,
+    (match, name?: string, optional?: string, wildcard?: string) => {
+      if (optional) {
+        error ??= `Optional path parameter "${name}" in ${path} is not supported`;
+        return match;
+      }
+      if (name) {
+        return `{${name}}`;
+      }
+      if (wildcard) {
+        return `{${wildcard}}`;
+      }
+      if (wildcards++) {
+        error ??= `Only one unnamed wildcard is supported in ${path}`;
+        return match;
+      }
+      return '{wildcard}';
+    },
+  );
+
+  if (error) {
+    reportDiagnostic(components.diagnostics, {
+      severity: 'error',
+      code: 'path-parameter',
+      message: error,
+      subpath: [path],
+    });
+    return undefined;
+  }
+  return converted;
+};
+
+/**
+ * Converts Express style paths when `convertExpressPaths` is set and applies the `operationDefaults` and
+ * `transformOperation` options to each operation
+ */
+export const resolvePaths = (
+  pathsObject: ZodOpenApiPathsObject | undefined,
+  components: ComponentsObject,
+  documentOptions?: CreateDocumentOptions,
+): ZodOpenApiPathsObject | undefined => {
+  if (!pathsObject) {
+    return undefined;
+  }
+
+  return Object.entries(pathsObject).reduce<ZodOpenApiPathsObject>(
+    (acc, [key, pathItemObject]): ZodOpenApiPathsObject => {
+      if (isISpecificationExtension(key)) {
+        acc[key] = pathItemObject;
+        return acc;
+      }
+
+      const path =
+        documentOptions?.convertExpressPaths && key.startsWith('/')
+          ? convertExpressPath(key, components)
+          : key;
+      if (!path) {
+        return acc;
+      }
+      if (acc[path]) {
+        reportDuplicate(
+          components,
+          `Path "${key}" is already registered as ${path}`,
+          [key],
+        );
+        return acc;
+      }
+
+      acc[path] = applyOperationDefaults(pathItemObject, path, documentOptions);
+      return acc;
+    },
+    {},
+  );
+};
+
+/**
+ * Creates the paths object from paths which have already been passed through `resolvePaths`. Each path item is added
+ * to `createdPaths` as soon as it is created so a caller can keep the paths which were created before an error.
+ */
 export const createPaths = (
   pathsObject: ZodOpenApiPathsObject | undefined,
   components: ComponentsObject,
   documentOptions?: CreateDocumentOptions,
+  createdPaths: oas31.PathsObject = {},
 ): oas31.PathsObject | undefined => {
   if (!pathsObject) {
     return undefined;
@@ -161,6 +277,7 @@ export const createPaths = (
         acc[path] = pathItemObject;
         return acc;
       }
+
       acc[path] = createPathItem(
         pathItemObject,
         components,
@@ -169,6 +286,6 @@ export const createPaths = (
       );
       return acc;
     },
-    {},
+    createdPaths,
   );
 };
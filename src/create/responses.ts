@@ -13,6 +13,7 @@ import type {
   ZodOpenApiResponseObject,
   ZodOpenApiResponsesObject,
 } from './document';
+import { createLinks } from './links';
 import { type SchemaState, createSchema } from './schema';
 import { isOptionalSchema } from './schema/parsers/optional';
 import { isISpecificationExtension } from './specificationExtension';
@@ -116,7 +117,7 @@ export const createResponse = (
     return { $ref: createComponentResponseRef(component.ref) };
   }
 
-  const { content, headers, ref, ...rest } = responseObject;
+  const { content, headers, links, ref, ...rest } = responseObject;
 
   const maybeHeaders = createResponseHeaders(
     headers,
@@ -127,6 +128,7 @@ export const createResponse = (
   const response: oas31.ResponseObject = {
     ...rest,
     ...(maybeHeaders && { headers: maybeHeaders }),
+    ...(links && { links: createLinks(links, components) }),
     ...(content && {
       content: createContent(
         content,
@@ -406,7 +406,8 @@ This may cause the schema to render incorrectly and is most likely a mistake. Yo
 2. Wrapping the transformation in a ZodPipeline
 3. Assigning a manual type to the transformation eg. \`.openapi({type: 'string'})\`
 4. Removing the transformation
-5. Deregister the component containing the transformation"
+5. Deregister the component containing the transformation
+6. Setting \`componentVariants\` to \`auto\` in the document options to register separate input and output components"
 `);
   });
 
@@ -447,7 +448,8 @@ This may cause the schema to render incorrectly and is most likely a mistake. Yo
 2. Wrapping the transformation in a ZodPipeline
 3. Assigning a manual type to the transformation eg. \`.openapi({type: 'string'})\`
 4. Removing the transformation
-5. Deregister the component containing the transformation"
+5. Deregister the component containing the transformation
+6. Setting \`componentVariants\` to \`auto\` in the document options to register separate input and output components"
 `);
   });
 
@@ -579,7 +581,8 @@ This may cause the schema to render incorrectly and is most likely a mistake. Yo
 2. Wrapping the transformation in a ZodPipeline
 3. Assigning a manual type to the transformation eg. \`.openapi({type: 'string'})\`
 4. Removing the transformation
-5. Deregister the component containing the transformation"
+5. Deregister the component containing the transformation
+6. Setting \`componentVariants\` to \`auto\` in the document options to register separate input and output components"
 `);
   });
 
@@ -620,7 +623,8 @@ This may cause the schema to render incorrectly and is most likely a mistake. Yo
 2. Wrapping the transformation in a ZodPipeline
 3. Assigning a manual type to the transformation eg. \`.openapi({type: 'string'})\`
 4. Removing the transformation
-5. Deregister the component containing the transformation"
+5. Deregister the component containing the transformation
+6. Setting \`componentVariants\` to \`auto\` in the document options to register separate input and output components"
 `);
   });
 });
@@ -1,13 +1,20 @@
 import type { ZodType, ZodTypeDef } from 'zod';
 
 import type { oas31 } from '../../openapi3-ts/dist';
+import {
+  registerCircularRef,
+  trackSchemaRender,
+  trackSchemaUsage,
+} from '../autoRef';
 import {
   type ComponentsObject,
   type CreationType,
   type Effect,
   type SchemaComponent,
-  createComponentSchemaRef,
+  createComponentSchemaVariantRef,
 } from '../components';
+import { getZodTypeName, reportSchemaError } from '../diagnostics';
+import { validateExample } from '../examples';
 
 import { enhanceWithMetadata } from './metadata';
 import { createSchemaSwitch } from './parsers';
@@ -24,6 +31,23 @@ export interface SchemaState {
   documentOptions?: CreateSchemaOptions;
 }
 
+const validateSchemaExamples = (zodSchema: ZodType, state: SchemaState) => {
+  const metadata = zodSchema._def.openapi;
+  if (metadata?.example !== undefined) {
+    validateExample(zodSchema, metadata.example, state.components, [
+      ...state.path,
+      'example',
+    ]);
+  }
+  metadata?.examples?.forEach((value: unknown, index) =>
+    validateExample(zodSchema, value, state.components, [
+      ...state.path,
+      'examples',
+      `${index}`,
+    ]),
+  );
+};
+
 const isDescriptionEqual = (schema: Schema, zodSchema: ZodType): boolean =>
   schema.type === 'ref' && zodSchema.description === schema.zodType.description;
 
@@ -36,11 +60,15 @@ export const createNewSchema = <
   state: SchemaState,
 ): Schema => {
   if (state.visited.has(zodSchema)) {
-    throw new Error(
+    reportSchemaError(
+      state,
+      'circular-ref',
       `The schema at ${state.path.join(
         ' > ',
       )} needs to be registered because it's circularly referenced`,
+      getZodTypeName(zodSchema),
     );
+    return { type: 'schema', schema: {} };
   }
   state.visited.add(zodSchema);
   const {
@@ -53,6 +81,8 @@ export const createNewSchema = <
     ...additionalMetadata
   } = zodSchema._def.openapi ?? {};
 
+  validateSchemaExamples(zodSchema, state);
+
   const schema = createSchemaSwitch(zodSchema, state);
   const description =
     zodSchema.description && !isDescriptionEqual(schema, zodSchema)
@@ -86,6 +116,15 @@ export const createNewRef = <
     visited: new Set(),
   });
 
+  return createCompleteRef(ref, zodSchema, newSchema, state);
+};
+
+const createCompleteRef = (
+  ref: string,
+  zodSchema: ZodType,
+  newSchema: Schema,
+  state: SchemaState,
+): Schema => {
   state.components.schemas.set(zodSchema, {
     type: 'complete',
     ref,
@@ -96,10 +135,7 @@ export const createNewRef = <
   return {
     type: 'ref',
     schema: {
-      $ref: createComponentSchemaRef(
-        ref,
-        state.documentOptions?.componentRefPath,
-      ),
+      $ref: createComponentSchemaVariantRef(ref, zodSchema, state),
     },
     effects: newSchema.effects
       ? [
@@ -127,10 +163,7 @@ export const createExistingRef = <
     return {
       type: 'ref',
       schema: {
-        $ref: createComponentSchemaRef(
-          component.ref,
-          state.documentOptions?.componentRefPath,
-        ),
+        $ref: createComponentSchemaVariantRef(component.ref, zodSchema, state),
       },
       effects: component.effects
         ? [
@@ -149,10 +182,7 @@ export const createExistingRef = <
     return {
       type: 'ref',
       schema: {
-        $ref: createComponentSchemaRef(
-          component.ref,
-          state.documentOptions?.componentRefPath,
-        ),
+        $ref: createComponentSchemaVariantRef(component.ref, zodSchema, state),
       },
       effects: [
         {
@@ -193,6 +223,14 @@ export const createSchemaOrRef = <
   zodSchema: ZodType<Output, Def, Input>,
   state: SchemaState,
 ): Schema => {
+  if (
+    state.visited.has(zodSchema) &&
+    !state.documentOptions?.strictCircularRefs
+  ) {
+    registerCircularRef(zodSchema, state);
+  }
+
+  trackSchemaUsage(zodSchema, state);
   const component = state.components.schemas.get(zodSchema);
   const existingRef = createExistingRef(zodSchema, component, state);
 
@@ -205,7 +243,15 @@ export const createSchemaOrRef = <
     return createNewRef(ref, zodSchema, state);
   }
 
-  return createNewSchema(zodSchema, state);
+  const schema = createNewSchema(zodSchema, state);
+  trackSchemaRender(zodSchema, schema, state);
+
+  const circularComponent = state.components.schemas.get(zodSchema);
+  if (circularComponent?.type === 'in-progress') {
+    return createCompleteRef(circularComponent.ref, zodSchema, schema, state);
+  }
+
+  return schema;
 };
 
 export const createSchemaObject = <
@@ -232,9 +278,20 @@ export const createSchema = <
   state: SchemaState,
   subpath: string[],
 ): oas31.SchemaObject | oas31.ReferenceObject => {
-  const schema = createSchemaObject(zodSchema, state, subpath);
+  const { schemaVariants } = state.components;
+  const schemaState: SchemaState = schemaVariants
+    ? {
+        ...state,
+        components: {
+          ...state.components,
+          schemas: schemaVariants[state.type],
+        },
+      }
+    : state;
+
+  const schema = createSchemaObject(zodSchema, schemaState, subpath);
   if (schema.effects) {
-    verifyEffects(schema.effects, state);
+    verifyEffects(schema.effects, schemaState);
   }
   return schema.schema;
 };
@@ -0,0 +1,123 @@
+import '../../entries/extend';
+import { z } from 'zod';
+
+import { type JsonSchema, createJsonSchema } from './jsonSchema';
+
+describe('createJsonSchema', () => {
+  it('creates a JSON Schema 2020-12 document with $defs', () => {
+    const Job = z
+      .object({ id: z.string().openapi({ example: 'job-1' }) })
+      .openapi({ ref: 'Job' });
+
+    expect(
+      createJsonSchema(z.object({ jobs: z.array(Job) }), {
+        id: 'https://example.com/jobs.json',
+      }),
+    ).toEqual<JsonSchema>({
+      $schema: 'https://json-schema.org/draft/2020-12/schema',
+      $id: 'https://example.com/jobs.json',
+      type: 'object',
+      properties: {
+        jobs: { type: 'array', items: { $ref: '#/$defs/Job' } },
+      },
+      required: ['jobs'],
+      $defs: {
+        Job: {
+          type: 'object',
+          properties: { id: { type: 'string', examples: ['job-1'] } },
+          required: ['id'],
+        },
+      },
+    });
+  });
+
+  it('creates a draft-07 document with definitions', () => {
+    const Range = z
+      .tuple([z.number(), z.number()])
+      .rest(z.string())
+      .openapi({ ref: 'Range' });
+
+    expect(createJsonSchema(Range, { draft: 'draft-07' })).toEqual<JsonSchema>({
+      $schema: 'http://json-schema.org/draft-07/schema#',
+      allOf: [{ $ref: '#/definitions/Range' }],
+      definitions: {
+        Range: {
+          type: 'array',
+          items: [{ type: 'number' }, { type: 'number' }],
+          additionalItems: { type: 'string' },
+        },
+      },
+    });
+  });
+
+  it('wraps $ref schemas with siblings in allOf for draft-07', () => {
+    const Job = z.object({ title: z.string() }).openapi({ ref: 'Job' });
+    const createJobRef = (description: string) =>
+      z.unknown().openapi({
+        description,
+        // $ref is not part of the metadata type but is passed through as is
+        ...({ $ref: '#/definitions/Job' } as object),
+      });
+
+    expect(
+      createJsonSchema(
+        z.object({ job: Job, previousJob: createJobRef('The previous job') }),
+        { draft: 'draft-07' },
+      ),
+    ).toEqual<JsonSchema>({
+      $schema: 'http://json-schema.org/draft-07/schema#',
+      type: 'object',
+      properties: {
+        job: { $ref: '#/definitions/Job' },
+        previousJob: {
+          allOf: [{ $ref: '#/definitions/Job' }],
+          description: 'The previous job',
+        },
+      },
+      required: ['job'],
+      definitions: {
+        Job: {
+          type: 'object',
+          properties: { title: { type: 'string' } },
+          required: ['title'],
+        },
+      },
+    });
+
+    expect(
+      createJsonSchema(createJobRef('The current job'), { draft: 'draft-07' }),
+    ).toEqual<JsonSchema>({
+      $schema: 'http://json-schema.org/draft-07/schema#',
+      allOf: [{ $ref: '#/definitions/Job' }],
+      description: 'The current job',
+    });
+  });
+
+  it('removes OpenAPI keywords', () => {
+    const Cat = z.object({ type: z.literal('cat') }).openapi({ ref: 'Cat' });
+    const Dog = z.object({ type: z.literal('dog') }).openapi({ ref: 'Dog' });
+
+    expect(
+      createJsonSchema(
+        z
+          .discriminatedUnion('type', [Cat, Dog])
+          .openapi({ externalDocs: { url: 'https://example.com' } }),
+      ),
+    ).toEqual<JsonSchema>({
+      $schema: 'https://json-schema.org/draft/2020-12/schema',
+      oneOf: [{ $ref: '#/$defs/Cat' }, { $ref: '#/$defs/Dog' }],
+      $defs: {
+        Cat: {
+          type: 'object',
+          properties: { type: { type: 'string', const: 'cat' } },
+          required: ['type'],
+        },
+        Dog: {
+          type: 'object',
+          properties: { type: { type: 'string', const: 'dog' } },
+          required: ['type'],
+        },
+      },
+    });
+  });
+});
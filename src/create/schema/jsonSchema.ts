@@ -0,0 +1,176 @@
+import type { ZodType } from 'zod';
+
+import type { oas31 } from '../../openapi3-ts/dist';
+
+import { type CreateSchemaOptions, createSchema } from './single';
+
+export type JsonSchemaDraft = '2020-12' | 'draft-07';
+
+export interface CreateJsonSchemaOptions
+  extends Omit<CreateSchemaOptions, 'openapi' | 'componentRefPath'> {
+  /**
+   * The JSON Schema version to target. Defaults to `'2020-12'`
+   */
+  draft?: JsonSchemaDraft;
+  /**
+   * The `$id` of the JSON Schema document
+   */
+  id?: string;
+}
+
+export type JsonSchema = Omit<oas31.SchemaObject, 'items'> & {
+  $schema?: string;
+  $id?: string;
+  $ref?: string;
+  $defs?: Record<string, JsonSchema>;
+  definitions?: Record<string, JsonSchema>;
+  items?: JsonSchema | oas31.ReferenceObject | JsonSchema[];
+  additionalItems?: JsonSchema | oas31.ReferenceObject;
+};
+
+const SCHEMA_URIS: Record<JsonSchemaDraft, string> = {
+  '2020-12': 'https://json-schema.org/draft/2020-12/schema',
+  'draft-07': 'http://json-schema.org/draft-07/schema#',
+};
+
+const DEFS_KEYS: Record<JsonSchemaDraft, '$defs' | 'definitions'> = {
+  '2020-12': '$defs',
+  'draft-07': 'definitions',
+};
+
+/**
+ * OpenAPI keywords which are not part of JSON Schema
+ */
+const OPENAPI_KEYWORDS = ['discriminator', 'xml', 'externalDocs'] as const;
+
+const SUBSCHEMA_KEYWORDS = [
+  'not',
+  'items',
+  'additionalProperties',
+  'propertyNames',
+  'if',
+  'then',
+  'else',
+  'contains',
+] as const;
+
+const SUBSCHEMA_ARRAY_KEYWORDS = [
+  'allOf',
+  'anyOf',
+  'oneOf',
+  'prefixItems',
+] as const;
+
+const SUBSCHEMA_MAP_KEYWORDS = ['properties', 'patternProperties'] as const;
+
+type JsonObject = Record<string, unknown>;
+
+const isObject = (value: unknown): value is JsonObject =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const mapJsonSchema = (schema: unknown, draft: JsonSchemaDraft): unknown => {
+  if (!isObject(schema)) {
+    return schema;
+  }
+
+  if ('$ref' in schema) {
+    const { $ref, ...siblings } = schema;
+    if (!Object.keys(siblings).length) {
+      return schema;
+    }
+
+    const mapped = mapJsonSchema(siblings, draft) as JsonObject;
+    // $ref siblings are ignored in draft-07
+    return draft === 'draft-07'
+      ? {
+          ...mapped,
+          allOf: [
+            { $ref },
+            ...(Array.isArray(mapped.allOf) ? (mapped.allOf as unknown[]) : []),
+          ],
+        }
+      : { $ref, ...mapped };
+  }
+
+  const result: JsonObject = { ...schema };
+
+  SUBSCHEMA_KEYWORDS.forEach((keyword) => {
+    if (isObject(result[keyword])) {
+      result[keyword] = mapJsonSchema(result[keyword], draft);
+    }
+  });
+  SUBSCHEMA_ARRAY_KEYWORDS.forEach((keyword) => {
+    const subschemas = result[keyword];
+    if (Array.isArray(subschemas)) {
+      result[keyword] = subschemas.map((subschema) =>
+        mapJsonSchema(subschema, draft),
+      );
+    }
+  });
+  SUBSCHEMA_MAP_KEYWORDS.forEach((keyword) => {
+    const subschemas = result[keyword];
+    if (isObject(subschemas)) {
+      result[keyword] = Object.fromEntries(
+        Object.entries(subschemas).map(([key, subschema]) => [
+          key,
+          mapJsonSchema(subschema, draft),
+        ]),
+      );
+    }
+  });
+
+  OPENAPI_KEYWORDS.forEach((keyword) => delete result[keyword]);
+
+  if ('example' in result) {
+    if (!result.examples) {
+      result.examples = [result.example];
+    }
+    delete result.example;
+  }
+
+  if (draft === 'draft-07' && Array.isArray(result.prefixItems)) {
+    const { prefixItems, items, ...rest } = result;
+    return {
+      ...rest,
+      items: prefixItems,
+      ...(items !== undefined && { additionalItems: items }),
+    };
+  }
+
+  return result;
+};
+
+/**
+ * Creates a self-contained JSON Schema document from a Zod Schema. Registered schemas are placed under `$defs`, or
+ * `definitions` for draft-07.
+ */
+export const createJsonSchema = (
+  zodType: ZodType,
+  opts?: CreateJsonSchemaOptions,
+): JsonSchema => {
+  const draft = opts?.draft ?? '2020-12';
+  const defsKey = DEFS_KEYS[draft];
+
+  const { schema, components } = createSchema(zodType, {
+    ...opts,
+    openapi: '3.1.0',
+    componentRefPath: `#/${defsKey}/`,
+  });
+
+  const rootSchema = mapJsonSchema(schema, draft) as JsonSchema;
+  const defs = Object.entries(components ?? {});
+
+  return {
+    $schema: SCHEMA_URIS[draft],
+    ...(opts?.id && { $id: opts.id }),
+    // $ref siblings such as $schema are ignored in draft-07
+    ...(draft === 'draft-07' && rootSchema.$ref
+      ? { allOf: [{ $ref: rootSchema.$ref }] }
+      : rootSchema),
+    ...(defs.length && {
+      [defsKey]: Object.fromEntries(
+        defs.map(([key, component]) => [key, mapJsonSchema(component, draft)]),
+      ),
+    }),
+  };
+};
@@ -0,0 +1,82 @@
+import '../../../entries/extend';
+import { z } from 'zod';
+
+import type { Schema } from '..';
+import type { oas31 } from '../../../openapi3-ts/dist';
+import {
+  createOutputOpenapi3State,
+  createOutputState,
+} from '../../../testing/state';
+
+import { createBigIntSchema } from './bigint';
+
+describe('createBigIntSchema', () => {
+  it('creates a simple bigint schema', () => {
+    const expected: Schema = {
+      type: 'schema',
+      schema: {
+        type: 'integer',
+        format: 'int64',
+      },
+    };
+    const schema = z.bigint();
+
+    const result = createBigIntSchema(schema, createOutputState());
+
+    expect(result).toStrictEqual(expected);
+  });
+
+  it('creates a bigint schema with lte, gte and multipleOf', () => {
+    const expected: Schema = {
+      type: 'schema',
+      schema: {
+        type: 'integer',
+        format: 'int64',
+        minimum: 0,
+        maximum: 10,
+        multipleOf: 2,
+      },
+    };
+    const schema = z.bigint().gte(0n).lte(10n).multipleOf(2n);
+
+    const result = createBigIntSchema(schema, createOutputState());
+
+    expect(result).toStrictEqual(expected);
+  });
+
+  it('creates a bigint schema with lt or gt', () => {
+    const expected: Schema = {
+      type: 'schema',
+      schema: {
+        type: 'integer',
+        format: 'int64',
+        exclusiveMinimum: 0,
+        exclusiveMaximum: 10,
+      },
+    };
+    const schema = z.bigint().gt(0n).lt(10n);
+
+    const result = createBigIntSchema(schema, createOutputState());
+
+    expect(result).toStrictEqual(expected);
+  });
+
+  it('creates a bigint schema with lt or gt in openapi 3.0.0', () => {
+    const expected: Schema = {
+      type: 'schema',
+      schema: {
+        type: 'integer',
+        format: 'int64',
+        minimum: 0,
+        exclusiveMinimum: true,
+        maximum: 10,
+        exclusiveMaximum: true,
+      } as unknown as oas31.SchemaObject,
+    };
+    const schema = z.bigint().gt(0n).lt(10n);
+
+    const result = createBigIntSchema(schema, createOutputOpenapi3State());
+
+    expect(result).toStrictEqual(expected);
+  });
+});
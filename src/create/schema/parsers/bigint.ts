@@ -0,0 +1,89 @@
+import type { ZodBigInt, ZodBigIntCheck } from 'zod';
+
+import { satisfiesVersion } from '../../../openapi';
+import type { oas30, oas31 } from '../../../openapi3-ts/dist';
+import type { ZodOpenApiVersion } from '../../document';
+import type { Schema, SchemaState } from '../../schema';
+
+/**
+ * BigInts are rendered as `int64` integers. Bounds are converted to numbers as JSON cannot represent a bigint,
+ * so values outside of `Number.MAX_SAFE_INTEGER` may lose precision.
+ */
+export const createBigIntSchema = (
+  zodBigInt: ZodBigInt,
+  state: SchemaState,
+): Schema => {
+  const zodBigIntChecks = getZodBigIntChecks(zodBigInt);
+
+  const minimum = mapBigIntMinimum(zodBigIntChecks, state.components.openapi);
+  const maximum = mapBigIntMaximum(zodBigIntChecks, state.components.openapi);
+  const multipleOf = zodBigIntChecks.multipleOf?.value;
+
+  return {
+    type: 'schema',
+    schema: {
+      type: 'integer',
+      format: 'int64',
+      ...(minimum && (minimum as oas31.SchemaObject)), // Union types are not easy to tame
+      ...(maximum && (maximum as oas31.SchemaObject)),
+      ...(multipleOf !== undefined && { multipleOf: Number(multipleOf) }),
+    },
+  };
+};
+
+const mapBigIntMinimum = (
+  zodBigIntChecks: ZodBigIntCheckMap,
+  openapi: ZodOpenApiVersion,
+):
+  | Pick<
+      oas31.SchemaObject | oas30.SchemaObject,
+      'minimum' | 'exclusiveMinimum'
+    >
+  | undefined => {
+  if (!zodBigIntChecks.min) {
+    return undefined;
+  }
+
+  const minimum = Number(zodBigIntChecks.min.value);
+  if (zodBigIntChecks.min.inclusive) {
+    return { minimum };
+  }
+  if (satisfiesVersion(openapi, '3.1.0')) {
+    return { exclusiveMinimum: minimum };
+  }
+  return { minimum, exclusiveMinimum: true };
+};
+
+const mapBigIntMaximum = (
+  zodBigIntChecks: ZodBigIntCheckMap,
+  openapi: ZodOpenApiVersion,
+):
+  | Pick<
+      oas31.SchemaObject | oas30.SchemaObject,
+      'maximum' | 'exclusiveMaximum'
+    >
+  | undefined => {
+  if (!zodBigIntChecks.max) {
+    return undefined;
+  }
+
+  const maximum = Number(zodBigIntChecks.max.value);
+  if (zodBigIntChecks.max.inclusive) {
+    return { maximum };
+  }
+  if (satisfiesVersion(openapi, '3.1.0')) {
+    return { exclusiveMaximum: maximum };
+  }
+  return { maximum, exclusiveMaximum: true };
+};
+
+type ZodBigIntCheckMap = {
+  [kind in ZodBigIntCheck['kind']]?: Extract<ZodBigIntCheck, { kind: kind }>;
+};
+
+const getZodBigIntChecks = (zodBigInt: ZodBigInt): ZodBigIntCheckMap =>
+  zodBigInt._def.checks.reduce<ZodBigIntCheckMap>((acc, check) => {
+    // union type issues
+    acc[check.kind] = check as never;
+    return acc;
+  }, {});
@@ -0,0 +1,61 @@
+import {
+  type OpenApiVersion,
+  isReferenceObject,
+  satisfiesVersion,
+} from '../../../openapi';
+import type { oas31 } from '../../../openapi3-ts/dist';
+
+const ENUM_KEYWORDS = ['type', 'enum', 'const'];
+
+const getEnumValues = (
+  option: oas31.SchemaObject | oas31.ReferenceObject,
+): { types: oas31.SchemaObjectType[]; values: unknown[] } | undefined => {
+  if (
+    isReferenceObject(option) ||
+    !option.type ||
+    !('enum' in option || 'const' in option) ||
+    Object.keys(option).some((key) => !ENUM_KEYWORDS.includes(key))
+  ) {
+    return undefined;
+  }
+
+  return {
+    types: Array.isArray(option.type) ? option.type : [option.type],
+    values:
+      'const' in option
+        ? [option.const as unknown]
+        : ((option.enum ?? []) as unknown[]),
+  };
+};
+
+/**
+ * Collapses the options of a union made only of literals, enums and native enums into a single enum schema eg.
+ * `{ type: 'string', enum: ['a', 'b'] }`. Options of different types are collapsed into a `type` array in OpenAPI 3.1.0
+ * only. Returns `undefined` when any option is not an enum.
+ */
+export const collapseEnumUnion = (
+  options: Array<oas31.SchemaObject | oas31.ReferenceObject>,
+  openapi: OpenApiVersion,
+): oas31.SchemaObject | undefined => {
+  const enums = options.map(getEnumValues);
+  if (enums.some((enumValues) => !enumValues)) {
+    return undefined;
+  }
+
+  const types = [
+    ...new Set(enums.flatMap((enumValues) => enumValues?.types ?? [])),
+  ];
+  const values = [
+    ...new Set(enums.flatMap((enumValues) => enumValues?.values ?? [])),
+  ];
+
+  if (types.length === 1) {
+    return { type: types[0], enum: values };
+  }
+
+  if (satisfiesVersion(openapi, '3.1.0')) {
+    return { type: types, enum: values };
+  }
+
+  return undefined;
+};
@@ -4,6 +4,7 @@ import { isZodType } from '../../../zodType';
 import type { Schema, SchemaState } from '../../schema';
 
 import { createArraySchema } from './array';
+import { createBigIntSchema } from './bigint';
 import { createBooleanSchema } from './boolean';
 import { createBrandedSchema } from './brand';
 import { createCatchSchema } from './catch';
@@ -15,7 +16,10 @@ import { createIntersectionSchema } from './intersection';
 import { createLazySchema } from './lazy';
 import { createLiteralSchema } from './literal';
 import { createManualTypeSchema } from './manual';
+import { createMapSchema } from './map';
+import { createNaNSchema } from './nan';
 import { createNativeEnumSchema } from './nativeEnum';
+import { createNeverSchema } from './never';
 import { createNullSchema } from './null';
 import { createNullableSchema } from './nullable';
 import { createNumberSchema } from './number';
@@ -28,10 +32,13 @@ import { createRecordSchema } from './record';
 import { createRefineSchema } from './refine';
 import { createSetSchema } from './set';
 import { createStringSchema } from './string';
+import { createSymbolSchema } from './symbol';
 import { createTransformSchema } from './transform';
 import { createTupleSchema } from './tuple';
+import { createUndefinedSchema } from './undefined';
 import { createUnionSchema } from './union';
 import { createUnknownSchema } from './unknown';
+import { createVoidSchema } from './void';
 
 export const createSchemaSwitch = <
   Output = unknown,
@@ -170,5 +177,33 @@ export const createSchemaSwitch = <
     return createSetSchema(zodSchema, state);
   }
 
+  if (isZodType(zodSchema, 'ZodBigInt')) {
+    return createBigIntSchema(zodSchema, state);
+  }
+
+  if (isZodType(zodSchema, 'ZodNaN')) {
+    return createNaNSchema(zodSchema);
+  }
+
+  if (isZodType(zodSchema, 'ZodMap')) {
+    return createMapSchema(zodSchema, state);
+  }
+
+  if (isZodType(zodSchema, 'ZodNever')) {
+    return createNeverSchema(zodSchema);
+  }
+
+  if (isZodType(zodSchema, 'ZodUndefined')) {
+    return createUndefinedSchema(zodSchema);
+  }
+
+  if (isZodType(zodSchema, 'ZodVoid')) {
+    return createVoidSchema(zodSchema);
+  }
+
+  if (isZodType(zodSchema, 'ZodSymbol')) {
+    return createSymbolSchema(zodSchema);
+  }
+
   return createManualTypeSchema(zodSchema, state);
 };
@@ -9,40 +9,155 @@ import { createLazySchema } from './lazy';
 import { createObjectSchema } from './object';
 
 describe('createLazySchema', () => {
-  it('throws an error when a lazy schema has no ref', () => {
+  it('throws an error when a lazy schema has no ref and strictCircularRefs is set', () => {
     type Lazy = Lazy[];
     const lazy: z.ZodType<Lazy> = z.lazy(() => lazy.array());
 
     expect(() =>
-      createSchemaObject(lazy as ZodLazy<any>, createOutputState(), [
-        'response',
-      ]),
+      createSchemaObject(
+        lazy as ZodLazy<any>,
+        createOutputState(undefined, { strictCircularRefs: true }),
+        ['response'],
+      ),
     ).toThrow(
       `The schema at response > lazy schema > array items needs to be registered because it's circularly referenced`,
     );
   });
 
-  it('throws errors when cycles without refs are detected', () => {
+  it('throws errors when cycles without refs are detected and strictCircularRefs is set', () => {
     const cycle1: any = z.lazy(() => z.array(z.object({ foo: cycle1 })));
     expect(() =>
-      createSchemaObject(cycle1, createOutputState(), ['response']),
+      createSchemaObject(
+        cycle1,
+        createOutputState(undefined, { strictCircularRefs: true }),
+        ['response'],
+      ),
     ).toThrow(
       `The schema at response > lazy schema > array items > property: foo needs to be registered because it's circularly referenced`,
     );
     const cycle2: any = z.lazy(() => z.union([z.number(), z.array(cycle2)]));
     expect(() =>
-      createSchemaObject(cycle2, createOutputState(), ['response']),
+      createSchemaObject(
+        cycle2,
+        createOutputState(undefined, { strictCircularRefs: true }),
+        ['response'],
+      ),
     ).toThrow(
       `The schema at response > lazy schema > union option 1 > array items needs to be registered because it's circularly referenced`,
     );
     const cycle3: any = z.lazy(() => z.record(z.tuple([cycle3.optional()])));
     expect(() =>
-      createSchemaObject(cycle3, createOutputState(), ['response']),
+      createSchemaObject(
+        cycle3,
+        createOutputState(undefined, { strictCircularRefs: true }),
+        ['response'],
+      ),
     ).toThrow(
       `The schema at response > lazy schema > record value > tuple item 0 > optional needs to be registered because it's circularly referenced`,
     );
   });
 
+  it('registers a lazy schema which has no ref', () => {
+    type Lazy = Lazy[];
+    const lazy: z.ZodType<Lazy> = z
+      .lazy(() => lazy.array())
+      .describe('nested list');
+
+    const state = createOutputState();
+
+    const expected: Schema = {
+      type: 'ref',
+      schema: { $ref: '#/components/schemas/NestedList' },
+      effects: [
+        {
+          type: 'component',
+          zodType: lazy,
+          path: ['response'],
+        },
+      ],
+      zodType: lazy,
+    };
+
+    const result = createSchemaObject(lazy, state, ['response']);
+
+    expect(result).toEqual(expected);
+    expect(state.components.schemas.get(lazy)).toEqual({
+      type: 'complete',
+      ref: 'NestedList',
+      schemaObject: {
+        type: 'array',
+        items: { $ref: '#/components/schemas/NestedList' },
+        description: 'nested list',
+      },
+      effects: [
+        {
+          type: 'component',
+          zodType: lazy,
+          path: ['response', 'lazy schema', 'array items'],
+        },
+      ],
+    });
+  });
+
+  it('registers the root of a cycle using circularRefName', () => {
+    const cycle: any = z.lazy(() => z.array(z.object({ foo: cycle })));
+
+    const state = createOutputState(undefined, {
+      circularRefName: () => 'Cycle',
+    });
+
+    const result = createSchemaObject(z.object({ bar: cycle }), state, [
+      'response',
+    ]);
+
+    expect(result.schema).toEqual({
+      type: 'object',
+      properties: {
+        bar: { $ref: '#/components/schemas/Cycle' },
+      },
+      required: ['bar'],
+    });
+    expect(state.components.schemas.get(cycle)).toEqual({
+      type: 'complete',
+      ref: 'Cycle',
+      schemaObject: {
+        type: 'array',
+        items: {
+          type: 'object',
+          properties: {
+            foo: { $ref: '#/components/schemas/Cycle' },
+          },
+          required: ['foo'],
+        },
+      },
+      effects: expect.any(Array),
+    });
+  });
+
+  it('names unnamed cycles with unique refs', () => {
+    const cycle1: any = z.lazy(() => z.array(cycle1));
+    const cycle2: any = z.lazy(() => z.array(cycle2));
+
+    const state = createOutputState({
+      schemas: { Schema1: z.string() },
+    });
+
+    const result = createSchemaObject(
+      z.object({ a: cycle1, b: cycle2 }),
+      state,
+      ['response'],
+    );
+
+    expect(result.schema).toEqual({
+      type: 'object',
+      properties: {
+        a: { $ref: '#/components/schemas/Schema2' },
+        b: { $ref: '#/components/schemas/Schema3' },
+      },
+      required: ['a', 'b'],
+    });
+  });
+
   it('creates an lazy schema when the schema contains a ref', () => {
     type Lazy = Lazy[];
     const lazy: z.ZodType<Lazy> = z
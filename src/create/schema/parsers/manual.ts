@@ -1,5 +1,6 @@
 import type { ZodType, ZodTypeDef } from 'zod';
 
+import { reportSchemaError } from '../../diagnostics';
 import type { Schema, SchemaState } from '../../schema';
 
 export const createManualTypeSchema = <
@@ -12,11 +13,15 @@ export const createManualTypeSchema = <
 ): Schema => {
   if (!zodSchema._def.openapi?.type) {
     const schemaName = zodSchema.constructor.name;
-    throw new Error(
+    reportSchemaError(
+      state,
+      'unknown-schema',
       `Unknown schema ${schemaName} at ${state.path.join(
         ' > ',
       )}. Please assign it a manual 'type'.`,
+      schemaName,
     );
+    return { type: 'schema', schema: {} };
   }
 
   return {
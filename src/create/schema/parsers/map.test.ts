@@ -0,0 +1,138 @@
+import '../../../entries/extend';
+import { z } from 'zod';
+
+import type { Schema } from '..';
+import {
+  createOutputOpenapi3State,
+  createOutputState,
+} from '../../../testing/state';
+
+import { createMapSchema } from './map';
+
+describe('createMapSchema', () => {
+  it('creates an object schema for string keys', () => {
+    const expected: Schema = {
+      type: 'schema',
+      schema: {
+        type: 'object',
+        additionalProperties: {
+          type: 'number',
+        },
+      },
+    };
+    const schema = z.map(z.string(), z.number());
+
+    const result = createMapSchema(schema, createOutputState());
+
+    expect(result).toEqual(expected);
+  });
+
+  it('creates propertyNames for string keys with constraints', () => {
+    const expected: Schema = {
+      type: 'schema',
+      schema: {
+        type: 'object',
+        propertyNames: {
+          type: 'string',
+          format: 'uuid',
+        },
+        additionalProperties: {
+          type: 'number',
+        },
+      },
+    };
+    const schema = z.map(z.string().uuid(), z.number());
+
+    const result = createMapSchema(schema, createOutputState());
+
+    expect(result).toEqual(expected);
+  });
+
+  it('does not create propertyNames in openapi 3.0.0', () => {
+    const expected: Schema = {
+      type: 'schema',
+      schema: {
+        type: 'object',
+        additionalProperties: {
+          type: 'number',
+        },
+      },
+    };
+    const schema = z.map(z.string().uuid(), z.number());
+
+    const result = createMapSchema(schema, createOutputOpenapi3State());
+
+    expect(result).toEqual(expected);
+  });
+
+  it('returns the effects of string keys', () => {
+    const keySchema = z
+      .string()
+      .transform((value) => value.toUpperCase())
+      .pipe(z.string());
+    const expected: Schema = {
+      type: 'schema',
+      schema: {
+        type: 'object',
+        additionalProperties: {
+          type: 'number',
+        },
+      },
+      effects: [
+        {
+          type: 'schema',
+          creationType: 'output',
+          zodType: keySchema,
+          path: ['map key'],
+        },
+      ],
+    };
+    const schema = z.map(keySchema, z.number());
+
+    const result = createMapSchema(schema, createOutputOpenapi3State());
+
+    expect(result).toEqual(expected);
+  });
+
+  it('creates an array of tuples for non string keys', () => {
+    const expected: Schema = {
+      type: 'schema',
+      schema: {
+        type: 'array',
+        items: {
+          type: 'array',
+          prefixItems: [{ type: 'number' }, { type: 'string' }],
+          minItems: 2,
+          maxItems: 2,
+        },
+      },
+    };
+    const schema = z.map(z.number(), z.string());
+
+    const result = createMapSchema(schema, createOutputState());
+
+    expect(result).toEqual(expected);
+  });
+
+  it('creates an array of tuples for non string keys in openapi 3.0.0', () => {
+    const expected: Schema = {
+      type: 'schema',
+      schema: {
+        type: 'array',
+        items: {
+          type: 'array',
+          items: {
+            oneOf: [{ type: 'number' }, { type: 'string' }],
+          },
+          minItems: 2,
+          maxItems: 2,
+        },
+      },
+    };
+    const schema = z.map(z.number(), z.string());
+
+    const result = createMapSchema(schema, createOutputOpenapi3State());
+
+    expect(result).toEqual(expected);
+  });
+});
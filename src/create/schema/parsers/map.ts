@@ -0,0 +1,82 @@
+import type { ZodMap, ZodTypeAny } from 'zod';
+
+import { satisfiesVersion } from '../../../openapi';
+import {
+  type Schema,
+  type SchemaState,
+  createSchemaObject,
+} from '../../schema';
+
+import { flattenEffects } from './transform';
+
+/**
+ * Maps with string keys are rendered as objects using `additionalProperties`, with the key schema as `propertyNames` in
+ * 3.1.0 when it has constraints.
+ * Any other key type is rendered as an array of `[key, value]` tuples which matches `Array.from(map)`.
+ */
+export const createMapSchema = <
+  Key extends ZodTypeAny = ZodTypeAny,
+  Value extends ZodTypeAny = ZodTypeAny,
+>(
+  zodMap: ZodMap<Key, Value>,
+  state: SchemaState,
+): Schema => {
+  const keySchema = createSchemaObject(zodMap._def.keyType, state, ['map key']);
+  const valueSchema = createSchemaObject(zodMap._def.valueType, state, [
+    'map value',
+  ]);
+
+  const maybeComponent = state.components.schemas.get(zodMap._def.keyType);
+  const renderedKeySchema =
+    (maybeComponent?.type === 'complete' && maybeComponent.schemaObject) ||
+    keySchema.schema;
+
+  const effects = flattenEffects([keySchema.effects, valueSchema.effects]);
+
+  if ('type' in renderedKeySchema && renderedKeySchema.type === 'string') {
+    const propertyNames =
+      satisfiesVersion(state.components.openapi, '3.1.0') &&
+      Object.keys(renderedKeySchema).length > 1;
+    return {
+      type: 'schema',
+      schema: {
+        type: 'object',
+        ...(propertyNames && { propertyNames: keySchema.schema }),
+        additionalProperties: valueSchema.schema,
+      },
+      effects,
+    };
+  }
+
+  if (satisfiesVersion(state.components.openapi, '3.1.0')) {
+    return {
+      type: 'schema',
+      schema: {
+        type: 'array',
+        items: {
+          type: 'array',
+          prefixItems: [keySchema.schema, valueSchema.schema],
+          minItems: 2,
+          maxItems: 2,
+        },
+      },
+      effects,
+    };
+  }
+
+  return {
+    type: 'schema',
+    schema: {
+      type: 'array',
+      items: {
+        type: 'array',
+        items: {
+          oneOf: [keySchema.schema, valueSchema.schema],
+        },
+        minItems: 2,
+        maxItems: 2,
+      },
+    },
+    effects,
+  };
+};
@@ -0,0 +1,20 @@
+import { z } from 'zod';
+
+import type { Schema } from '..';
+
+import { createNaNSchema } from './nan';
+
+describe('createNaNSchema', () => {
+  it('creates a number schema', () => {
+    const expected: Schema = {
+      type: 'schema',
+      schema: {
+        type: 'number',
+      },
+    };
+
+    const result = createNaNSchema(z.nan());
+
+    expect(result).toStrictEqual(expected);
+  });
+});
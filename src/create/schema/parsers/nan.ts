@@ -0,0 +1,13 @@
+import type { ZodNaN } from 'zod';
+
+import type { Schema } from '..';
+
+/**
+ * NaN cannot be represented in JSON so this is the closest approximation.
+ */
+export const createNaNSchema = (_zodNaN: ZodNaN): Schema => ({
+  type: 'schema',
+  schema: {
+    type: 'number',
+  },
+});
@@ -0,0 +1,20 @@
+import { z } from 'zod';
+
+import type { Schema } from '..';
+
+import { createNeverSchema } from './never';
+
+describe('createNeverSchema', () => {
+  it('creates a schema which matches nothing', () => {
+    const expected: Schema = {
+      type: 'schema',
+      schema: {
+        not: {},
+      },
+    };
+
+    const result = createNeverSchema(z.never());
+
+    expect(result).toStrictEqual(expected);
+  });
+});
@@ -0,0 +1,13 @@
+import type { ZodNever } from 'zod';
+
+import type { Schema } from '..';
+
+/**
+ * No value can satisfy `{ not: {} }`
+ */
+export const createNeverSchema = (_zodNever: ZodNever): Schema => ({
+  type: 'schema',
+  schema: {
+    not: {},
+  },
+});
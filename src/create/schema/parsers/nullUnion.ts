@@ -0,0 +1,115 @@
+import { isReferenceObject } from '../../../openapi';
+import type { oas31 } from '../../../openapi3-ts/dist';
+
+type SchemaObjectType = oas31.SchemaObjectType;
+
+/**
+ * Type specific keywords which only apply to values of their type. These can be merged from different options as long
+ * as no two options share a keyword.
+ */
+const TYPE_KEYWORDS: Record<string, string[]> = {
+  string: [
+    'minLength',
+    'maxLength',
+    'pattern',
+    'format',
+    'contentEncoding',
+    'contentMediaType',
+  ],
+  number: [
+    'minimum',
+    'maximum',
+    'exclusiveMinimum',
+    'exclusiveMaximum',
+    'multipleOf',
+    'format',
+  ],
+  integer: [
+    'minimum',
+    'maximum',
+    'exclusiveMinimum',
+    'exclusiveMaximum',
+    'multipleOf',
+    'format',
+  ],
+  boolean: [],
+  null: [],
+};
+
+interface PrimitiveOption {
+  type: SchemaObjectType;
+  keywords: Record<string, unknown>;
+  values?: unknown[];
+}
+
+const getPrimitiveOption = (
+  option: oas31.SchemaObject | oas31.ReferenceObject,
+): PrimitiveOption | undefined => {
+  if (isReferenceObject(option) || typeof option.type !== 'string') {
+    return undefined;
+  }
+
+  const allowedKeywords = TYPE_KEYWORDS[option.type];
+  const keywords = Object.fromEntries(
+    Object.entries(option).filter(
+      ([key]) => !['type', 'enum', 'const'].includes(key),
+    ),
+  );
+  if (
+    !allowedKeywords ||
+    Object.keys(keywords).some((key) => !allowedKeywords.includes(key))
+  ) {
+    return undefined;
+  }
+
+  return {
+    type: option.type,
+    keywords,
+    ...(option.enum && { values: option.enum as unknown[] }),
+    ...('const' in option && { values: [option.const as unknown] }),
+  };
+};
+
+/**
+ * Collapses the options of a union of primitive schemas which includes `null` into a single schema with a `type` array
+ * eg. `{ type: ['string', 'null'] }`. Returns `undefined` when the options cannot be merged without changing which
+ * values the schema accepts.
+ */
+export const collapseNullUnion = (
+  options: Array<oas31.SchemaObject | oas31.ReferenceObject>,
+): oas31.SchemaObject | undefined => {
+  const primitiveOptions = options.map(getPrimitiveOption);
+  if (
+    primitiveOptions.some((option) => !option) ||
+    !primitiveOptions.some((option) => option?.type === 'null')
+  ) {
+    return undefined;
+  }
+
+  const nonNullOptions = (primitiveOptions as PrimitiveOption[]).filter(
+    (option) => option.type !== 'null',
+  );
+  const types = nonNullOptions.map((option) => option.type);
+  const keywords = nonNullOptions.flatMap((option) =>
+    Object.keys(option.keywords),
+  );
+  const enumOptions = nonNullOptions.filter((option) => option.values);
+
+  if (
+    new Set(types).size !== types.length ||
+    // An integer is also a number so these options overlap
+    (types.includes('number') && types.includes('integer')) ||
+    new Set(keywords).size !== keywords.length ||
+    (enumOptions.length && enumOptions.length !== nonNullOptions.length)
+  ) {
+    return undefined;
+  }
+
+  return {
+    type: [...types, 'null'],
+    ...Object.assign({}, ...nonNullOptions.map((option) => option.keywords)),
+    ...(enumOptions.length && {
+      enum: [...enumOptions.flatMap((option) => option.values), null],
+    }),
+  } as oas31.SchemaObject;
+};
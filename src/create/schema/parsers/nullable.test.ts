@@ -240,7 +240,7 @@ describe('createNullableSchema', () => {
         type: 'schema',
         schema: {
           type: ['string', 'null'],
-          enum: ['a'],
+          enum: ['a', null],
         },
       };
       const schema = z.enum(['a']).nullable();
@@ -249,5 +249,34 @@ describe('createNullableSchema', () => {
 
       expect(result).toEqual(expected);
     });
+
+    it('creates a nullable literal', () => {
+      const expected: Schema = {
+        type: 'schema',
+        schema: {
+          type: ['string', 'null'],
+          enum: ['a', null],
+        },
+      };
+      const schema = z.literal('a').nullable();
+
+      const result = createNullableSchema(schema, createOutputState());
+
+      expect(result).toEqual(expected);
+    });
+
+    it('collapses a nullable union of primitive schemas into a type array', () => {
+      const expected: Schema = {
+        type: 'schema',
+        schema: {
+          type: ['string', 'boolean', 'null'],
+        },
+      };
+      const schema = z.union([z.string(), z.boolean()]).nullable();
+
+      const result = createNullableSchema(schema, createOutputState());
+
+      expect(result).toEqual(expected);
+    });
   });
 });
@@ -9,6 +9,8 @@ import {
   createSchemaObject,
 } from '../../schema';
 
+import { collapseNullUnion } from './nullUnion';
+
 export const createNullableSchema = <T extends ZodTypeAny>(
   zodNullable: ZodNullable<T>,
   state: SchemaState,
@@ -30,10 +32,11 @@ export const createNullableSchema = <T extends ZodTypeAny>(
 
     if (schemaObject.schema.oneOf) {
       const { oneOf, ...schema } = schemaObject.schema;
+      const options = mapNullOf(oneOf, state.components.openapi);
       return {
         type: 'schema',
-        schema: {
-          oneOf: mapNullOf(oneOf, state.components.openapi),
+        schema: (!Object.keys(schema).length && collapseNullUnion(options)) || {
+          oneOf: options,
           ...schema,
         },
         effects: schemaObject.effects,
@@ -42,10 +45,11 @@ export const createNullableSchema = <T extends ZodTypeAny>(
 
     if (schemaObject.schema.anyOf) {
       const { anyOf, ...schema } = schemaObject.schema;
+      const options = mapNullOf(anyOf, state.components.openapi);
       return {
         type: 'schema',
-        schema: {
-          anyOf: mapNullOf(anyOf, state.components.openapi),
+        schema: (!Object.keys(schema).length && collapseNullUnion(options)) || {
+          anyOf: options,
           ...schema,
         },
         effects: schemaObject.effects,
@@ -53,12 +57,20 @@ export const createNullableSchema = <T extends ZodTypeAny>(
     }
 
     const { type, ...schema } = schemaObject.schema;
+    const enumValues =
+      'const' in schema
+        ? [schema.const as unknown]
+        : (schema.enum as unknown[] | undefined);
+    delete schema.const;
 
     return {
       type: 'schema',
       schema: {
         type: mapNullType(type),
         ...schema,
+        // null needs to be an allowed value for a nullable enum to accept null
+        ...(enumValues &&
+          !enumValues.includes(null) && { enum: [...enumValues, null] }),
       },
       effects: schemaObject.effects,
     };
@@ -99,10 +111,10 @@ const mapNullType = (
   }
 
   if (Array.isArray(type)) {
-    return [...type, 'null'];
+    return type.includes('null') ? type : [...type, 'null'];
   }
 
-  return [type, 'null'];
+  return type === 'null' ? type : [type, 'null'];
 };
 
 const mapNullOf = (
@@ -104,4 +104,91 @@ describe('createNumberSchema', () => {
 
     expect(result).toStrictEqual(expected);
   });
+
+  it('creates a number schema with multipleOf', () => {
+    const expected: Schema = {
+      type: 'schema',
+      schema: {
+        type: 'number',
+        multipleOf: 0.01,
+      },
+    };
+    const schema = z.number().multipleOf(0.01);
+
+    const result = createNumberSchema(schema, createOutputState());
+
+    expect(result).toStrictEqual(expected);
+  });
+
+  it('creates a number schema with safe bounds', () => {
+    const expected: Schema = {
+      type: 'schema',
+      schema: {
+        type: 'number',
+        minimum: Number.MIN_SAFE_INTEGER,
+        maximum: Number.MAX_SAFE_INTEGER,
+      },
+    };
+    const schema = z.number().finite().safe();
+
+    const result = createNumberSchema(schema, createOutputState());
+
+    expect(result).toStrictEqual(expected);
+  });
+
+  it('keeps the most restrictive bounds', () => {
+    const expected: Schema = {
+      type: 'schema',
+      schema: {
+        type: 'integer',
+        exclusiveMinimum: 0,
+        maximum: 100,
+      },
+    };
+    const schema = z.number().int().positive().max(100).safe();
+
+    const result = createNumberSchema(schema, createOutputState());
+
+    expect(result).toStrictEqual(expected);
+  });
+
+  it('creates integer formats when integerFormat is set', () => {
+    const int32: Schema = {
+      type: 'schema',
+      schema: {
+        type: 'integer',
+        format: 'int32',
+        minimum: 0,
+        exclusiveMaximum: 2 ** 31,
+      },
+    };
+    const int64: Schema = {
+      type: 'schema',
+      schema: {
+        type: 'integer',
+        format: 'int64',
+        minimum: Number.MIN_SAFE_INTEGER,
+        maximum: Number.MAX_SAFE_INTEGER,
+      },
+    };
+    const state = createOutputState(undefined, { integerFormat: true });
+
+    expect(
+      createNumberSchema(
+        z
+          .number()
+          .int()
+          .min(0)
+          .lt(2 ** 31),
+        state,
+      ),
+    ).toStrictEqual(int32);
+    expect(createNumberSchema(z.number().int().safe(), state)).toStrictEqual(
+      int64,
+    );
+    expect(createNumberSchema(z.number().int(), state)).toStrictEqual({
+      type: 'schema',
+      schema: { type: 'integer' },
+    });
+  });
 });
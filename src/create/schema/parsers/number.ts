@@ -13,13 +13,19 @@ export const createNumberSchema = (
 
   const minimum = mapMinimum(zodNumberChecks, state.components.openapi);
   const maximum = mapMaximum(zodNumberChecks, state.components.openapi);
+  const multipleOf = zodNumberChecks.multipleOf?.value;
+  const format = state.documentOptions?.integerFormat
+    ? mapIntegerFormat(zodNumberChecks)
+    : undefined;
 
   return {
     type: 'schema',
     schema: {
       type: mapNumberType(zodNumberChecks),
+      ...(format && { format }),
       ...(minimum && (minimum as oas31.SchemaObject)), // Union types are not easy to tame
       ...(maximum && (maximum as oas31.SchemaObject)),
+      ...(multipleOf !== undefined && { multipleOf }),
     },
   };
 };
@@ -69,17 +75,81 @@ export const mapMinimum = (
   return { minimum, exclusiveMinimum: true };
 };
 
-type ZodNumberCheckMap = {
+export type ZodNumberCheckMap = {
   [kind in ZodNumberCheck['kind']]?: Extract<ZodNumberCheck, { kind: kind }>;
 };
 
-const getZodNumberChecks = (zodNumber: ZodNumber): ZodNumberCheckMap =>
+/**
+ * A minimum or maximum check of a Zod number, bigint or string length
+ */
+export interface BoundCheck {
+  kind: 'min' | 'max';
+  value: number | bigint;
+  inclusive?: boolean;
+}
+
+/**
+ * Picks the most restrictive bound eg. `.positive().safe()` should keep the exclusive minimum of 0
+ */
+export const isMoreRestrictive = (
+  check: BoundCheck,
+  existing: BoundCheck | undefined,
+): boolean => {
+  if (!existing) {
+    return true;
+  }
+
+  if (check.value === existing.value) {
+    return !check.inclusive;
+  }
+
+  return check.kind === 'min'
+    ? check.value > existing.value
+    : check.value < existing.value;
+};
+
+export const getZodNumberChecks = (zodNumber: ZodNumber): ZodNumberCheckMap =>
   zodNumber._def.checks.reduce<ZodNumberCheckMap>((acc, check) => {
+    if (
+      (check.kind === 'min' || check.kind === 'max') &&
+      !isMoreRestrictive(check, acc[check.kind])
+    ) {
+      return acc;
+    }
     // union type issues
     acc[check.kind] = check as never;
     return acc;
   }, {});
 
+const INT32_MIN = -(2 ** 31);
+const INT32_MAX = 2 ** 31 - 1;
+const INT64_MIN = -(2 ** 63);
+const INT64_MAX = 2 ** 63 - 1;
+
+const mapIntegerFormat = (
+  zodNumberChecks: ZodNumberCheckMap,
+): 'int32' | 'int64' | undefined => {
+  if (!zodNumberChecks.int || !zodNumberChecks.min || !zodNumberChecks.max) {
+    return undefined;
+  }
+
+  // An exclusive bound on an integer excludes the bound itself
+  const minimum =
+    zodNumberChecks.min.value + (zodNumberChecks.min.inclusive ? 0 : 1);
+  const maximum =
+    zodNumberChecks.max.value - (zodNumberChecks.max.inclusive ? 0 : 1);
+
+  if (minimum >= INT32_MIN && maximum <= INT32_MAX) {
+    return 'int32';
+  }
+
+  if (minimum >= INT64_MIN && maximum <= INT64_MAX) {
+    return 'int64';
+  }
+
+  return undefined;
+};
+
 const mapNumberType = (
   zodNumberChecks: ZodNumberCheckMap,
 ): oas31.SchemaObject['type'] => (zodNumberChecks.int ? 'integer' : 'number');
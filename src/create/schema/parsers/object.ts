@@ -10,7 +10,7 @@ import type {
 
 import type { oas31 } from '../../../openapi3-ts/dist';
 import { isZodType } from '../../../zodType';
-import { type Effect, createComponentSchemaRef } from '../../components';
+import { type Effect, createComponentSchemaVariantRef } from '../../components';
 import {
   type Schema,
   type SchemaState,
@@ -109,9 +109,10 @@ export const createExtendedSchema = <
     schema: {
       allOf: [
         {
-          $ref: createComponentSchemaRef(
+          $ref: createComponentSchemaVariantRef(
             completeComponent.ref,
-            state.documentOptions?.componentRefPath,
+            baseZodObject,
+            state,
           ),
         },
       ],
@@ -1,8 +1,9 @@
 import '../../../entries/extend';
-import { type ZodString, z } from 'zod';
+import { type ZodString, datetimeRegex, z } from 'zod';
 
 import type { Schema } from '..';
 import {
+  createInputState,
   createOutputOpenapi3State,
   createOutputState,
 } from '../../../testing/state';
@@ -206,7 +207,6 @@ describe('createStringSchema', () => {
     ${z.string().uuid()}     | ${'uuid'}
     ${z.string().email()}    | ${'email'}
     ${z.string().url()}      | ${'uri'}
-    ${z.string().datetime()} | ${'date-time'}
     ${z.string().date()}     | ${'date'}
     ${z.string().time()}     | ${'time'}
     ${z.string().duration()} | ${'duration'}
@@ -254,4 +254,222 @@ describe('createStringSchema', () => {
 
     expect(result).toStrictEqual(expected);
   });
+
+  it.each`
+    zodString                           | format
+    ${z.string().ip({ version: 'v4' })} | ${'ipv4'}
+    ${z.string().ip({ version: 'v6' })} | ${'ipv6'}
+  `(
+    'creates a string schema with $format',
+    ({ zodString, format }: { zodString: ZodString; format: string }) => {
+      const expected: Schema = {
+        type: 'schema',
+        schema: {
+          type: 'string',
+          format,
+        },
+      };
+      const result = createStringSchema(zodString, createOutputState());
+      expect(result).toStrictEqual(expected);
+    },
+  );
+
+  it.each`
+    name        | zodString              | valid
+    ${'ip'}     | ${z.string().ip()}     | ${['127.0.0.1', '::1']}
+    ${'emoji'}  | ${z.string().emoji()}  | ${['😀']}
+    ${'cuid'}   | ${z.string().cuid()}   | ${['cjld2cjxh0000qzrmn831i7rn']}
+    ${'cuid2'}  | ${z.string().cuid2()}  | ${['tz4a98xxat96iws9zmbrgj3a']}
+    ${'ulid'}   | ${z.string().ulid()}   | ${['01ARZ3NDEKTSV4RRFFQ69G5FAV']}
+    ${'nanoid'} | ${z.string().nanoid()} | ${['V1StGXR8_Z5jdHi6B-myT']}
+  `(
+    'creates a string schema with a $name pattern',
+    ({ zodString, valid }: { zodString: ZodString; valid: string[] }) => {
+      const result = createStringSchema(zodString, createOutputState());
+
+      expect(result.type).toBe('schema');
+      const { pattern, ...rest } = result.schema as { pattern: string };
+      expect(rest).toStrictEqual({ type: 'string' });
+      for (const value of valid) {
+        expect(zodString.safeParse(value).success).toBe(true);
+        expect(new RegExp(pattern, 'u').test(value)).toBe(true);
+      }
+      expect(new RegExp(pattern, 'u').test('not valid!')).toBe(false);
+    },
+  );
+
+  it('supports checks from newer versions of Zod', () => {
+    const withChecks = (checks: unknown[]) =>
+      new z.ZodString({
+        ...z.string()._def,
+        checks: checks as ZodString['_def']['checks'],
+      });
+
+    const cidr = createStringSchema(
+      withChecks([{ kind: 'cidr', version: 'v4' }]),
+      createOutputState(),
+    );
+    const jwt = createStringSchema(
+      withChecks([{ kind: 'jwt' }]),
+      createOutputState(),
+    );
+    const base64url = createStringSchema(
+      withChecks([{ kind: 'base64url' }]),
+      createOutputState(),
+    );
+
+    const cidrPattern = (cidr.schema as { pattern: string }).pattern;
+    expect(new RegExp(cidrPattern).test('10.0.0.0/8')).toBe(true);
+    expect(new RegExp(cidrPattern).test('10.0.0.0')).toBe(false);
+    const jwtPattern = (jwt.schema as { pattern: string }).pattern;
+    expect(new RegExp(jwtPattern).test('aGVhZGVy.cGF5bG9hZA.c2ln')).toBe(true);
+    expect(base64url.schema).toStrictEqual({
+      type: 'string',
+      contentEncoding: 'base64url',
+    });
+  });
+
+  it('creates a base64url pattern in 3.0.0', () => {
+    const base64url = createStringSchema(
+      new z.ZodString({
+        ...z.string()._def,
+        checks: [
+          { kind: 'base64url' },
+        ] as unknown as ZodString['_def']['checks'],
+      }),
+      createOutputOpenapi3State(),
+    );
+
+    const { pattern, ...rest } = base64url.schema as { pattern: string };
+    expect(rest).toStrictEqual({ type: 'string' });
+    expect(new RegExp(pattern, 'u').test('em9kLW9wZW5hcGk')).toBe(true);
+    expect(new RegExp(pattern, 'u').test('em9k_-9w')).toBe(true);
+    expect(new RegExp(pattern, 'u').test('em9k+/9w')).toBe(false);
+  });
+
+  it('uses the stringFormatMap option to override mappings', () => {
+    const expected: Schema = {
+      type: 'schema',
+      schema: {
+        type: 'string',
+        format: 'cuid',
+      },
+    };
+
+    const result = createStringSchema(
+      z.string().cuid(),
+      createOutputState(undefined, {
+        stringFormatMap: { cuid: { format: 'cuid' } },
+      }),
+    );
+
+    expect(result).toStrictEqual(expected);
+  });
+
+  it.each`
+    options
+    ${undefined}
+    ${{ precision: 3 }}
+    ${{ offset: true, precision: 0 }}
+  `(
+    'creates a date-time schema with the Zod pattern for $options',
+    ({ options }: { options: Parameters<ZodString['datetime']>[0] }) => {
+      const zodString = z.string().datetime(options);
+      const check = zodString._def.checks[0] as Parameters<
+        typeof datetimeRegex
+      >[0];
+      const expected: Schema = {
+        type: 'schema',
+        schema: {
+          type: 'string',
+          format: 'date-time',
+          pattern: datetimeRegex(check).source,
+        },
+      };
+
+      const result = createStringSchema(zodString, createOutputState());
+
+      expect(result).toStrictEqual(expected);
+    },
+  );
+
+  it('creates a date-time schema without a pattern when offsets are allowed', () => {
+    const expected: Schema = {
+      type: 'schema',
+      schema: {
+        type: 'string',
+        format: 'date-time',
+      },
+    };
+
+    const result = createStringSchema(
+      z.string().datetime({ offset: true }),
+      createOutputState(),
+    );
+
+    expect(result).toStrictEqual(expected);
+  });
+
+  it('does not add a date-time format for local datetimes', () => {
+    const zodString = z.string().datetime({ local: true });
+
+    const result = createStringSchema(zodString, createOutputState());
+
+    expect(result.schema).not.toHaveProperty('format');
+    const { pattern } = result.schema as { pattern: string };
+    expect(new RegExp(pattern).test('2020-01-01T00:00:00')).toBe(true);
+  });
+
+  it('creates a time schema with a pattern when precision is set', () => {
+    const expected: Schema = {
+      type: 'schema',
+      schema: {
+        type: 'string',
+        format: 'time',
+        pattern: '^([01]\\d|2[0-3]):[0-5]\\d:[0-5]\\d\\.\\d{3}$',
+      },
+    };
+
+    const result = createStringSchema(
+      z.string().time({ precision: 3 }),
+      createOutputState(),
+    );
+
+    expect(result).toStrictEqual(expected);
+  });
+
+  it('lists transforms in x-zod-transforms for output schemas', () => {
+    const expected: Schema = {
+      type: 'schema',
+      schema: {
+        type: 'string',
+        'x-zod-transforms': ['trim', 'toLowerCase'],
+      },
+    };
+    const schema = z.string().toLowerCase().trim();
+
+    const result = createStringSchema(
+      schema,
+      createOutputState(undefined, { zodTransformsExtension: true }),
+    );
+
+    expect(result).toStrictEqual(expected);
+  });
+
+  it('does not list transforms for input schemas', () => {
+    const expected: Schema = {
+      type: 'schema',
+      schema: {
+        type: 'string',
+      },
+    };
+    const schema = z.string().toUpperCase();
+
+    const result = createStringSchema(schema, {
+      ...createInputState(),
+      documentOptions: { zodTransformsExtension: true },
+    });
+
+    expect(result).toStrictEqual(expected);
+  });
 });
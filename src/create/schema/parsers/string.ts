@@ -3,21 +3,30 @@ import type { ZodString, ZodStringCheck } from 'zod';
 import type { Schema, SchemaState } from '..';
 import { satisfiesVersion } from '../../../openapi';
 import type { oas31 } from '../../../openapi3-ts/dist';
+import type { StringFormatSchema, ZodStringFormat } from '../../document';
 
 export const createStringSchema = (
   zodString: ZodString,
   state: SchemaState,
 ): Schema => {
   const zodStringChecks = getZodStringChecks(zodString);
-  const format = mapStringFormat(zodStringChecks);
-  const patterns = mapPatterns(zodStringChecks);
+  const formats = mapStringFormats(zodStringChecks, state);
+  const format = formats.find((f) => f.format)?.format;
+  const patterns = [
+    ...mapPatterns(zodStringChecks),
+    ...formats.flatMap((f) => (f.pattern ? [f.pattern] : [])),
+  ];
   const minLength =
     zodStringChecks.length?.[0]?.value ?? zodStringChecks.min?.[0]?.value;
   const maxLength =
     zodStringChecks.length?.[0]?.value ?? zodStringChecks.max?.[0]?.value;
   const contentEncoding = satisfiesVersion(state.components.openapi, '3.1.0')
-    ? mapContentEncoding(zodStringChecks)
+    ? formats.find((f) => f.contentEncoding)?.contentEncoding
     : undefined;
+  const transforms =
+    state.type === 'output' && state.documentOptions?.zodTransformsExtension
+      ? mapTransforms(zodStringChecks)
+      : undefined;
 
   if (patterns.length <= 1) {
     return {
@@ -29,6 +38,7 @@ export const createStringSchema = (
         ...(minLength !== undefined && { minLength }),
         ...(maxLength !== undefined && { maxLength }),
         ...(contentEncoding && { contentEncoding }),
+        ...(transforms && { 'x-zod-transforms': transforms }),
       },
     };
   }
@@ -44,6 +54,7 @@ export const createStringSchema = (
           ...(minLength !== undefined && { minLength }),
           ...(maxLength !== undefined && { maxLength }),
           ...(contentEncoding && { contentEncoding }),
+          ...(transforms && { 'x-zod-transforms': transforms }),
         },
         ...patterns.slice(1).map(
           (pattern): oas31.SchemaObject => ({
@@ -56,16 +67,25 @@ export const createStringSchema = (
   };
 };
 
+/**
+ * String checks which were added in later versions of Zod
+ */
+type ZodStringCheckCompat =
+  | ZodStringCheck
+  | { kind: 'cidr'; version?: 'v4' | 'v6'; message?: string }
+  | { kind: 'jwt'; alg?: string; message?: string }
+  | { kind: 'base64url'; message?: string };
+
 type ZodStringCheckMap = {
-  [kind in ZodStringCheck['kind']]?: [
-    Extract<ZodStringCheck, { kind: kind }>,
-    ...Array<Extract<ZodStringCheck, { kind: kind }>>,
+  [kind in ZodStringCheckCompat['kind']]?: [
+    Extract<ZodStringCheckCompat, { kind: kind }>,
+    ...Array<Extract<ZodStringCheckCompat, { kind: kind }>>,
   ];
 };
 
 const getZodStringChecks = (zodString: ZodString): ZodStringCheckMap =>
-  zodString._def.checks.reduce<ZodStringCheckMap>(
-    (acc, check: ZodStringCheck) => {
+  (zodString._def.checks as ZodStringCheckCompat[]).reduce<ZodStringCheckMap>(
+    (acc, check) => {
       const mapping = acc[check.kind];
       if (mapping) {
         mapping.push(check as never);
@@ -130,46 +150,159 @@ const mapIncludes = (
     return includeCheck.value;
   });
 
-const mapStringFormat = (
+// Listed in order of precedence for the `format` keyword
+const stringFormats: ZodStringFormat[] = [
+  'uuid',
+  'datetime',
+  'date',
+  'time',
+  'duration',
+  'email',
+  'url',
+  'ip',
+  'cidr',
+  'emoji',
+  'cuid',
+  'cuid2',
+  'ulid',
+  'nanoid',
+  'jwt',
+  'base64',
+  'base64url',
+];
+
+const mapStringFormats = (
   zodStringChecks: ZodStringCheckMap,
-): oas31.SchemaObject['format'] => {
-  if (zodStringChecks.uuid) {
-    return 'uuid';
-  }
+  state: SchemaState,
+): StringFormatSchema[] =>
+  stringFormats.flatMap((kind) => {
+    const check = zodStringChecks[kind]?.[0];
+    if (!check) {
+      return [];
+    }
 
-  if (zodStringChecks.datetime) {
-    return 'date-time';
-  }
+    const formatSchema =
+      state.documentOptions?.stringFormatMap?.[kind] ??
+      mapStringFormat(check, state);
 
-  if (zodStringChecks.date) {
-    return 'date';
-  }
+    return formatSchema ? [formatSchema] : [];
+  });
 
-  if (zodStringChecks.time) {
-    return 'time';
+// Patterns match the regular expressions Zod uses to validate these formats
+const cuidPattern = '^[cC][^\\s-]{8,}$';
+const cuid2Pattern = '^[0-9a-z]+$';
+const ulidPattern = '^[0-9A-HJKMNP-TV-Z]{26}$';
+const nanoidPattern = '^[a-zA-Z0-9_-]{21}$';
+const emojiPattern = '^(\\p{Extended_Pictographic}|\\p{Emoji_Component})+$';
+// https://github.com/colinhacks/zod/blob/v3.24.0/src/types.ts
+const base64urlPattern =
+  '^([0-9a-zA-Z_-]{4})*(([0-9a-zA-Z_-]{2}(==)?)|([0-9a-zA-Z_-]{3}(=)?))?$';
+const jwtPattern = '^[A-Za-z0-9_-]+\\.[A-Za-z0-9_-]+\\.[A-Za-z0-9_-]*$';
+const ipv4Source =
+  '(?:(?:25[0-5]|2[0-4][0-9]|1[0-9][0-9]|[1-9][0-9]|[0-9])\\.){3}(?:25[0-5]|2[0-4][0-9]|1[0-9][0-9]|[1-9][0-9]|[0-9])';
+const ipv6Source =
+  '(([a-f0-9]{1,4}:){7}|::([a-f0-9]{1,4}:){0,6}|([a-f0-9]{1,4}:){1}:([a-f0-9]{1,4}:){0,5}|([a-f0-9]{1,4}:){2}:([a-f0-9]{1,4}:){0,4}|([a-f0-9]{1,4}:){3}:([a-f0-9]{1,4}:){0,3}|([a-f0-9]{1,4}:){4}:([a-f0-9]{1,4}:){0,2}|([a-f0-9]{1,4}:){5}:([a-f0-9]{1,4}:){0,1})([a-f0-9]{1,4}|(((25[0-5])|(2[0-4][0-9])|(1[0-9]{2})|([0-9]{1,2}))\\.){3}((25[0-5])|(2[0-4][0-9])|(1[0-9]{2})|([0-9]{1,2})))';
+// https://github.com/colinhacks/zod/blob/v3.23.8/src/types.ts
+const dateSource =
+  '((\\d\\d[2468][048]|\\d\\d[13579][26]|\\d\\d0[48]|[02468][048]00|[13579][26]00)-02-29|\\d{4}-((0[13578]|1[02])-(0[1-9]|[12]\\d|3[01])|(0[469]|11)-(0[1-9]|[12]\\d|30)|(02)-(0[1-9]|1\\d|2[0-8])))';
+const createTimeSource = (precision: number | null) => {
+  const source = '([01]\\d|2[0-3]):[0-5]\\d:[0-5]\\d';
+  if (precision) {
+    return `${source}\\.\\d{${precision}}`;
   }
-
-  if (zodStringChecks.duration) {
-    return 'duration';
+  if (precision === null) {
+    return `${source}(\\.\\d+)?`;
   }
-
-  if (zodStringChecks.email) {
-    return 'email';
+  return source;
+};
+const createDatetimePattern = (
+  check: Extract<ZodStringCheck, { kind: 'datetime' }>,
+) => {
+  const offsets = [check.local ? 'Z?' : 'Z'];
+  if (check.offset) {
+    offsets.push('([+-]\\d{2}:?\\d{2})');
   }
+  return `^${dateSource}T${createTimeSource(check.precision)}(${offsets.join('|')})$`;
+};
+const ipv4CidrSource = `${ipv4Source}\\/(3[0-2]|[12]?[0-9])`;
+const ipv6CidrSource = `${ipv6Source}\\/(12[0-8]|1[01][0-9]|[1-9]?[0-9])`;
 
-  if (zodStringChecks.url) {
-    return 'uri';
+const mapStringFormat = (
+  check: ZodStringCheckCompat,
+  state: SchemaState,
+): StringFormatSchema | undefined => {
+  switch (check.kind) {
+    case 'uuid':
+      return { format: 'uuid' };
+    case 'datetime':
+      // Zod's default of rejecting offsets is narrower than `date-time` whilst `local` accepts values `date-time` does not
+      if (check.offset && !check.local && check.precision === null) {
+        return { format: 'date-time' };
+      }
+      return {
+        ...(!check.local && { format: 'date-time' }),
+        pattern: createDatetimePattern(check),
+      };
+    case 'date':
+      return { format: 'date' };
+    case 'time':
+      return {
+        format: 'time',
+        ...(check.precision !== null && {
+          pattern: `^${createTimeSource(check.precision)}$`,
+        }),
+      };
+    case 'duration':
+      return { format: 'duration' };
+    case 'email':
+      return { format: 'email' };
+    case 'url':
+      return { format: 'uri' };
+    case 'ip':
+      if (check.version === 'v4') {
+        return { format: 'ipv4' };
+      }
+      if (check.version === 'v6') {
+        return { format: 'ipv6' };
+      }
+      return { pattern: `^(?:${ipv4Source}|${ipv6Source})$` };
+    case 'cidr':
+      if (check.version === 'v4') {
+        return { pattern: `^${ipv4CidrSource}$` };
+      }
+      if (check.version === 'v6') {
+        return { pattern: `^${ipv6CidrSource}$` };
+      }
+      return { pattern: `^(?:${ipv4CidrSource}|${ipv6CidrSource})$` };
+    case 'emoji':
+      return { pattern: emojiPattern };
+    case 'cuid':
+      return { pattern: cuidPattern };
+    case 'cuid2':
+      return { pattern: cuid2Pattern };
+    case 'ulid':
+      return { pattern: ulidPattern };
+    case 'nanoid':
+      return { pattern: nanoidPattern };
+    case 'jwt':
+      return { pattern: jwtPattern };
+    case 'base64':
+      return { contentEncoding: 'base64' };
+    case 'base64url':
+      // OpenAPI 3.0 has no contentEncoding so the URL safe alphabet is described with a pattern
+      return satisfiesVersion(state.components.openapi, '3.1.0')
+        ? { contentEncoding: 'base64url' }
+        : { pattern: base64urlPattern };
+    default:
+      return undefined;
   }
-
-  return undefined;
 };
 
-const mapContentEncoding = (
+const mapTransforms = (
   zodStringChecks: ZodStringCheckMap,
-): string | undefined => {
-  if (zodStringChecks.base64) {
-    return 'base64';
-  }
-
-  return undefined;
+): string[] | undefined => {
+  const transforms = (['trim', 'toLowerCase', 'toUpperCase'] as const).filter(
+    (kind) => zodStringChecks[kind],
+  );
+  return transforms.length ? transforms : undefined;
 };
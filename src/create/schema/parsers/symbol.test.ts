@@ -0,0 +1,20 @@
+import { z } from 'zod';
+
+import type { Schema } from '..';
+
+import { createSymbolSchema } from './symbol';
+
+describe('createSymbolSchema', () => {
+  it('creates a schema which matches nothing', () => {
+    const expected: Schema = {
+      type: 'schema',
+      schema: {
+        not: {},
+      },
+    };
+
+    const result = createSymbolSchema(z.symbol());
+
+    expect(result).toStrictEqual(expected);
+  });
+});
@@ -0,0 +1,13 @@
+import type { ZodSymbol } from 'zod';
+
+import type { Schema } from '..';
+
+/**
+ * Symbols cannot be serialised to JSON so no value can satisfy it.
+ */
+export const createSymbolSchema = (_zodSymbol: ZodSymbol): Schema => ({
+  type: 'schema',
+  schema: {
+    not: {},
+  },
+});
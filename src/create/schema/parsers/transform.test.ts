@@ -4,7 +4,7 @@ import { z } from 'zod';
 import type { Schema } from '..';
 import { createInputState, createOutputState } from '../../../testing/state';
 
-import { createTransformSchema, throwTransformError } from './transform';
+import { createTransformSchema, reportTransformError } from './transform';
 
 describe('createTransformSchema', () => {
   describe('input', () => {
@@ -161,14 +161,17 @@ describe('createTransformSchema', () => {
   });
 });
 
-describe('throwTransformError', () => {
+describe('reportTransformError', () => {
   it('throws an transform error', () => {
     expect(() =>
-      throwTransformError({
-        creationType: 'input',
-        zodType: z.string().openapi({ description: 'a' }),
-        path: ['previous', 'path'],
-      }),
+      reportTransformError(
+        {
+          creationType: 'input',
+          zodType: z.string().openapi({ description: 'a' }),
+          path: ['previous', 'path'],
+        },
+        createOutputState(),
+      ),
     ).toThrowErrorMatchingInlineSnapshot(`
 "The ZodString at previous > path is used within a registered compoment schema and contains an input transformation which is also used in an output schema.
 
@@ -178,7 +181,8 @@ This may cause the schema to render incorrectly and is most likely a mistake. Yo
 2. Wrapping the transformation in a ZodPipeline
 3. Assigning a manual type to the transformation eg. \`.openapi({type: 'string'})\`
 4. Removing the transformation
-5. Deregister the component containing the transformation"
+5. Deregister the component containing the transformation
+6. Setting \`componentVariants\` to \`auto\` in the document options to register separate input and output components"
 `);
   });
 });
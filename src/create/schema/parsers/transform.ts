@@ -1,15 +1,12 @@
-import type {
-  ZodEffects,
-  ZodFirstPartyTypeKind,
-  ZodType,
-  ZodTypeAny,
-  input,
-  output,
-} from 'zod';
+import type { ZodEffects, ZodTypeAny, input, output } from 'zod';
 
 import type { oas31 } from '../../../openapi3-ts/dist';
-import { isZodType } from '../../../zodType';
 import type { Effect, ResolvedEffect } from '../../components';
+import {
+  getZodTypeName,
+  reportDiagnostic,
+  reportSchemaError,
+} from '../../diagnostics';
 import {
   type Schema,
   type SchemaState,
@@ -78,11 +75,15 @@ export const createManualOutputTransformSchema = <
   if (!zodTransform._def.openapi?.type) {
     const zodType = zodTransform.constructor.name;
     const schemaName = `${zodType} - ${zodTransform._def.effect.type}`;
-    throw new Error(
+    reportSchemaError(
+      state,
+      'unknown-transform',
       `Failed to determine a type for ${schemaName} at ${state.path.join(
         ' > ',
       )}. Please change the 'effectType' to 'input', wrap it in a ZodPipeline or assign it a manual 'type'.`,
+      schemaName,
     );
+    return {};
   }
 
   return {
@@ -90,19 +91,19 @@ export const createManualOutputTransformSchema = <
   };
 };
 
-const getZodTypeName = (zodType: ZodType): string => {
-  if (isZodType(zodType, 'ZodEffects')) {
-    return `${zodType._def.typeName} - ${zodType._def.effect.type}`;
-  }
-  return (zodType._def as { typeName: ZodFirstPartyTypeKind }).typeName;
-};
-
-export const throwTransformError = (effect: ResolvedEffect) => {
+export const reportTransformError = (
+  effect: ResolvedEffect,
+  state: SchemaState,
+) => {
   const typeName = getZodTypeName(effect.zodType);
   const input = effect.creationType;
   const opposite = input === 'input' ? 'output' : 'input';
-  throw new Error(
-    `The ${typeName} at ${effect.path.join(
+  reportDiagnostic(state.components.diagnostics, {
+    severity: 'error',
+    code: 'transform-conflict',
+    subpath: effect.path,
+    zodType: typeName,
+    message: `The ${typeName} at ${effect.path.join(
       ' > ',
     )} is used within a registered compoment schema${
       effect.component ? ` (${effect.component.ref})` : ''
@@ -120,8 +121,9 @@ This may cause the schema to render incorrectly and is most likely a mistake. Yo
 2. Wrapping the transformation in a ZodPipeline
 3. Assigning a manual type to the transformation eg. \`.openapi({type: 'string'})\`
 4. Removing the transformation
-5. Deregister the component containing the transformation`,
-  );
+5. Deregister the component containing the transformation
+6. Setting \`componentVariants\` to \`auto\` in the document options to register separate input and output components`,
+  });
 };
 
 const resolveSingleEffect = (
@@ -197,7 +199,7 @@ export const resolveEffect = (
         acc.input.length > 1 &&
         acc.output.length > 1
       ) {
-        throwTransformError(resolvedSchemaEffect);
+        reportTransformError(resolvedSchemaEffect, state);
       }
       return acc;
     },
@@ -221,7 +223,7 @@ export const resolveEffect = (
 export const verifyEffects = (effects: Effect[], state: SchemaState) => {
   const resolved = resolveEffect(effects, state);
   if (resolved?.creationType && resolved.creationType !== state.type) {
-    throwTransformError(resolved);
+    reportTransformError(resolved, state);
   }
 };
 
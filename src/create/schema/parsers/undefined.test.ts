@@ -0,0 +1,20 @@
+import { z } from 'zod';
+
+import type { Schema } from '..';
+
+import { createUndefinedSchema } from './undefined';
+
+describe('createUndefinedSchema', () => {
+  it('creates a schema which matches nothing', () => {
+    const expected: Schema = {
+      type: 'schema',
+      schema: {
+        not: {},
+      },
+    };
+
+    const result = createUndefinedSchema(z.undefined());
+
+    expect(result).toStrictEqual(expected);
+  });
+});
@@ -0,0 +1,13 @@
+import type { ZodUndefined } from 'zod';
+
+import type { Schema } from '..';
+
+/**
+ * `undefined` has no JSON representation so no value can satisfy it. Object properties of this type are omitted.
+ */
+export const createUndefinedSchema = (_zodUndefined: ZodUndefined): Schema => ({
+  type: 'schema',
+  schema: {
+    not: {},
+  },
+});
@@ -2,7 +2,10 @@ import '../../../entries/extend';
 import { z } from 'zod';
 
 import type { Schema } from '..';
-import { createOutputState } from '../../../testing/state';
+import {
+  createOutputOpenapi3State,
+  createOutputState,
+} from '../../../testing/state';
 
 import { createUnionSchema } from './union';
 
@@ -100,4 +103,156 @@ describe('createUnionSchema', () => {
 
     expect(result).toEqual(expected);
   });
+
+  it('collapses a union of primitive schemas which includes null into a type array', () => {
+    const expected: Schema = {
+      type: 'schema',
+      schema: {
+        type: ['string', 'number', 'null'],
+        minLength: 1,
+        minimum: 0,
+      },
+    };
+    const schema = z.union([z.string().min(1), z.number().min(0), z.null()]);
+
+    const result = createUnionSchema(schema, createOutputState());
+
+    expect(result).toEqual(expected);
+  });
+
+  it('collapses a union of enums which includes null into a single enum', () => {
+    const expected: Schema = {
+      type: 'schema',
+      schema: {
+        type: ['string', 'null'],
+        enum: ['a', 'b', null],
+      },
+    };
+    const schema = z.union([z.enum(['a', 'b']), z.null()]);
+
+    const result = createUnionSchema(schema, createOutputState());
+
+    expect(result).toEqual(expected);
+  });
+
+  it('does not collapse a union with null which cannot be merged', () => {
+    const expected: Schema = {
+      type: 'schema',
+      schema: {
+        anyOf: [
+          { type: 'integer', minimum: 0 },
+          { type: 'number', maximum: 1 },
+          { type: 'null' },
+        ],
+      },
+    };
+    const schema = z.union([
+      z.number().int().min(0),
+      z.number().max(1),
+      z.null(),
+    ]);
+
+    const result = createUnionSchema(schema, createOutputState());
+
+    expect(result).toEqual(expected);
+  });
+
+  it('does not collapse a union with null in openapi 3.0.0', () => {
+    const expected: Schema = {
+      type: 'schema',
+      schema: {
+        anyOf: [{ type: 'string' }, { type: 'null' }],
+      },
+    };
+    const schema = z.union([z.string(), z.null()]);
+
+    const result = createUnionSchema(schema, createOutputOpenapi3State());
+
+    expect(result).toEqual(expected);
+  });
+
+  it('collapses a union of literals into a single enum', () => {
+    const expected: Schema = {
+      type: 'schema',
+      schema: {
+        type: 'string',
+        enum: ['a', 'b'],
+      },
+    };
+    const schema = z.union([z.literal('a'), z.literal('b')]);
+
+    const result = createUnionSchema(schema, createOutputState());
+
+    expect(result).toEqual(expected);
+  });
+
+  it('collapses nested unions of literals, enums and native enums into a single enum', () => {
+    enum Direction {
+      Up = 'up',
+      Down = 'down',
+    }
+    const expected: Schema = {
+      type: 'schema',
+      schema: {
+        type: 'string',
+        enum: ['a', 'b', 'c', 'up', 'down'],
+      },
+    };
+    const schema = z.union([
+      z.union([z.literal('a'), z.literal('b')]),
+      z.enum(['b', 'c']),
+      z.nativeEnum(Direction),
+    ]);
+
+    const result = createUnionSchema(schema, createOutputState());
+
+    expect(result).toEqual(expected);
+  });
+
+  it('collapses a union of literals of different types into a type array', () => {
+    const expected: Schema = {
+      type: 'schema',
+      schema: {
+        type: ['string', 'number', 'boolean'],
+        enum: ['a', 1, true],
+      },
+    };
+    const schema = z.union([z.literal('a'), z.literal(1), z.literal(true)]);
+
+    const result = createUnionSchema(schema, createOutputState());
+
+    expect(result).toEqual(expected);
+  });
+
+  it('collapses a union of literals of one type in openapi 3.0.0', () => {
+    const expected: Schema = {
+      type: 'schema',
+      schema: {
+        type: 'string',
+        enum: ['a', 'b'],
+      },
+    };
+    const schema = z.union([z.literal('a'), z.literal('b')]);
+
+    const result = createUnionSchema(schema, createOutputOpenapi3State());
+
+    expect(result).toEqual(expected);
+  });
+
+  it('does not collapse a union of literals of different types in openapi 3.0.0', () => {
+    const expected: Schema = {
+      type: 'schema',
+      schema: {
+        anyOf: [
+          { type: 'string', enum: ['a'] },
+          { type: 'number', enum: [1] },
+        ],
+      },
+    };
+    const schema = z.union([z.literal('a'), z.literal(1)]);
+
+    const result = createUnionSchema(schema, createOutputOpenapi3State());
+
+    expect(result).toEqual(expected);
+  });
 });
@@ -1,11 +1,14 @@
 import type { ZodTypeAny, ZodUnion } from 'zod';
 
+import { satisfiesVersion } from '../../../openapi';
 import {
   type Schema,
   type SchemaState,
   createSchemaObject,
 } from '../../schema';
 
+import { collapseEnumUnion } from './enumUnion';
+import { collapseNullUnion } from './nullUnion';
 import { flattenEffects } from './transform';
 
 export const createUnionSchema = <
@@ -18,11 +21,25 @@ export const createUnionSchema = <
     createSchemaObject(option, state, [`union option ${index}`]),
   );
 
+  const options = schemas.map((s) => s.schema);
+  const collapsed =
+    collapseEnumUnion(options, state.components.openapi) ??
+    (satisfiesVersion(state.components.openapi, '3.1.0')
+      ? collapseNullUnion(options)
+      : undefined);
+  if (collapsed) {
+    return {
+      type: 'schema',
+      schema: collapsed,
+      effects: flattenEffects(schemas.map((s) => s.effects)),
+    };
+  }
+
   if (zodUnion._def.openapi?.unionOneOf ?? state.documentOptions?.unionOneOf) {
     return {
       type: 'schema',
       schema: {
-        oneOf: schemas.map((s) => s.schema),
+        oneOf: options,
       },
       effects: flattenEffects(schemas.map((s) => s.effects)),
     };
@@ -31,7 +48,7 @@ export const createUnionSchema = <
   return {
     type: 'schema',
     schema: {
-      anyOf: schemas.map((s) => s.schema),
+      anyOf: options,
     },
     effects: flattenEffects(schemas.map((s) => s.effects)),
   };
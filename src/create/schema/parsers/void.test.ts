@@ -0,0 +1,20 @@
+import { z } from 'zod';
+
+import type { Schema } from '..';
+
+import { createVoidSchema } from './void';
+
+describe('createVoidSchema', () => {
+  it('creates a schema which matches nothing', () => {
+    const expected: Schema = {
+      type: 'schema',
+      schema: {
+        not: {},
+      },
+    };
+
+    const result = createVoidSchema(z.void());
+
+    expect(result).toStrictEqual(expected);
+  });
+});
@@ -0,0 +1,13 @@
+import type { ZodVoid } from 'zod';
+
+import type { Schema } from '..';
+
+/**
+ * `void` only accepts `undefined` which has no JSON representation so no value can satisfy it.
+ */
+export const createVoidSchema = (_zodVoid: ZodVoid): Schema => ({
+  type: 'schema',
+  schema: {
+    not: {},
+  },
+});
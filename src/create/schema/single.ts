@@ -2,6 +2,7 @@ import type { ZodType } from 'zod';
 
 import type { OpenApiVersion } from '../../openapi';
 import type { oas30, oas31 } from '../../openapi3-ts/dist';
+import { createWithAutoRef } from '../autoRef';
 import {
   type CreationType,
   createSchemaComponents,
@@ -43,27 +44,33 @@ export interface CreateSchemaOptions extends CreateDocumentOptions {
 export const createSchema = (
   zodType: ZodType,
   opts?: CreateSchemaOptions,
-): SchemaResult => {
-  const components = getDefaultComponents(
-    {
-      schemas: opts?.components,
-    },
-    opts?.openapi,
-  );
-  const state: SchemaState = {
-    components,
-    type: opts?.schemaType ?? 'output',
-    path: [],
-    visited: new Set(),
-    documentOptions: opts,
-  };
+): SchemaResult =>
+  createWithAutoRef(
+    () =>
+      getDefaultComponents(
+        {
+          schemas: opts?.components,
+        },
+        opts?.openapi,
+      ),
+    (components) => {
+      const state: SchemaState = {
+        components,
+        type: opts?.schemaType ?? 'output',
+        path: [],
+        visited: new Set(),
+        documentOptions: opts,
+      };
 
-  const schema = internalCreateSchema(zodType, state, ['createSchema']);
+      const schema = internalCreateSchema(zodType, state, ['createSchema']);
 
-  const schemaComponents = createSchemaComponents({}, components);
+      const schemaComponents = createSchemaComponents({}, components, opts);
 
-  return {
-    schema,
-    components: schemaComponents,
-  };
-};
+      return {
+        schema,
+        components: schemaComponents,
+      };
+    },
+    Object.keys(opts?.components ?? {}),
+    opts,
+  );
@@ -0,0 +1,143 @@
+import '../entries/extend';
+import { z } from 'zod';
+
+import type { Diagnostic } from './diagnostics';
+import { createDocument } from './document';
+import { createSecuritySchemes, defineSecurity } from './security';
+
+const responses = { '200': { description: '200 OK' } };
+
+const { securitySchemes, security } = defineSecurity({
+  apiKey: z
+    .string()
+    .describe('An API key issued to the client')
+    .openapi({ param: { in: 'header', name: 'x-api-key' } }),
+  oauth: {
+    type: 'oauth2',
+    flows: {
+      authorizationCode: {
+        authorizationUrl: 'https://example.com/authorize',
+        tokenUrl: 'https://example.com/token',
+        scopes: { 'jobs:read': 'Read jobs', 'jobs:write': 'Write jobs' },
+      },
+    },
+  },
+});
+
+describe('createSecuritySchemes', () => {
+  it('creates API key security schemes from Zod schemas', () => {
+    expect(createSecuritySchemes(securitySchemes)).toEqual({
+      apiKey: {
+        type: 'apiKey',
+        in: 'header',
+        name: 'x-api-key',
+        description: 'An API key issued to the client',
+      },
+      oauth: securitySchemes.oauth,
+    });
+  });
+
+  it('throws an error for a Zod schema without a param location', () => {
+    expect(() =>
+      createSecuritySchemes({
+        apiKey: z.string().openapi({ param: { in: 'path', name: 'key' } }),
+      }),
+    ).toThrow(
+      'Security scheme "apiKey" must declare a param name and a header, cookie or query location in .openapi()',
+    );
+  });
+
+  it('reports a diagnostic for a Zod schema without a param location', () => {
+    const diagnostics: Diagnostic[] = [];
+
+    expect(
+      createSecuritySchemes(
+        {
+          apiKey: z.string().openapi({ param: { in: 'path', name: 'key' } }),
+          oauth: securitySchemes.oauth,
+        },
+        diagnostics,
+      ),
+    ).toEqual({ oauth: securitySchemes.oauth });
+    expect(diagnostics).toEqual<Diagnostic[]>([
+      {
+        severity: 'error',
+        code: 'security-requirement',
+        message:
+          'Security scheme "apiKey" must declare a param name and a header, cookie or query location in .openapi()',
+        subpath: ['components', 'securitySchemes', 'apiKey'],
+        zodType: 'ZodString',
+      },
+    ]);
+  });
+});
+
+describe('defineSecurity', () => {
+  it('returns the security requirements', () => {
+    expect(security({ apiKey: [] }, { oauth: ['jobs:read'] })).toEqual([
+      { apiKey: [] },
+      { oauth: ['jobs:read'] },
+    ]);
+  });
+
+  it('rejects undeclared security schemes and scopes', () => {
+    security(
+      // @ts-expect-error basic is not declared
+      { basic: [] },
+    );
+
+    // @ts-expect-error jobs:delete is not declared
+    security({ oauth: ['jobs:delete'] });
+  });
+});
+
+describe('validateSecurityRequirements', () => {
+  it('creates a document with declared security requirements', () => {
+    const document = createDocument({
+      openapi: '3.1.0',
+      info: { title: 'My API', version: '1.0.0' },
+      security: security({ apiKey: [] }),
+      paths: {
+        '/jobs': {
+          post: { security: security({ oauth: ['jobs:write'] }), responses },
+        },
+      },
+      components: { securitySchemes },
+    });
+
+    expect(document.components?.securitySchemes?.apiKey).toEqual({
+      type: 'apiKey',
+      in: 'header',
+      name: 'x-api-key',
+      description: 'An API key issued to the client',
+    });
+  });
+
+  it('throws an error for an undeclared security scheme', () => {
+    expect(() =>
+      createDocument({
+        openapi: '3.1.0',
+        info: { title: 'My API', version: '1.0.0' },
+        paths: {
+          '/jobs': { get: { security: [{ basic: [] }], responses } },
+        },
+        components: { securitySchemes },
+      }),
+    ).toThrow(
+      'Security scheme "basic" is not declared in components.securitySchemes at /jobs > get > security',
+    );
+  });
+
+  it('throws an error for an undeclared OAuth2 scope', () => {
+    expect(() =>
+      createDocument({
+        openapi: '3.1.0',
+        info: { title: 'My API', version: '1.0.0' },
+        security: [{ oauth: ['jobs:delete'] }],
+        components: { securitySchemes },
+      }),
+    ).toThrow(
+      'Scope "jobs:delete" is not declared by security scheme "oauth" at security',
+    );
+  });
+});
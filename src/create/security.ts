@@ -0,0 +1,226 @@
+import type { ZodType } from 'zod';
+
+import { HTTP_METHODS } from '../openapi';
+import type { oas30, oas31 } from '../openapi3-ts/dist';
+import { isAnyZodType } from '../zodType';
+
+import {
+  type Diagnostic,
+  getZodTypeName,
+  reportDiagnostic,
+} from './diagnostics';
+import { isISpecificationExtension } from './specificationExtension';
+
+export type ZodOpenApiSecuritySchemeObject =
+  | ZodType
+  | oas31.SecuritySchemeObject
+  | oas31.ReferenceObject
+  | oas30.SecuritySchemeObject
+  | oas30.ReferenceObject;
+
+export type ZodOpenApiSecuritySchemesObject = Record<
+  string,
+  ZodOpenApiSecuritySchemeObject
+>;
+
+type OAuthScopes<Flows> = {
+  [Flow in keyof Flows]: NonNullable<Flows[Flow]> extends {
+    scopes: infer Scopes;
+  }
+    ? keyof Scopes & string
+    : never;
+}[keyof Flows];
+
+/**
+ * The scopes which can be required for a security scheme. Only OAuth2 schemes declare their scopes, other schemes
+ * accept any role names.
+ */
+export type SecuritySchemeScopes<Scheme> = Scheme extends {
+  type: 'oauth2';
+  flows: infer Flows;
+}
+  ? OAuthScopes<Flows>
+  : string;
+
+export type SecurityRequirement<
+  SecuritySchemes extends ZodOpenApiSecuritySchemesObject,
+> = {
+  [Name in keyof SecuritySchemes]?: Array<
+    SecuritySchemeScopes<SecuritySchemes[Name]>
+  >;
+};
+
+/**
+ * Creates the Security Scheme Object for an API key described by a Zod schema with `.openapi({ param })`
+ */
+export const createApiKeySecurityScheme = (
+  zodType: ZodType,
+  name: string,
+  diagnostics?: Diagnostic[],
+): oas31.SecuritySchemeObject | undefined => {
+  const param = zodType._def.openapi?.param;
+  if (
+    !param?.name ||
+    (param.in !== 'header' && param.in !== 'cookie' && param.in !== 'query')
+  ) {
+    reportDiagnostic(diagnostics, {
+      severity: 'error',
+      code: 'security-requirement',
+      message: `Security scheme "${name}" must declare a param name and a header, cookie or query location in .openapi()`,
+      subpath: ['components', 'securitySchemes', name],
+      zodType: getZodTypeName(zodType),
+    });
+    return undefined;
+  }
+
+  const description =
+    param.description ??
+    zodType._def.openapi?.description ??
+    zodType._def.description;
+
+  return {
+    type: 'apiKey',
+    in: param.in,
+    name: param.name,
+    ...(description && { description }),
+  };
+};
+
+export const createSecuritySchemes = (
+  securitySchemes: ZodOpenApiSecuritySchemesObject | undefined,
+  diagnostics?: Diagnostic[],
+): oas31.ComponentsObject['securitySchemes'] => {
+  if (!securitySchemes) {
+    return undefined;
+  }
+
+  return Object.fromEntries(
+    Object.entries(securitySchemes).flatMap(([name, scheme]) => {
+      if (!isAnyZodType(scheme)) {
+        return [
+          [name, scheme as oas31.SecuritySchemeObject | oas31.ReferenceObject],
+        ];
+      }
+      const apiKeyScheme = createApiKeySecurityScheme(
+        scheme,
+        name,
+        diagnostics,
+      );
+      return apiKeyScheme ? [[name, apiKeyScheme]] : [];
+    }),
+  );
+};
+
+/**
+ * Declares the security schemes of a document. Returns them for use in `components.securitySchemes` along with a
+ * `security` function whose requirements are type checked against the scheme names and OAuth2 scopes.
+ */
+export const defineSecurity = <
+  const SecuritySchemes extends ZodOpenApiSecuritySchemesObject,
+>(
+  securitySchemes: SecuritySchemes,
+) => ({
+  securitySchemes,
+  security: (
+    ...requirements: Array<SecurityRequirement<SecuritySchemes>>
+  ): Array<SecurityRequirement<SecuritySchemes>> => requirements,
+});
+
+const getDeclaredScopes = (
+  scheme: oas31.SecuritySchemeObject,
+): string[] | undefined =>
+  scheme.type === 'oauth2'
+    ? Object.values(scheme.flows ?? {}).flatMap((flow) =>
+        Object.keys((flow as oas31.OAuthFlowObject).scopes ?? {}),
+      )
+    : undefined;
+
+const validateSecurity = (
+  security: oas31.SecurityRequirementObject[] | undefined,
+  securitySchemes: oas31.ComponentsObject['securitySchemes'],
+  subpath: string[],
+  diagnostics: Diagnostic[] | undefined,
+) =>
+  security?.forEach((requirement) =>
+    Object.entries(requirement).forEach(([name, scopes]) => {
+      const scheme = securitySchemes?.[name];
+      if (!scheme) {
+        reportDiagnostic(diagnostics, {
+          severity: 'error',
+          code: 'security-requirement',
+          message: `Security scheme "${name}" is not declared in components.securitySchemes at ${subpath.join(' > ')}`,
+          subpath,
+        });
+        return;
+      }
+
+      const declaredScopes =
+        '$ref' in scheme ? undefined : getDeclaredScopes(scheme);
+      const scope = scopes.find((item) => !declaredScopes?.includes(item));
+      if (declaredScopes && scope !== undefined) {
+        reportDiagnostic(diagnostics, {
+          severity: 'error',
+          code: 'security-requirement',
+          message: `Scope "${scope}" is not declared by security scheme "${name}" at ${subpath.join(' > ')}`,
+          subpath,
+        });
+      }
+    }),
+  );
+
+const validatePathsSecurity = (
+  paths: oas31.PathsObject | undefined,
+  securitySchemes: oas31.ComponentsObject['securitySchemes'],
+  subpath: string[],
+  diagnostics: Diagnostic[] | undefined,
+) =>
+  Object.entries(paths ?? {}).forEach(([path, pathItem]) => {
+    if (isISpecificationExtension(path)) {
+      return;
+    }
+    HTTP_METHODS.forEach((method) => {
+      const operation = pathItem[method];
+      if (!operation) {
+        return;
+      }
+      validateSecurity(
+        operation.security,
+        securitySchemes,
+        [...subpath, path, method, 'security'],
+        diagnostics,
+      );
+      Object.entries(operation.callbacks ?? {}).forEach(([name, callback]) => {
+        if (!('$ref' in callback)) {
+          validatePathsSecurity(
+            callback as oas31.PathsObject,
+            securitySchemes,
+            [...subpath, path, method, 'callbacks', name],
+            diagnostics,
+          );
+        }
+      });
+    });
+  });
+
+/**
+ * Checks that the security requirements of a document only reference declared security schemes and OAuth2 scopes
+ */
+export const validateSecurityRequirements = (
+  document: oas31.OpenAPIObject,
+  diagnostics?: Diagnostic[],
+): void => {
+  const securitySchemes = document.components?.securitySchemes;
+  validateSecurity(
+    document.security,
+    securitySchemes,
+    ['security'],
+    diagnostics,
+  );
+  validatePathsSecurity(document.paths, securitySchemes, [], diagnostics);
+  validatePathsSecurity(
+    document.webhooks,
+    securitySchemes,
+    ['webhooks'],
+    diagnostics,
+  );
+};
@@ -0,0 +1,358 @@
+import '../entries/extend';
+import { z } from 'zod';
+
+import { createDocument } from '../create/document';
+import type { oas31 } from '../openapi3-ts/dist';
+
+import { diffDocuments, printDocumentDiff } from './diffDocuments';
+
+const createJobsDocument = ({
+  Job,
+  CreateJob,
+  query,
+}: {
+  Job: z.ZodType;
+  CreateJob: z.ZodType;
+  query: z.AnyZodObject;
+}) =>
+  createDocument({
+    openapi: '3.1.0',
+    info: { title: 'Jobs API', version: '1.0.0' },
+    paths: {
+      '/jobs': {
+        get: {
+          requestParams: { query },
+          responses: {
+            '200': {
+              description: '200 OK',
+              content: { 'application/json': { schema: z.array(Job) } },
+            },
+          },
+        },
+        post: {
+          requestBody: {
+            content: { 'application/json': { schema: CreateJob } },
+          },
+          responses: {
+            '201': {
+              description: '201 Created',
+              content: { 'application/json': { schema: Job } },
+            },
+          },
+        },
+      },
+    },
+  });
+
+const Status = z.enum(['open', 'closed']);
+
+const before = createJobsDocument({
+  Job: z
+    .object({ id: z.string(), title: z.string(), status: Status })
+    .openapi({ ref: 'Job' }),
+  CreateJob: z.object({ title: z.string(), status: Status }),
+  query: z.object({ status: Status.optional() }),
+});
+
+describe('diffDocuments', () => {
+  it('returns no changes for the same document', () => {
+    expect(diffDocuments(before, before)).toEqual({
+      breaking: false,
+      changes: [],
+    });
+  });
+
+  it('classifies request and response changes', () => {
+    const after = createJobsDocument({
+      Job: z
+        .object({
+          id: z.string(),
+          status: z.enum(['open', 'closed', 'archived']),
+          salary: z.number().optional(),
+        })
+        .openapi({ ref: 'Job' }),
+      CreateJob: z.object({
+        title: z.string(),
+        status: z.enum(['open']),
+        salary: z.number(),
+      }),
+      query: z.object({ status: Status, limit: z.number().optional() }),
+    });
+
+    expect(diffDocuments(before, after).changes).toEqual([
+      {
+        severity: 'breaking',
+        code: 'parameter-required',
+        message: 'Parameter "status" in query became required',
+        path: ['/jobs', 'get', 'parameters', 'query', 'status'],
+      },
+      {
+        severity: 'non-breaking',
+        code: 'parameter-added',
+        message: 'Parameter "limit" in query was added',
+        path: ['/jobs', 'get', 'parameters', 'query', 'limit'],
+      },
+      {
+        severity: 'breaking',
+        code: 'property-removed',
+        message: 'Property "title" was removed',
+        path: [
+          '/jobs',
+          'get',
+          'responses',
+          '200',
+          'application/json',
+          'items',
+          'title',
+        ],
+      },
+      {
+        severity: 'breaking',
+        code: 'enum-value-added',
+        message: 'Enum value "archived" was added',
+        path: [
+          '/jobs',
+          'get',
+          'responses',
+          '200',
+          'application/json',
+          'items',
+          'status',
+        ],
+      },
+      {
+        severity: 'non-breaking',
+        code: 'property-added',
+        message: 'Property "salary" was added',
+        path: [
+          '/jobs',
+          'get',
+          'responses',
+          '200',
+          'application/json',
+          'items',
+          'salary',
+        ],
+      },
+      {
+        severity: 'breaking',
+        code: 'enum-value-removed',
+        message: 'Enum value "closed" was removed',
+        path: ['/jobs', 'post', 'requestBody', 'application/json', 'status'],
+      },
+      {
+        severity: 'breaking',
+        code: 'property-added',
+        message: 'Required property "salary" was added',
+        path: ['/jobs', 'post', 'requestBody', 'application/json', 'salary'],
+      },
+    ]);
+  });
+
+  it('reports removed and added operations', () => {
+    const after: oas31.OpenAPIObject = {
+      ...before,
+      paths: {
+        '/jobs': { post: before.paths?.['/jobs']?.post },
+        '/health': {
+          get: { responses: { '200': { description: '200 OK' } } },
+        },
+      },
+    };
+
+    expect(diffDocuments(before, after)).toEqual({
+      breaking: true,
+      changes: [
+        {
+          severity: 'breaking',
+          code: 'operation-removed',
+          message: 'Operation GET /jobs was removed',
+          path: ['/jobs', 'get'],
+        },
+        {
+          severity: 'non-breaking',
+          code: 'operation-added',
+          message: 'Operation GET /health was added',
+          path: ['/health', 'get'],
+        },
+      ],
+    });
+  });
+
+  it('reports type changes by direction', () => {
+    const createDocumentWithSchema = (schema: z.ZodType) =>
+      createDocument({
+        openapi: '3.1.0',
+        info: { title: 'Jobs API', version: '1.0.0' },
+        paths: {
+          '/jobs': {
+            post: {
+              requestBody: {
+                content: { 'application/json': { schema } },
+              },
+              responses: {
+                '200': {
+                  description: '200 OK',
+                  content: { 'application/json': { schema } },
+                },
+              },
+            },
+          },
+        },
+      });
+
+    expect(
+      diffDocuments(
+        createDocumentWithSchema(z.string()),
+        createDocumentWithSchema(z.string().nullable()),
+      ).changes.map(({ severity, message }) => ({ severity, message })),
+    ).toEqual([
+      {
+        severity: 'non-breaking',
+        message: 'Type changed from string to string | null',
+      },
+      {
+        severity: 'breaking',
+        message: 'Type changed from string to string | null',
+      },
+    ]);
+  });
+
+  it('matches composition members by reference rather than by index', () => {
+    const createDocumentWithMembers = (
+      anyOf: Array<oas31.SchemaObject | oas31.ReferenceObject>,
+    ): oas31.OpenAPIObject => ({
+      openapi: '3.1.0',
+      info: { title: 'Pets API', version: '1.0.0' },
+      paths: {
+        '/pets': {
+          get: {
+            responses: {
+              '200': {
+                description: '200 OK',
+                content: { 'application/json': { schema: { anyOf } } },
+              },
+            },
+          },
+        },
+      },
+      components: {
+        schemas: {
+          Cat: { type: 'object', properties: { name: { type: 'string' } } },
+          Dog: { type: 'object', properties: { name: { type: 'string' } } },
+        },
+      },
+    });
+
+    expect(
+      diffDocuments(
+        createDocumentWithMembers([
+          { $ref: '#/components/schemas/Cat' },
+          { $ref: '#/components/schemas/Dog' },
+          { type: 'string', enum: ['unknown'] },
+        ]),
+        createDocumentWithMembers([
+          { type: 'string', enum: ['unknown', 'other'] },
+          { $ref: '#/components/schemas/Dog' },
+        ]),
+      ).changes,
+    ).toEqual([
+      {
+        severity: 'non-breaking',
+        code: 'composition-member-removed',
+        message: 'anyOf member "#/components/schemas/Cat" was removed',
+        path: [
+          '/pets',
+          'get',
+          'responses',
+          '200',
+          'application/json',
+          'anyOf',
+          '0',
+        ],
+      },
+      {
+        severity: 'breaking',
+        code: 'enum-value-added',
+        message: 'Enum value "other" was added',
+        path: [
+          '/pets',
+          'get',
+          'responses',
+          '200',
+          'application/json',
+          'anyOf',
+          '0',
+        ],
+      },
+    ]);
+  });
+
+  it('resolves path item references', () => {
+    const after: oas31.OpenAPIObject = {
+      ...before,
+      paths: {
+        ...before.paths,
+        '/health': { $ref: '#/x-paths/health' },
+      },
+      'x-paths': {
+        health: { get: { responses: { '200': { description: '200 OK' } } } },
+      },
+    };
+
+    expect(diffDocuments(before, after).changes).toEqual([
+      {
+        severity: 'non-breaking',
+        code: 'operation-added',
+        message: 'Operation GET /health was added',
+        path: ['/health', 'get'],
+      },
+    ]);
+    expect(diffDocuments(after, before).changes).toEqual([
+      {
+        severity: 'breaking',
+        code: 'operation-removed',
+        message: 'Operation GET /health was removed',
+        path: ['/health', 'get'],
+      },
+    ]);
+  });
+});
+
+describe('printDocumentDiff', () => {
+  const after: oas31.OpenAPIObject = {
+    ...before,
+    paths: {
+      '/jobs': { post: before.paths?.['/jobs']?.post },
+      '/health': {
+        get: { responses: { '200': { description: '200 OK' } } },
+      },
+    },
+  };
+
+  it('prints markdown', () => {
+    expect(printDocumentDiff(diffDocuments(before, after)))
+      .toMatchInlineSnapshot(`
+"## Breaking changes
+
+- Operation GET /jobs was removed at \`/jobs > get\`
+
+## Non-breaking changes
+
+- Operation GET /health was added at \`/health > get\`
+"
+`);
+  });
+
+  it('prints no changes', () => {
+    expect(printDocumentDiff(diffDocuments(before, before))).toBe(
+      'No changes\n',
+    );
+  });
+
+  it('prints JSON', () => {
+    expect(
+      JSON.parse(printDocumentDiff(diffDocuments(before, after), 'json')),
+    ).toEqual(diffDocuments(before, after));
+  });
+});
@@ -0,0 +1,778 @@
+import type { CreationType } from '../create/components';
+import { HTTP_METHODS, type HttpMethod } from '../openapi';
+import type { oas30, oas31 } from '../openapi3-ts/dist';
+
+type OpenAPIObject = oas31.OpenAPIObject | oas30.OpenAPIObject;
+type PathItemObject = oas31.PathItemObject | oas30.PathItemObject;
+type OperationObject = oas31.OperationObject | oas30.OperationObject;
+type ParameterObject = oas31.ParameterObject | oas30.ParameterObject;
+type RequestBodyObject = oas31.RequestBodyObject | oas30.RequestBodyObject;
+type ResponseObject = oas31.ResponseObject | oas30.ResponseObject;
+type ContentObject = oas31.ContentObject | oas30.ContentObject;
+type MediaTypeObject = oas31.MediaTypeObject | oas30.MediaTypeObject;
+type SchemaObject = oas31.SchemaObject | oas30.SchemaObject;
+type ReferenceObject = oas31.ReferenceObject | oas30.ReferenceObject;
+
+export type DocumentChangeCode =
+  | 'operation-removed'
+  | 'operation-added'
+  | 'parameter-removed'
+  | 'parameter-added'
+  | 'parameter-required'
+  | 'parameter-optional'
+  | 'request-body-removed'
+  | 'request-body-added'
+  | 'request-body-required'
+  | 'request-body-optional'
+  | 'media-type-removed'
+  | 'media-type-added'
+  | 'response-removed'
+  | 'response-added'
+  | 'property-removed'
+  | 'property-added'
+  | 'property-required'
+  | 'property-optional'
+  | 'enum-value-removed'
+  | 'enum-value-added'
+  | 'composition-member-removed'
+  | 'composition-member-added'
+  | 'type-changed';
+
+export interface DocumentChange {
+  severity: 'breaking' | 'non-breaking';
+  code: DocumentChangeCode;
+  message: string;
+  /** The location of the change eg. `['/jobs', 'get', 'responses', '200']` */
+  path: string[];
+}
+
+export interface DocumentDiff {
+  breaking: boolean;
+  changes: DocumentChange[];
+}
+
+interface DiffState {
+  before: OpenAPIObject;
+  after: OpenAPIObject;
+  changes: DocumentChange[];
+  /** The pairs of schema references which have already been compared */
+  visited: Set<string>;
+}
+
+const isReferenceObject = (value: object): value is ReferenceObject =>
+  '$ref' in value;
+
+const isSpecificationExtension = (key: string) => key.startsWith('x-');
+
+/**
+ * Follows local references eg. `#/components/schemas/Job` until it reaches an object which is not a reference
+ */
+const resolve = <T extends object>(
+  document: OpenAPIObject,
+  value: T | ReferenceObject | undefined,
+): T | undefined => {
+  const seen = new Set<string>();
+  let current: unknown = value;
+  while (current && typeof current === 'object' && isReferenceObject(current)) {
+    const ref = current.$ref;
+    if (!ref.startsWith('#/') || seen.has(ref)) {
+      return undefined;
+    }
+    seen.add(ref);
+    current = ref
+      .slice(2)
+      .split('/')
+      .map((segment) => segment.replace(/~1/g, '/').replace(/~0/g, '~'))
+      .reduce<unknown>(
+        (acc, segment) =>
+          acc && typeof acc === 'object'
+            ? (acc as Record<string, unknown>)[segment]
+            : undefined,
+        document,
+      );
+  }
+  return current as T | undefined;
+};
+
+const addChange = (
+  state: DiffState,
+  severity: DocumentChange['severity'],
+  code: DocumentChangeCode,
+  message: string,
+  path: string[],
+) => state.changes.push({ severity, code, message, path });
+
+/**
+ * A request is broken when it can no longer send what it used to. A response is broken when it can return something a
+ * consumer did not expect or stops returning something a consumer relied on.
+ */
+const breakingFor = (
+  type: CreationType,
+  breakingType: CreationType,
+): DocumentChange['severity'] =>
+  type === breakingType ? 'breaking' : 'non-breaking';
+
+const getTypes = (schema: SchemaObject): string[] | undefined => {
+  if (schema.type === undefined) {
+    return undefined;
+  }
+  const types = Array.isArray(schema.type) ? [...schema.type] : [schema.type];
+  if ('nullable' in schema && schema.nullable) {
+    types.push('null');
+  }
+  return types;
+};
+
+const diffTypes = (
+  state: DiffState,
+  before: SchemaObject,
+  after: SchemaObject,
+  type: CreationType,
+  path: string[],
+) => {
+  const beforeTypes = getTypes(before);
+  const afterTypes = getTypes(after);
+  if (!beforeTypes || !afterTypes) {
+    return;
+  }
+
+  const removed = beforeTypes.filter((item) => !afterTypes.includes(item));
+  const added = afterTypes.filter((item) => !beforeTypes.includes(item));
+  if (!removed.length && !added.length) {
+    return;
+  }
+
+  const isBreaking = type === 'input' ? removed.length : added.length;
+  addChange(
+    state,
+    isBreaking ? 'breaking' : 'non-breaking',
+    'type-changed',
+    `Type changed from ${beforeTypes.join(' | ')} to ${afterTypes.join(' | ')}`,
+    path,
+  );
+};
+
+const diffEnum = (
+  state: DiffState,
+  before: SchemaObject,
+  after: SchemaObject,
+  type: CreationType,
+  path: string[],
+) => {
+  if (!before.enum || !after.enum) {
+    return;
+  }
+
+  const beforeValues = before.enum.map((value) => JSON.stringify(value));
+  const afterValues = after.enum.map((value) => JSON.stringify(value));
+
+  beforeValues
+    .filter((value) => !afterValues.includes(value))
+    .forEach((value) =>
+      addChange(
+        state,
+        breakingFor(type, 'input'),
+        'enum-value-removed',
+        `Enum value ${value} was removed`,
+        path,
+      ),
+    );
+  afterValues
+    .filter((value) => !beforeValues.includes(value))
+    .forEach((value) =>
+      addChange(
+        state,
+        breakingFor(type, 'output'),
+        'enum-value-added',
+        `Enum value ${value} was added`,
+        path,
+      ),
+    );
+};
+
+const diffProperties = (
+  state: DiffState,
+  before: SchemaObject,
+  after: SchemaObject,
+  type: CreationType,
+  path: string[],
+) => {
+  const beforeProperties: Record<string, SchemaObject | ReferenceObject> =
+    before.properties ?? {};
+  const afterProperties: Record<string, SchemaObject | ReferenceObject> =
+    after.properties ?? {};
+  const beforeRequired = before.required ?? [];
+  const afterRequired = after.required ?? [];
+
+  Object.keys(beforeProperties)
+    .filter((name) => !(name in afterProperties))
+    .forEach((name) =>
+      addChange(
+        state,
+        breakingFor(type, 'output'),
+        'property-removed',
+        `Property "${name}" was removed`,
+        [...path, name],
+      ),
+    );
+
+  Object.entries(afterProperties).forEach(([name, afterProperty]) => {
+    const propertyPath = [...path, name];
+    const beforeProperty = beforeProperties[name];
+    const isRequired = afterRequired.includes(name);
+
+    if (!beforeProperty) {
+      addChange(
+        state,
+        type === 'input' && isRequired ? 'breaking' : 'non-breaking',
+        'property-added',
+        `${isRequired ? 'Required property' : 'Property'} "${name}" was added`,
+        propertyPath,
+      );
+      return;
+    }
+
+    const wasRequired = beforeRequired.includes(name);
+    if (!wasRequired && isRequired) {
+      addChange(
+        state,
+        breakingFor(type, 'input'),
+        'property-required',
+        `Property "${name}" became required`,
+        propertyPath,
+      );
+    }
+    if (wasRequired && !isRequired) {
+      addChange(
+        state,
+        breakingFor(type, 'output'),
+        'property-optional',
+        `Property "${name}" became optional`,
+        propertyPath,
+      );
+    }
+
+    diffSchema(state, beforeProperty, afterProperty, type, propertyPath);
+  });
+};
+
+const diffSchema = (
+  state: DiffState,
+  beforeSchema: SchemaObject | ReferenceObject | undefined,
+  afterSchema: SchemaObject | ReferenceObject | undefined,
+  type: CreationType,
+  path: string[],
+) => {
+  if (
+    beforeSchema &&
+    afterSchema &&
+    isReferenceObject(beforeSchema) &&
+    isReferenceObject(afterSchema)
+  ) {
+    const key = `${type} ${beforeSchema.$ref} ${afterSchema.$ref}`;
+    if (state.visited.has(key)) {
+      return;
+    }
+    state.visited.add(key);
+  }
+
+  const before = resolve<SchemaObject>(state.before, beforeSchema);
+  const after = resolve<SchemaObject>(state.after, afterSchema);
+  if (!before || !after) {
+    return;
+  }
+
+  diffTypes(state, before, after, type, path);
+  diffEnum(state, before, after, type, path);
+  diffProperties(state, before, after, type, path);
+
+  if (
+    before.items &&
+    after.items &&
+    typeof before.items === 'object' &&
+    typeof after.items === 'object'
+  ) {
+    diffSchema(state, before.items, after.items, type, [...path, 'items']);
+  }
+
+  (['allOf', 'anyOf', 'oneOf'] as const).forEach((key) =>
+    diffComposition(state, before, after, key, type, [...path, key]),
+  );
+};
+
+type CompositionKey = 'allOf' | 'anyOf' | 'oneOf';
+
+/**
+ * Matches the members of a composition which have the same `$ref` or are identical, then pairs up the remaining inline
+ * members which have the same types. Members are not matched by index as they may be reordered.
+ */
+const matchMembers = (
+  before: Array<SchemaObject | ReferenceObject>,
+  after: Array<SchemaObject | ReferenceObject>,
+): Map<number, number> => {
+  const matches = new Map<number, number>();
+  const unmatched = after.map((_, index) => index);
+
+  const match = (
+    isMatch: (
+      beforeMember: SchemaObject | ReferenceObject,
+      afterMember: SchemaObject | ReferenceObject,
+    ) => boolean,
+  ) =>
+    before.forEach((beforeMember, beforeIndex) => {
+      if (matches.has(beforeIndex)) {
+        return;
+      }
+      const position = unmatched.findIndex((afterIndex) =>
+        isMatch(
+          beforeMember,
+          after[afterIndex] as SchemaObject | ReferenceObject,
+        ),
+      );
+      if (position !== -1) {
+        matches.set(beforeIndex, unmatched[position] as number);
+        unmatched.splice(position, 1);
+      }
+    });
+
+  match((beforeMember, afterMember) =>
+    isReferenceObject(beforeMember) || isReferenceObject(afterMember)
+      ? isReferenceObject(beforeMember) &&
+        isReferenceObject(afterMember) &&
+        beforeMember.$ref === afterMember.$ref
+      : JSON.stringify(beforeMember) === JSON.stringify(afterMember),
+  );
+  match(
+    (beforeMember, afterMember) =>
+      !isReferenceObject(beforeMember) &&
+      !isReferenceObject(afterMember) &&
+      JSON.stringify(getTypes(beforeMember)) ===
+        JSON.stringify(getTypes(afterMember)),
+  );
+
+  return matches;
+};
+
+const describeMember = (member: SchemaObject | ReferenceObject) =>
+  isReferenceObject(member) ? ` "${member.$ref}"` : '';
+
+const diffComposition = (
+  state: DiffState,
+  before: SchemaObject,
+  after: SchemaObject,
+  key: CompositionKey,
+  type: CreationType,
+  path: string[],
+) => {
+  const beforeMembers: Array<SchemaObject | ReferenceObject> =
+    before[key] ?? [];
+  const afterMembers: Array<SchemaObject | ReferenceObject> = after[key] ?? [];
+  if (!beforeMembers.length || !afterMembers.length) {
+    return;
+  }
+
+  const matches = matchMembers(beforeMembers, afterMembers);
+  const matched = new Set(matches.values());
+  // Removing an anyOf or oneOf member accepts fewer values whereas removing an allOf member accepts more
+  const narrowing: CreationType = key === 'allOf' ? 'output' : 'input';
+  const widening: CreationType = key === 'allOf' ? 'input' : 'output';
+
+  beforeMembers.forEach((member, index) => {
+    const afterIndex = matches.get(index);
+    if (afterIndex === undefined) {
+      addChange(
+        state,
+        breakingFor(type, narrowing),
+        'composition-member-removed',
+        `${key} member${describeMember(member)} was removed`,
+        [...path, `${index}`],
+      );
+      return;
+    }
+    diffSchema(state, member, afterMembers[afterIndex], type, [
+      ...path,
+      `${afterIndex}`,
+    ]);
+  });
+
+  afterMembers.forEach((member, index) => {
+    if (!matched.has(index)) {
+      addChange(
+        state,
+        breakingFor(type, widening),
+        'composition-member-added',
+        `${key} member${describeMember(member)} was added`,
+        [...path, `${index}`],
+      );
+    }
+  });
+};
+
+const diffContent = (
+  state: DiffState,
+  before: ContentObject | undefined,
+  after: ContentObject | undefined,
+  type: CreationType,
+  path: string[],
+) => {
+  Object.entries<MediaTypeObject>(before ?? {}).forEach(
+    ([mediaType, beforeMediaType]) => {
+      const afterMediaType = after?.[mediaType];
+      if (!afterMediaType) {
+        addChange(
+          state,
+          'breaking',
+          'media-type-removed',
+          `Media type "${mediaType}" was removed`,
+          [...path, mediaType],
+        );
+        return;
+      }
+      diffSchema(state, beforeMediaType.schema, afterMediaType.schema, type, [
+        ...path,
+        mediaType,
+      ]);
+    },
+  );
+
+  Object.keys(after ?? {})
+    .filter((mediaType) => !before?.[mediaType])
+    .forEach((mediaType) =>
+      addChange(
+        state,
+        'non-breaking',
+        'media-type-added',
+        `Media type "${mediaType}" was added`,
+        [...path, mediaType],
+      ),
+    );
+};
+
+const getParameters = (
+  document: OpenAPIObject,
+  pathItem: PathItemObject,
+  operation: OperationObject,
+): Map<string, ParameterObject> => {
+  const parameters = new Map<string, ParameterObject>();
+  [...(pathItem.parameters ?? []), ...(operation.parameters ?? [])].forEach(
+    (parameter) => {
+      const parameterObject = resolve<ParameterObject>(document, parameter);
+      if (parameterObject) {
+        parameters.set(
+          `${parameterObject.in} ${parameterObject.name}`,
+          parameterObject,
+        );
+      }
+    },
+  );
+  return parameters;
+};
+
+const diffParameters = (
+  state: DiffState,
+  before: Map<string, ParameterObject>,
+  after: Map<string, ParameterObject>,
+  path: string[],
+) => {
+  before.forEach((parameter, key) => {
+    if (!after.has(key)) {
+      addChange(
+        state,
+        'breaking',
+        'parameter-removed',
+        `Parameter "${parameter.name}" in ${parameter.in} was removed`,
+        [...path, parameter.in, parameter.name],
+      );
+    }
+  });
+
+  after.forEach((parameter, key) => {
+    const parameterPath = [...path, parameter.in, parameter.name];
+    const beforeParameter = before.get(key);
+    if (!beforeParameter) {
+      addChange(
+        state,
+        parameter.required ? 'breaking' : 'non-breaking',
+        'parameter-added',
+        `${parameter.required ? 'Required parameter' : 'Parameter'} "${parameter.name}" in ${parameter.in} was added`,
+        parameterPath,
+      );
+      return;
+    }
+
+    if (!beforeParameter.required && parameter.required) {
+      addChange(
+        state,
+        'breaking',
+        'parameter-required',
+        `Parameter "${parameter.name}" in ${parameter.in} became required`,
+        parameterPath,
+      );
+    }
+    if (beforeParameter.required && !parameter.required) {
+      addChange(
+        state,
+        'non-breaking',
+        'parameter-optional',
+        `Parameter "${parameter.name}" in ${parameter.in} became optional`,
+        parameterPath,
+      );
+    }
+
+    diffSchema(state, beforeParameter.schema, parameter.schema, 'input', [
+      ...parameterPath,
+      'schema',
+    ]);
+  });
+};
+
+const diffRequestBody = (
+  state: DiffState,
+  beforeRequestBody: OperationObject['requestBody'],
+  afterRequestBody: OperationObject['requestBody'],
+  path: string[],
+) => {
+  const before = resolve<RequestBodyObject>(state.before, beforeRequestBody);
+  const after = resolve<RequestBodyObject>(state.after, afterRequestBody);
+
+  if (before && !after) {
+    addChange(
+      state,
+      'breaking',
+      'request-body-removed',
+      'Request body was removed',
+      path,
+    );
+    return;
+  }
+
+  if (!after) {
+    return;
+  }
+
+  if (!before) {
+    addChange(
+      state,
+      after.required ? 'breaking' : 'non-breaking',
+      'request-body-added',
+      `${after.required ? 'Required request body' : 'Request body'} was added`,
+      path,
+    );
+    return;
+  }
+
+  if (!before.required && after.required) {
+    addChange(
+      state,
+      'breaking',
+      'request-body-required',
+      'Request body became required',
+      path,
+    );
+  }
+  if (before.required && !after.required) {
+    addChange(
+      state,
+      'non-breaking',
+      'request-body-optional',
+      'Request body became optional',
+      path,
+    );
+  }
+
+  diffContent(state, before.content, after.content, 'input', path);
+};
+
+const diffResponses = (
+  state: DiffState,
+  before: OperationObject['responses'],
+  after: OperationObject['responses'],
+  path: string[],
+) => {
+  Object.entries(before ?? {}).forEach(([status, beforeResponse]) => {
+    if (isSpecificationExtension(status)) {
+      return;
+    }
+    const responsePath = [...path, status];
+    const afterResponse = (after as Record<string, unknown> | undefined)?.[
+      status
+    ] as ResponseObject | ReferenceObject | undefined;
+    if (!afterResponse) {
+      addChange(
+        state,
+        'breaking',
+        'response-removed',
+        `Response ${status} was removed`,
+        responsePath,
+      );
+      return;
+    }
+
+    diffContent(
+      state,
+      resolve<ResponseObject>(
+        state.before,
+        beforeResponse as ResponseObject | ReferenceObject,
+      )?.content,
+      resolve<ResponseObject>(state.after, afterResponse)?.content,
+      'output',
+      responsePath,
+    );
+  });
+
+  Object.keys(after ?? {})
+    .filter(
+      (status) =>
+        !isSpecificationExtension(status) &&
+        !(before as Record<string, unknown> | undefined)?.[status],
+    )
+    .forEach((status) =>
+      addChange(
+        state,
+        'non-breaking',
+        'response-added',
+        `Response ${status} was added`,
+        [...path, status],
+      ),
+    );
+};
+
+const diffOperation = (
+  state: DiffState,
+  beforePathItem: PathItemObject,
+  afterPathItem: PathItemObject,
+  method: HttpMethod,
+  path: string[],
+) => {
+  const before = beforePathItem[method] as OperationObject;
+  const after = afterPathItem[method] as OperationObject;
+
+  diffParameters(
+    state,
+    getParameters(state.before, beforePathItem, before),
+    getParameters(state.after, afterPathItem, after),
+    [...path, 'parameters'],
+  );
+  diffRequestBody(state, before.requestBody, after.requestBody, [
+    ...path,
+    'requestBody',
+  ]);
+  diffResponses(state, before.responses, after.responses, [
+    ...path,
+    'responses',
+  ]);
+};
+
+/**
+ * Compares two OpenAPI documents and classifies each change as breaking or non-breaking for the consumers of the API.
+ * Request schemas are broken by changes which reject previously valid requests and response schemas are broken by
+ * changes which return previously unexpected responses.
+ */
+export const diffDocuments = (
+  before: OpenAPIObject,
+  after: OpenAPIObject,
+): DocumentDiff => {
+  const state: DiffState = { before, after, changes: [], visited: new Set() };
+
+  Object.keys(before.paths ?? {}).forEach((path) => {
+    if (isSpecificationExtension(path)) {
+      return;
+    }
+    const beforePathItem = resolve<PathItemObject>(
+      before,
+      (before.paths as Record<string, PathItemObject>)[path],
+    );
+    const afterPathItem = resolve<PathItemObject>(
+      after,
+      (after.paths as Record<string, PathItemObject> | undefined)?.[path],
+    );
+    HTTP_METHODS.forEach((method) => {
+      if (!beforePathItem?.[method]) {
+        return;
+      }
+      if (!afterPathItem?.[method]) {
+        addChange(
+          state,
+          'breaking',
+          'operation-removed',
+          `Operation ${method.toUpperCase()} ${path} was removed`,
+          [path, method],
+        );
+        return;
+      }
+      diffOperation(state, beforePathItem, afterPathItem, method, [
+        path,
+        method,
+      ]);
+    });
+  });
+
+  Object.keys(after.paths ?? {}).forEach((path) => {
+    if (isSpecificationExtension(path)) {
+      return;
+    }
+    const afterPathItem = resolve<PathItemObject>(
+      after,
+      (after.paths as Record<string, PathItemObject>)[path],
+    );
+    const beforePathItem = resolve<PathItemObject>(
+      before,
+      (before.paths as Record<string, PathItemObject> | undefined)?.[path],
+    );
+    HTTP_METHODS.filter(
+      (method) => afterPathItem?.[method] && !beforePathItem?.[method],
+    ).forEach((method) =>
+      addChange(
+        state,
+        'non-breaking',
+        'operation-added',
+        `Operation ${method.toUpperCase()} ${path} was added`,
+        [path, method],
+      ),
+    );
+  });
+
+  return {
+    breaking: state.changes.some((change) => change.severity === 'breaking'),
+    changes: state.changes,
+  };
+};
+
+const printChanges = (title: string, changes: DocumentChange[]): string[] =>
+  changes.length
+    ? [
+        `## ${title}`,
+        '',
+        ...changes.map(
+          (change) => `- ${change.message} at \`${change.path.join(' > ')}\``,
+        ),
+        '',
+      ]
+    : [];
+
+/**
+ * Prints a diff as JSON or as a Markdown summary eg. for a pull request comment
+ */
+export const printDocumentDiff = (
+  diff: DocumentDiff,
+  format: 'json' | 'markdown' = 'markdown',
+): string => {
+  if (format === 'json') {
+    return `${JSON.stringify(diff, null, 2)}\n`;
+  }
+
+  if (!diff.changes.length) {
+    return 'No changes\n';
+  }
+
+  return [
+    ...printChanges(
+      'Breaking changes',
+      diff.changes.filter((change) => change.severity === 'breaking'),
+    ),
+    ...printChanges(
+      'Non-breaking changes',
+      diff.changes.filter((change) => change.severity === 'non-breaking'),
+    ),
+  ].join('\n');
+};
@@ -0,0 +1 @@
+export { runCli } from '../cli';
@@ -0,0 +1,7 @@
+export {
+  createClient,
+  type Client,
+  type ClientOperationInput,
+  type ClientOperationResponse,
+  type CreateClientOptions,
+} from '../client/client';
@@ -0,0 +1,17 @@
+export {
+  createValidator,
+  type Validator,
+  type ValidatorOptions,
+} from '../validate/validator';
+export type {
+  ValidateRequestInput,
+  ValidatedRequest,
+  ValidatedRequestData,
+  ValidationIssue,
+  ValidationLocation,
+  ValidationResult,
+} from '../validate/request';
+export type {
+  ValidateResponseInput,
+  ValidatedResponseData,
+} from '../validate/response';
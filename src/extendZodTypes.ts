@@ -44,7 +44,12 @@ interface ZodOpenApiMetadata<
     example?: TInferred;
     examples?: Record<
       string,
-      (oas31.ExampleObject & { value: TInferred }) | oas31.ReferenceObject
+      | (oas31.ExampleObject & {
+          value: TInferred;
+          /** Used to output this example in the components examples section */
+          ref?: string;
+        })
+      | oas31.ReferenceObject
     >;
     /**
      * Used to output this Zod Schema in the components parameters section. Any usage of this Zod Schema will then be transformed into a $ref.
@@ -0,0 +1,453 @@
+import '../entries/extend';
+import { z } from 'zod';
+
+import { type ZodOpenApiObject, createDocument } from '../create/document';
+import type { oas30, oas31 } from '../openapi3-ts/dist';
+
+import { generateZod } from './generateZod';
+
+const evaluate = (source: string): ZodOpenApiObject => {
+  const body = source
+    .replace(/^import .*;$/gm, '')
+    .replace(/^export const (\w+)(?::[^=]+)? =/gm, 'const $1 =')
+    .replace(/ satisfies \w+;$/gm, ';');
+  // eslint-disable-next-line @typescript-eslint/no-implied-eval, no-new-func
+  return new Function('z', `${body}\nreturn document;`)(z) as ZodOpenApiObject;
+};
+
+const document: oas31.OpenAPIObject = {
+  openapi: '3.1.0',
+  info: { title: 'Jobs API', version: '1.0.0' },
+  paths: {
+    '/jobs/{id}': {
+      get: {
+        operationId: 'getJob',
+        parameters: [
+          { $ref: '#/components/parameters/RequestId' },
+          {
+            in: 'path',
+            name: 'id',
+            required: true,
+            schema: { type: 'string', format: 'uuid' },
+          },
+          {
+            in: 'query',
+            name: 'expand',
+            description: 'Related resources to include',
+            schema: { type: 'array', items: { type: 'string' } },
+          },
+        ],
+        responses: {
+          '200': {
+            description: '200 OK',
+            headers: {
+              'x-rate-limit': {
+                required: true,
+                schema: { type: 'integer' },
+              },
+            },
+            content: {
+              'application/json': {
+                schema: { $ref: '#/components/schemas/Job' },
+              },
+            },
+          },
+          '404': { $ref: '#/components/responses/NotFound' },
+        },
+      },
+    },
+    '/jobs': {
+      post: {
+        operationId: 'createJob',
+        requestBody: { $ref: '#/components/requestBodies/CreateJob' },
+        responses: {
+          '201': { description: '201 Created' },
+        },
+      },
+    },
+  },
+  components: {
+    schemas: {
+      Job: {
+        type: 'object',
+        properties: {
+          id: { type: 'string', format: 'uuid' },
+          title: { type: 'string', minLength: 1, description: 'Job title' },
+          status: { $ref: '#/components/schemas/Status' },
+          salary: { type: ['number', 'null'], minimum: 0 },
+          createdAt: { type: 'string', format: 'date-time' },
+          tags: {
+            type: 'array',
+            items: { type: 'string' },
+            maxItems: 10,
+          },
+        },
+        required: ['id', 'title', 'status', 'salary'],
+      },
+      Status: {
+        type: 'string',
+        enum: ['open', 'closed'],
+      },
+      Error: {
+        type: 'object',
+        properties: {
+          message: { type: 'string' },
+        },
+        required: ['message'],
+        additionalProperties: false,
+      },
+    },
+    parameters: {
+      RequestId: {
+        in: 'header',
+        name: 'x-request-id',
+        schema: { type: 'string' },
+      },
+    },
+    requestBodies: {
+      CreateJob: {
+        required: true,
+        content: {
+          'application/json': {
+            schema: { $ref: '#/components/schemas/Job' },
+          },
+        },
+      },
+    },
+    responses: {
+      NotFound: {
+        description: '404 Not Found',
+        content: {
+          'application/json': {
+            schema: { $ref: '#/components/schemas/Error' },
+          },
+        },
+      },
+    },
+  },
+};
+
+describe('generateZod', () => {
+  it('generates a module with component schemas and a document', () => {
+    expect(generateZod(document)).toMatchInlineSnapshot(`
+"import 'zod-openapi/extend';
+import { z } from 'zod';
+import type { ZodOpenApiObject, ZodOpenApiRequestBodyObject, ZodOpenApiResponseObject } from 'zod-openapi';
+
+export const Status = z.enum([
+  'open',
+  'closed',
+]).openapi({
+  ref: 'Status',
+});
+
+export const Job = z.object({
+  id: z.string().uuid(),
+  title: z.string().min(1).describe('Job title'),
+  status: Status,
+  salary: z.number().gte(0).nullable(),
+  createdAt: z.string().datetime({ offset: true }).optional(),
+  tags: z.array(z.string()).max(10).optional(),
+}).openapi({
+  ref: 'Job',
+});
+
+export const Error = z.object({
+  message: z.string(),
+}).strict().openapi({
+  ref: 'Error',
+});
+
+export const RequestIdParameter = z.string().optional().openapi({
+  param: {
+    in: 'header',
+    name: 'x-request-id',
+  },
+});
+
+export const CreateJobRequestBody = {
+  required: true,
+  content: {
+    'application/json': {
+      schema: Job,
+    },
+  },
+} satisfies ZodOpenApiRequestBodyObject;
+
+export const NotFoundResponse = {
+  description: '404 Not Found',
+  content: {
+    'application/json': {
+      schema: Error,
+    },
+  },
+} satisfies ZodOpenApiResponseObject;
+
+export const document = {
+  openapi: '3.1.0',
+  info: {
+    title: 'Jobs API',
+    version: '1.0.0',
+  },
+  paths: {
+    '/jobs/{id}': {
+      get: {
+        operationId: 'getJob',
+        requestParams: {
+          path: z.object({
+            id: z.string().uuid(),
+          }),
+          query: z.object({
+            expand: z.array(z.string()).optional().openapi({
+              param: {
+                description: 'Related resources to include',
+              },
+            }),
+          }),
+        },
+        parameters: [
+          RequestIdParameter,
+        ],
+        responses: {
+          '200': {
+            description: '200 OK',
+            headers: z.object({
+              'x-rate-limit': z.number().int(),
+            }),
+            content: {
+              'application/json': {
+                schema: Job,
+              },
+            },
+          },
+          '404': NotFoundResponse,
+        },
+      },
+    },
+    '/jobs': {
+      post: {
+        operationId: 'createJob',
+        requestBody: CreateJobRequestBody,
+        responses: {
+          '201': {
+            description: '201 Created',
+          },
+        },
+      },
+    },
+  },
+  components: {
+    schemas: {
+      Job: Job,
+      Status: Status,
+      Error: Error,
+    },
+    parameters: {
+      RequestId: RequestIdParameter,
+    },
+    requestBodies: {
+      CreateJob: CreateJobRequestBody,
+    },
+    responses: {
+      NotFound: NotFoundResponse,
+    },
+  },
+} satisfies ZodOpenApiObject;
+"
+`);
+  });
+
+  it('generates a document which round trips through createDocument', () => {
+    expect(createDocument(evaluate(generateZod(document)))).toEqual(document);
+  });
+
+  it('declares circular schemas with a type annotation', () => {
+    const source = generateZod({
+      openapi: '3.1.0',
+      info: { title: 'Tree', version: '1.0.0' },
+      paths: {},
+      components: {
+        schemas: {
+          Node: {
+            type: 'object',
+            properties: {
+              children: {
+                type: 'array',
+                items: { $ref: '#/components/schemas/Node' },
+              },
+            },
+            required: ['children'],
+          },
+        },
+      },
+    });
+
+    expect(source).toContain(
+      "export const Node: z.ZodType<unknown> = z.object({\n  children: z.array(z.lazy(() => Node)),\n}).openapi({\n  ref: 'Node',\n});",
+    );
+    expect(createDocument(evaluate(source)).components).toEqual({
+      schemas: {
+        Node: {
+          type: 'object',
+          properties: {
+            children: {
+              type: 'array',
+              items: { $ref: '#/components/schemas/Node' },
+            },
+          },
+          required: ['children'],
+        },
+      },
+    });
+  });
+
+  it('converts OpenAPI 3.0 nullable schemas', () => {
+    const document30: oas30.OpenAPIObject = {
+      openapi: '3.0.3',
+      info: { title: 'Jobs API', version: '1.0.0' },
+      paths: {},
+      components: {
+        schemas: {
+          Salary: {
+            type: 'number',
+            nullable: true,
+            minimum: 0,
+            exclusiveMinimum: true,
+          },
+        },
+      },
+    };
+
+    expect(createDocument(evaluate(generateZod(document30)))).toEqual(
+      document30,
+    );
+  });
+
+  it('sanitizes component names which are not valid identifiers', () => {
+    const source = generateZod(
+      {
+        openapi: '3.1.0',
+        info: { title: 'Jobs API', version: '1.0.0' },
+        paths: {},
+        components: {
+          schemas: {
+            'job-status': { type: 'string' },
+            '1Job': { type: 'string' },
+            spec: { type: 'string' },
+          },
+        },
+      },
+      { documentName: 'spec' },
+    );
+
+    expect(source).toContain('export const job_status = z.string()');
+    expect(source).toContain('export const _1Job = z.string()');
+    expect(source).toContain('export const spec2 = z.string()');
+    expect(source).toContain('export const spec = {');
+  });
+
+  it('generates path item parameters', () => {
+    const pathsDocument: oas31.OpenAPIObject = {
+      openapi: '3.1.0',
+      info: { title: 'Jobs API', version: '1.0.0' },
+      paths: {
+        '/jobs/{id}': {
+          get: {
+            parameters: [
+              { in: 'query', name: 'page', schema: { type: 'integer' } },
+            ],
+            responses: {},
+          },
+          parameters: [
+            {
+              in: 'path',
+              name: 'id',
+              required: true,
+              schema: { type: 'string' },
+            },
+          ],
+        },
+      },
+    };
+    const source = generateZod(pathsDocument);
+
+    expect(source).toContain(
+      '      },\n      requestParams: {\n        path: z.object({\n          id: z.string(),\n        }),\n      },\n    },',
+    );
+    expect(createDocument(evaluate(source))).toEqual(pathsDocument);
+  });
+
+  it('converts enums which only allow null', () => {
+    const source = generateZod({
+      openapi: '3.1.0',
+      info: { title: 'Jobs API', version: '1.0.0' },
+      paths: {},
+      components: {
+        schemas: {
+          Nothing: { enum: [null] },
+        },
+      },
+    });
+
+    expect(source).toContain('export const Nothing = z.null().openapi({');
+    expect(createDocument(evaluate(source)).components?.schemas).toEqual({
+      Nothing: { type: 'null' },
+    });
+  });
+
+  it('declares request bodies before the request bodies which reference them', () => {
+    const source = generateZod({
+      openapi: '3.1.0',
+      info: { title: 'Jobs API', version: '1.0.0' },
+      paths: {},
+      components: {
+        requestBodies: {
+          UpdateJob: { $ref: '#/components/requestBodies/CreateJob' },
+          CreateJob: {
+            content: { 'application/json': { schema: { type: 'string' } } },
+          },
+        },
+      },
+    });
+
+    expect(source).toContain(
+      'export const UpdateJobRequestBody = CreateJobRequestBody satisfies ZodOpenApiRequestBodyObject;',
+    );
+    expect(source.indexOf('export const CreateJobRequestBody')).toBeLessThan(
+      source.indexOf('export const UpdateJobRequestBody'),
+    );
+    const { requestBodies } = evaluate(source).components ?? {};
+    expect(Object.keys(requestBodies ?? {})).toEqual([
+      'UpdateJob',
+      'CreateJob',
+    ]);
+    expect(requestBodies?.UpdateJob).toBe(requestBodies?.CreateJob);
+  });
+
+  it('keeps parameters without a schema as is', () => {
+    const source = generateZod({
+      openapi: '3.1.0',
+      info: { title: 'Jobs API', version: '1.0.0' },
+      paths: {
+        '/jobs': {
+          get: {
+            parameters: [
+              {
+                in: 'query',
+                name: 'filter',
+                content: {
+                  'application/json': { schema: { type: 'object' } },
+                },
+              },
+            ],
+            responses: {},
+          },
+        },
+      },
+    });
+
+    expect(source).toContain(
+      "parameters: [\n          {\n            in: 'query',\n            name: 'filter',",
+    );
+  });
+});
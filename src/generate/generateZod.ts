@@ -0,0 +1,586 @@
+import { HTTP_METHODS, type HttpMethod } from '../openapi';
+import type { oas30, oas31 } from '../openapi3-ts/dist';
+
+import { type Code, type Value, code, printValue, raw } from './print';
+import {
+  type GenerateState,
+  type SchemaOrRef,
+  generateSchema,
+  isReferenceObject,
+  orderSchemas,
+} from './schema';
+
+export interface GenerateZodOptions {
+  /**
+   * The name of the exported ZodOpenApiObject. Defaults to `document`
+   */
+  documentName?: string;
+}
+
+type OpenAPIObject = oas31.OpenAPIObject | oas30.OpenAPIObject;
+type ParameterObject = oas31.ParameterObject | oas30.ParameterObject;
+type HeaderObject = oas31.HeaderObject | oas30.HeaderObject;
+type ReferenceObject = oas31.ReferenceObject | oas30.ReferenceObject;
+
+type ComponentType =
+  | 'parameters'
+  | 'headers'
+  | 'requestBodies'
+  | 'responses'
+  | 'callbacks';
+
+const COMPONENT_SUFFIXES: Record<ComponentType, string> = {
+  parameters: 'Parameter',
+  headers: 'Header',
+  requestBodies: 'RequestBody',
+  responses: 'Response',
+  callbacks: 'Callback',
+};
+
+const COMPONENT_TYPES: Record<ComponentType, string | undefined> = {
+  parameters: undefined,
+  headers: undefined,
+  requestBodies: 'ZodOpenApiRequestBodyObject',
+  responses: 'ZodOpenApiResponseObject',
+  callbacks: 'ZodOpenApiCallbackObject',
+};
+
+const RESERVED_IDENTIFIERS = new Set(
+  'z break case catch class const continue debugger default delete do else enum export extends false finally for function if import in instanceof new null return super switch this throw true try typeof var void while with yield let static implements interface package private protected public await'.split(
+    ' ',
+  ),
+);
+
+interface DocumentState extends GenerateState {
+  identifiers: Set<string>;
+  /** Generated constants for components keyed by their component type and name */
+  components: Record<ComponentType, Map<string, string>>;
+  declarations: string[];
+}
+
+const createIdentifier = (
+  name: string,
+  suffix: string,
+  state: DocumentState,
+): string => {
+  const sanitized = `${name.replace(/[^\w$]/g, '_')}${suffix}`;
+  const base =
+    /^\d/.test(sanitized) || RESERVED_IDENTIFIERS.has(sanitized)
+      ? `_${sanitized}`
+      : sanitized;
+
+  let identifier = base;
+  let index = 2;
+  while (state.identifiers.has(identifier)) {
+    identifier = `${base}${index}`;
+    index++;
+  }
+  state.identifiers.add(identifier);
+  return identifier;
+};
+
+/**
+ * Declares an exported constant. Prefer `satisfies` over a `type` annotation so that the literal types of the value are
+ * still inferred eg. for `createClient`.
+ */
+const declare = (
+  identifier: string,
+  value: Value,
+  state: DocumentState,
+  { type, satisfies }: { type?: string; satisfies?: string } = {},
+) =>
+  state.declarations.push(
+    `export const ${identifier}${type ? `: ${type}` : ''} = ${printValue(value)}${satisfies ? ` satisfies ${satisfies}` : ''};`,
+  );
+
+const getComponentRef = (
+  ref: string,
+  type: ComponentType,
+  state: DocumentState,
+): string | undefined => {
+  const prefix = `#/components/${type}/`;
+  return ref.startsWith(prefix)
+    ? state.components[type].get(ref.slice(prefix.length))
+    : undefined;
+};
+
+/**
+ * Orders components so that a component which references another component of the same type is declared after it
+ */
+const orderComponents = <T extends object>(
+  components: Record<string, T | ReferenceObject>,
+  type: ComponentType,
+): string[] => {
+  const prefix = `#/components/${type}/`;
+  const order: string[] = [];
+  const visiting = new Set<string>();
+
+  const visit = (name: string) => {
+    if (order.includes(name) || visiting.has(name)) {
+      return;
+    }
+    visiting.add(name);
+
+    const component = components[name];
+    if (
+      component &&
+      isReferenceObject(component) &&
+      component.$ref.startsWith(prefix)
+    ) {
+      const target = component.$ref.slice(prefix.length);
+      if (target in components) {
+        visit(target);
+      }
+    }
+
+    order.push(name);
+  };
+
+  Object.keys(components).forEach(visit);
+  return order;
+};
+
+/** Marks part of the document which is printed as is */
+const literal = (value: unknown) => value as Value;
+
+const omitUndefined = (value: Record<string, Value>) =>
+  Object.fromEntries(
+    Object.entries(value).filter(([, item]) => item !== undefined),
+  );
+
+const generateParameterSchema = (
+  parameter: ParameterObject | HeaderObject,
+  state: DocumentState,
+  metadataKey: 'param' | 'header',
+  location: Record<string, Value> = {},
+): Code | undefined => {
+  const {
+    schema,
+    required,
+    name: _name,
+    in: _in,
+    ...rest
+  } = parameter as ParameterObject;
+  if (!schema) {
+    return undefined;
+  }
+
+  const zodSchema = generateSchema(schema, state);
+  const optional = required ? raw('') : raw('.optional()');
+  const metadata = omitUndefined({
+    ...location,
+    ...(rest as Record<string, Value>),
+  });
+
+  return Object.keys(metadata).length
+    ? code`${zodSchema}${optional}.openapi(${{ [metadataKey]: metadata }})`
+    : code`${zodSchema}${optional}`;
+};
+
+const generateContent = (
+  content: oas31.ContentObject | oas30.ContentObject,
+  state: DocumentState,
+): Value =>
+  Object.fromEntries(
+    Object.entries(content).map(([mediaType, { schema, ...rest }]) => [
+      mediaType,
+      {
+        ...(rest as Record<string, Value>),
+        ...(schema && {
+          schema: generateSchema(schema as SchemaOrRef, state),
+        }),
+      },
+    ]),
+  );
+
+const generateRequestBody = (
+  requestBody: oas31.RequestBodyObject | ReferenceObject,
+  state: DocumentState,
+): Value => {
+  if (isReferenceObject(requestBody)) {
+    const identifier = getComponentRef(
+      requestBody.$ref,
+      'requestBodies',
+      state,
+    );
+    if (!identifier) {
+      throw new Error(`Request body ${requestBody.$ref} could not be found`);
+    }
+    return raw(identifier);
+  }
+
+  const { content, ...rest } = requestBody;
+  return {
+    ...(rest as Record<string, Value>),
+    content: generateContent(content, state),
+  };
+};
+
+const generateHeaders = (
+  headers: Record<string, HeaderObject | ReferenceObject>,
+  state: DocumentState,
+): Value => {
+  const shape: Record<string, Value> = {};
+  for (const [name, header] of Object.entries(headers)) {
+    const headerSchema = isReferenceObject(header)
+      ? getComponentRef(header.$ref, 'headers', state)
+      : generateParameterSchema(header, state, 'header');
+    if (!headerSchema) {
+      return literal(headers);
+    }
+    shape[name] =
+      typeof headerSchema === 'string' ? raw(headerSchema) : headerSchema;
+  }
+  return code`z.object(${shape})`;
+};
+
+const generateResponse = (
+  response: oas31.ResponseObject | oas30.ResponseObject | ReferenceObject,
+  state: DocumentState,
+): Value => {
+  if (isReferenceObject(response)) {
+    const identifier = getComponentRef(response.$ref, 'responses', state);
+    return identifier ? raw(identifier) : literal(response);
+  }
+
+  const { content, headers, ...rest } = response;
+  return {
+    ...(rest as Record<string, Value>),
+    ...(headers && {
+      headers: generateHeaders(
+        headers as Record<string, HeaderObject | ReferenceObject>,
+        state,
+      ),
+    }),
+    ...(content && { content: generateContent(content, state) }),
+  };
+};
+
+const generateParameters = (
+  parameters: Array<ParameterObject | ReferenceObject>,
+  state: DocumentState,
+): { requestParams?: Value; parameters?: Value } => {
+  const requestParams: Record<string, Record<string, Value>> = {};
+  const manualParameters: Value[] = [];
+
+  parameters.forEach((parameter) => {
+    if (isReferenceObject(parameter)) {
+      const identifier = getComponentRef(parameter.$ref, 'parameters', state);
+      manualParameters.push(identifier ? raw(identifier) : literal(parameter));
+      return;
+    }
+
+    const schema = generateParameterSchema(parameter, state, 'param');
+    if (!schema) {
+      manualParameters.push(literal(parameter));
+      return;
+    }
+
+    requestParams[parameter.in] ??= {};
+    (requestParams[parameter.in] as Record<string, Value>)[parameter.name] =
+      schema;
+  });
+
+  return {
+    ...(Object.keys(requestParams).length && {
+      requestParams: Object.fromEntries(
+        Object.entries(requestParams).map(([location, shape]) => [
+          location,
+          code`z.object(${shape})`,
+        ]),
+      ),
+    }),
+    ...(manualParameters.length && { parameters: manualParameters }),
+  };
+};
+
+const generateCallbacks = (
+  callbacks: Record<string, oas31.CallbackObject | ReferenceObject>,
+  document: OpenAPIObject,
+  state: DocumentState,
+): Value =>
+  Object.fromEntries(
+    Object.entries(callbacks).map(([name, callback]) => {
+      if (isReferenceObject(callback)) {
+        const identifier = getComponentRef(callback.$ref, 'callbacks', state);
+        if (!identifier) {
+          throw new Error(`Callback ${callback.$ref} could not be found`);
+        }
+        return [name, raw(identifier)];
+      }
+      return [name, generatePaths(callback, document, state)];
+    }),
+  );
+
+const generateOperation = (
+  operation: oas31.OperationObject | oas30.OperationObject,
+  document: OpenAPIObject,
+  state: DocumentState,
+): Value => {
+  const { parameters, requestBody, responses, callbacks, ...rest } =
+    operation as oas31.OperationObject;
+
+  return {
+    ...(rest as Record<string, Value>),
+    ...generateParameters(parameters ?? [], state),
+    ...(requestBody && {
+      requestBody: generateRequestBody(requestBody, state),
+    }),
+    responses: Object.fromEntries(
+      Object.entries(responses ?? {}).map(([status, response]) => [
+        status,
+        status.startsWith('x-')
+          ? literal(response)
+          : generateResponse(
+              response as oas31.ResponseObject | ReferenceObject,
+              state,
+            ),
+      ]),
+    ),
+    ...(callbacks && {
+      callbacks: generateCallbacks(callbacks, document, state),
+    }),
+  };
+};
+
+const generatePathItem = (
+  pathItem: oas31.PathItemObject | oas30.PathItemObject,
+  document: OpenAPIObject,
+  state: DocumentState,
+): Value => {
+  const { parameters, ...rest } = pathItem as oas31.PathItemObject;
+  return {
+    ...Object.fromEntries(
+      Object.entries(rest).map(([key, value]) => [
+        key,
+        HTTP_METHODS.includes(key as HttpMethod)
+          ? generateOperation(value as oas31.OperationObject, document, state)
+          : literal(value),
+      ]),
+    ),
+    ...generateParameters(parameters ?? [], state),
+  };
+};
+
+const generatePaths = (
+  paths: oas31.PathsObject | oas30.PathsObject | oas31.CallbackObject,
+  document: OpenAPIObject,
+  state: DocumentState,
+): Value =>
+  Object.fromEntries(
+    Object.entries(paths).map(([path, pathItem]) => [
+      path,
+      path.startsWith('x-')
+        ? literal(pathItem)
+        : generatePathItem(pathItem as oas31.PathItemObject, document, state),
+    ]),
+  );
+
+const generateSchemaComponents = (
+  schemas: Record<string, SchemaOrRef>,
+  state: DocumentState,
+) => {
+  const names = Object.keys(schemas);
+  names.forEach((name) =>
+    state.schemas.set(name, createIdentifier(name, '', state)),
+  );
+
+  const { order, circular } = orderSchemas(schemas);
+  order.forEach((name) => {
+    declare(
+      state.schemas.get(name) as string,
+      generateSchema(schemas[name] as SchemaOrRef, state, { ref: name }),
+      state,
+      circular.has(name) ? { type: 'z.ZodType<unknown>' } : undefined,
+    );
+    state.declared.add(name);
+  });
+};
+
+const generateComponents = (
+  document: OpenAPIObject,
+  state: DocumentState,
+): Value => {
+  const { components } = document;
+  if (!components) {
+    return undefined;
+  }
+
+  const {
+    schemas = {},
+    parameters = {},
+    headers = {},
+    requestBodies = {},
+    responses = {},
+    callbacks = {},
+    ...rest
+  } = components as oas31.ComponentsObject;
+
+  generateSchemaComponents(schemas, state);
+
+  const generated: Record<ComponentType, Record<string, Value>> = {
+    parameters: {},
+    headers: {},
+    requestBodies: {},
+    responses: {},
+    callbacks: {},
+  };
+
+  const addComponent = (
+    type: ComponentType,
+    name: string,
+    create: (identifier: string) => Value,
+  ) => {
+    const identifier = createIdentifier(name, COMPONENT_SUFFIXES[type], state);
+    state.components[type].set(name, identifier);
+    declare(identifier, create(identifier), state, {
+      satisfies: COMPONENT_TYPES[type],
+    });
+    generated[type][name] = raw(identifier);
+  };
+
+  Object.entries(parameters).forEach(([name, parameter]) => {
+    const schema = isReferenceObject(parameter)
+      ? undefined
+      : generateParameterSchema(parameter, state, 'param', {
+          in: parameter.in,
+          name: parameter.name,
+        });
+    if (!schema) {
+      generated.parameters[name] = literal(parameter);
+      return;
+    }
+    addComponent('parameters', name, () => schema);
+  });
+
+  Object.entries(headers).forEach(([name, header]) => {
+    const schema = isReferenceObject(header)
+      ? undefined
+      : generateParameterSchema(header, state, 'header');
+    if (!schema) {
+      generated.headers[name] = literal(header);
+      return;
+    }
+    addComponent('headers', name, () => schema);
+  });
+
+  orderComponents(requestBodies, 'requestBodies').forEach((name) =>
+    addComponent('requestBodies', name, () =>
+      generateRequestBody(
+        requestBodies[name] as oas31.RequestBodyObject | ReferenceObject,
+        state,
+      ),
+    ),
+  );
+
+  orderComponents(responses, 'responses').forEach((name) =>
+    addComponent('responses', name, () =>
+      generateResponse(
+        responses[name] as oas31.ResponseObject | ReferenceObject,
+        state,
+      ),
+    ),
+  );
+
+  Object.entries(callbacks).forEach(([name, callback]) =>
+    addComponent('callbacks', name, () =>
+      isReferenceObject(callback)
+        ? literal(callback)
+        : generatePaths(callback, document, state),
+    ),
+  );
+
+  const schemaComponents = Object.fromEntries(
+    Object.keys(schemas).map((name) => [
+      name,
+      raw(state.schemas.get(name) as string),
+    ]),
+  );
+
+  // Keep the order of the original document rather than the order of declaration
+  const sortLike = (
+    original: Record<string, unknown>,
+    values: Record<string, Value>,
+  ) =>
+    Object.fromEntries(
+      Object.keys(original)
+        .filter((name) => name in values)
+        .map((name) => [name, values[name]]),
+    );
+
+  const result = omitUndefined({
+    ...(rest as Record<string, Value>),
+    schemas: schemaComponents,
+    ...generated,
+    requestBodies: sortLike(requestBodies, generated.requestBodies),
+    responses: sortLike(responses, generated.responses),
+  });
+
+  return Object.fromEntries(
+    Object.entries(result).filter(
+      ([, value]) =>
+        typeof value !== 'object' ||
+        value === null ||
+        Object.keys(value).length,
+    ),
+  );
+};
+
+/**
+ * Generates the source code of a TypeScript module which declares a ZodOpenApiObject for an OpenAPI document. Component
+ * schemas are exported as Zod schemas registered with `.openapi({ ref })`.
+ */
+export const generateZod = (
+  document: OpenAPIObject,
+  { documentName = 'document' }: GenerateZodOptions = {},
+): string => {
+  const state: DocumentState = {
+    schemas: new Map(),
+    declared: new Set(),
+    identifiers: new Set([documentName]),
+    components: {
+      parameters: new Map(),
+      headers: new Map(),
+      requestBodies: new Map(),
+      responses: new Map(),
+      callbacks: new Map(),
+    },
+    declarations: [],
+  };
+
+  const {
+    paths,
+    webhooks,
+    components: _components,
+    ...rest
+  } = document as oas31.OpenAPIObject;
+
+  const generatedComponents = generateComponents(document, state);
+  const documentObject: Record<string, Value> = {
+    ...(literal(rest) as Record<string, Value>),
+    ...(paths && { paths: generatePaths(paths, document, state) }),
+    ...(webhooks && { webhooks: generatePaths(webhooks, document, state) }),
+    ...(generatedComponents !== undefined && {
+      components: generatedComponents,
+    }),
+  };
+  declare(documentName, documentObject, state, {
+    satisfies: 'ZodOpenApiObject',
+  });
+
+  const types = [
+    'ZodOpenApiObject',
+    ...(Object.keys(COMPONENT_TYPES) as ComponentType[]).flatMap((type) => {
+      const typeName = COMPONENT_TYPES[type];
+      return typeName && state.components[type].size ? [typeName] : [];
+    }),
+  ].sort();
+
+  const imports = [
+    "import 'zod-openapi/extend';",
+    "import { z } from 'zod';",
+    `import type { ${types.join(', ')} } from 'zod-openapi';`,
+  ].join('\n');
+
+  return [imports, ...state.declarations].join('\n\n').concat('\n');
+};
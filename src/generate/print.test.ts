@@ -0,0 +1,27 @@
+import { code, join, printValue, raw } from './print';
+
+describe('printValue', () => {
+  it('prints literals', () => {
+    expect(printValue("it's")).toBe("'it\\'s'");
+    expect(printValue(1)).toBe('1');
+    expect(printValue(null)).toBe('null');
+    expect(printValue([])).toBe('[]');
+    expect(printValue({})).toBe('{}');
+  });
+
+  it('prints nested objects and arrays with indentation', () => {
+    expect(
+      printValue({ a: [1, { 'b-c': true }], d: undefined, e: raw('E') }),
+    ).toBe(
+      "{\n  a: [\n    1,\n    {\n      'b-c': true,\n    },\n  ],\n  e: E,\n}",
+    );
+  });
+
+  it('prints code fragments', () => {
+    expect(
+      printValue(
+        code`z.object(${{ a: raw('z.string()') }})${join([raw('.a()'), code`.b(${'c'})`], '')}`,
+      ),
+    ).toBe("z.object({\n  a: z.string(),\n}).a().b('c')");
+  });
+});
@@ -0,0 +1,92 @@
+const CODE = Symbol('code');
+
+export interface Code {
+  [CODE]: Array<string | Value>;
+}
+
+export type Value =
+  | Code
+  | string
+  | number
+  | boolean
+  | null
+  | undefined
+  | Value[]
+  | { [key: string]: Value };
+
+export const isCode = (value: unknown): value is Code =>
+  typeof value === 'object' && value !== null && CODE in value;
+
+const printString = (value: string) =>
+  `'${value
+    .replace(/['\\]/g, '\\$&')
+    .replace(/\n/g, '\\n')
+    .replace(/\r/g, '\\r')}'`;
+
+/**
+ * Creates a code fragment. Interpolated values are printed as literals, use `raw` to interpolate identifiers.
+ */
+export const code = (
+  strings: TemplateStringsArray,
+  ...values: Value[]
+): Code => ({
+  [CODE]: strings.flatMap((string, index) => {
+    const value = values[index];
+    if (index >= values.length) {
+      return [string];
+    }
+    // Strings within a fragment are printed verbatim so interpolated strings are converted to literals up front
+    return [string, typeof value === 'string' ? printString(value) : value];
+  }),
+});
+
+export const raw = (value: string): Code => ({ [CODE]: [value] });
+
+export const join = (values: Value[], separator: string): Code => ({
+  [CODE]: values.flatMap((value, index) =>
+    index ? [separator, value] : [value],
+  ),
+});
+
+const printKey = (key: string) =>
+  /^[A-Za-z_$][\w$]*$/.test(key) ? key : `'${key.replace(/['\\]/g, '\\$&')}'`;
+
+export const printValue = (value: Value, indent = ''): string => {
+  if (isCode(value)) {
+    return value[CODE].map((part) =>
+      typeof part === 'string' ? part : printValue(part, indent),
+    ).join('');
+  }
+
+  const nextIndent = `${indent}  `;
+
+  if (Array.isArray(value)) {
+    if (!value.length) {
+      return '[]';
+    }
+    return `[\n${value
+      .map((item) => `${nextIndent}${printValue(item, nextIndent)},\n`)
+      .join('')}${indent}]`;
+  }
+
+  if (typeof value === 'object' && value !== null) {
+    const entries = Object.entries(value).filter(
+      ([, item]) => item !== undefined,
+    );
+    if (!entries.length) {
+      return '{}';
+    }
+    return `{\n${entries
+      .map(
+        ([key, item]) =>
+          `${nextIndent}${printKey(key)}: ${printValue(item, nextIndent)},\n`,
+      )
+      .join('')}${indent}}`;
+  }
+
+  if (typeof value === 'string') {
+    return printString(value);
+  }
+
+  return String(value);
+};
@@ -0,0 +1,99 @@
+import type { oas30, oas31 } from '../openapi3-ts/dist';
+
+import { printValue } from './print';
+import { type GenerateState, generateSchema, orderSchemas } from './schema';
+
+const createState = (): GenerateState => ({
+  schemas: new Map([
+    ['Job', 'Job'],
+    ['User', 'User'],
+  ]),
+  declared: new Set(['Job']),
+});
+
+const print = (schema: oas31.SchemaObject | oas30.SchemaObject) =>
+  printValue(generateSchema(schema, createState()));
+
+describe('generateSchema', () => {
+  it.each`
+    schema                                                                 | expected
+    ${{ type: 'string', format: 'email', minLength: 3 }}                   | ${'z.string().email().min(3)'}
+    ${{ type: 'string', format: 'date-time' }}                             | ${'z.string().datetime({ offset: true })'}
+    ${{ type: 'string', pattern: '^\\d+$' }}                               | ${"z.string().regex(new RegExp('^\\\\d+$'))"}
+    ${{ type: 'integer', minimum: 0, exclusiveMaximum: 10 }}               | ${'z.number().int().gte(0).lt(10)'}
+    ${{ type: 'number', minimum: 0, exclusiveMinimum: true }}              | ${'z.number().gt(0)'}
+    ${{ type: 'boolean', default: false }}                                 | ${'z.boolean().default(false)'}
+    ${{ type: ['string', 'null'] }}                                        | ${'z.string().nullable()'}
+    ${{ type: 'string', nullable: true }}                                  | ${'z.string().nullable()'}
+    ${{ type: ['string', 'number'] }}                                      | ${'z.union([\n  z.string(),\n  z.number(),\n])'}
+    ${{ enum: ['a', 'b'] }}                                                | ${"z.enum([\n  'a',\n  'b',\n])"}
+    ${{ enum: [1, 2] }}                                                    | ${'z.union([\n  z.literal(1),\n  z.literal(2),\n])'}
+    ${{ const: 'a' }}                                                      | ${"z.literal('a')"}
+    ${{ type: 'array', items: { type: 'string' }, minItems: 1 }}           | ${'z.array(z.string()).min(1)'}
+    ${{ type: 'array', prefixItems: [{ type: 'string' }] }}                | ${'z.tuple([\n  z.string(),\n])'}
+    ${{ type: 'object', additionalProperties: { type: 'number' } }}        | ${'z.record(z.string(), z.number())'}
+    ${{ oneOf: [{ $ref: '#/components/schemas/Job' }, { type: 'null' }] }} | ${'z.union([\n  Job,\n  z.null(),\n]).openapi({ unionOneOf: true })'}
+    ${{ allOf: [{ $ref: '#/components/schemas/Job' }], nullable: true }}   | ${'Job.nullable()'}
+    ${{ $ref: '#/components/schemas/User' }}                               | ${'z.lazy(() => User)'}
+    ${{ $ref: 'other.yaml#/Job' }}                                         | ${"z.unknown().openapi({\n  $ref: 'other.yaml#/Job',\n})"}
+    ${{}}                                                                  | ${'z.unknown()'}
+  `('generates $expected', ({ schema, expected }) => {
+    expect(print(schema as oas31.SchemaObject)).toBe(expected);
+  });
+
+  it('generates an object with optional properties', () => {
+    expect(
+      print({
+        type: 'object',
+        properties: {
+          id: { type: 'string' },
+          'first-name': { type: 'string' },
+        },
+        required: ['id'],
+        additionalProperties: false,
+      }),
+    ).toBe(
+      "z.object({\n  id: z.string(),\n  'first-name': z.string().optional(),\n}).strict()",
+    );
+  });
+
+  it('preserves unsupported keywords in .openapi()', () => {
+    expect(
+      print({
+        type: 'string',
+        format: 'binary',
+        description: 'A file',
+        example: 'abc',
+      }),
+    ).toBe(
+      "z.string().describe('A file').openapi({\n  format: 'binary',\n  example: 'abc',\n})",
+    );
+  });
+});
+
+describe('orderSchemas', () => {
+  it('orders schemas after their dependencies', () => {
+    expect(
+      orderSchemas({
+        Job: {
+          type: 'object',
+          properties: { owner: { $ref: '#/components/schemas/User' } },
+        },
+        User: { type: 'string' },
+      }),
+    ).toEqual({ order: ['User', 'Job'], circular: new Set() });
+  });
+
+  it('returns schemas which are part of a reference cycle', () => {
+    expect(
+      orderSchemas({
+        A: { $ref: '#/components/schemas/B' },
+        B: {
+          type: 'array',
+          items: { $ref: '#/components/schemas/A' },
+        },
+        C: { type: 'string' },
+      }),
+    ).toEqual({ order: ['B', 'A', 'C'], circular: new Set(['A', 'B']) });
+  });
+});
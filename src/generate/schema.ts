@@ -0,0 +1,438 @@
+import type { oas30, oas31 } from '../openapi3-ts/dist';
+
+import { type Code, type Value, code, join, raw } from './print';
+
+export type SchemaObject = oas31.SchemaObject | oas30.SchemaObject;
+export type SchemaOrRef =
+  | SchemaObject
+  | oas31.ReferenceObject
+  | oas30.ReferenceObject;
+
+export interface GenerateState {
+  /** Maps component schema names to the identifiers of their generated constants */
+  schemas: Map<string, string>;
+  /** Component schemas which have already been declared. References to any others are wrapped in `z.lazy()` */
+  declared: Set<string>;
+}
+
+const SCHEMA_REF_PREFIX = '#/components/schemas/';
+
+const STRING_FORMATS: Record<string, string> = {
+  email: '.email()',
+  uuid: '.uuid()',
+  uri: '.url()',
+  date: '.date()',
+  'date-time': '.datetime({ offset: true })',
+  time: '.time()',
+  duration: '.duration()',
+  ipv4: ".ip({ version: 'v4' })",
+  ipv6: ".ip({ version: 'v6' })",
+};
+
+interface BaseSchema {
+  code: Code;
+  /** Keys of the schema object which are represented by the code */
+  consumed: string[];
+}
+
+export const isReferenceObject = (
+  value: object,
+): value is oas31.ReferenceObject | oas30.ReferenceObject => '$ref' in value;
+
+export const getSchemaRefName = (ref: string): string | undefined =>
+  ref.startsWith(SCHEMA_REF_PREFIX)
+    ? ref.slice(SCHEMA_REF_PREFIX.length)
+    : undefined;
+
+const createRefSchema = (ref: string, state: GenerateState): Code => {
+  const name = getSchemaRefName(ref);
+  const identifier = name ? state.schemas.get(name) : undefined;
+  if (!name || !identifier) {
+    return code`z.unknown().openapi(${{ $ref: ref }})`;
+  }
+
+  return state.declared.has(name)
+    ? raw(identifier)
+    : code`z.lazy(() => ${raw(identifier)})`;
+};
+
+const createLiteralSchema = (value: Value): Code => code`z.literal(${value})`;
+
+const createEnumSchema = (values: unknown[]): Code => {
+  if (values.every((value) => typeof value === 'string')) {
+    return code`z.enum(${values})`;
+  }
+  if (values.length === 1) {
+    return createLiteralSchema(values[0] as Value);
+  }
+  return code`z.union(${values.map((value) => createLiteralSchema(value as Value))})`;
+};
+
+const createUnionSchema = (
+  schemas: SchemaOrRef[],
+  state: GenerateState,
+  oneOf: boolean,
+): Code => {
+  const options = schemas.map((schema) => generateSchema(schema, state));
+  if (options.length === 1) {
+    return options[0] as Code;
+  }
+  return oneOf
+    ? code`z.union(${options}).openapi({ unionOneOf: true })`
+    : code`z.union(${options})`;
+};
+
+const createIntersectionSchema = (
+  schemas: SchemaOrRef[],
+  state: GenerateState,
+): Code =>
+  schemas
+    .map((schema) => generateSchema(schema, state))
+    .reduce((acc, schema) => code`z.intersection(${acc}, ${schema})`);
+
+const createStringSchema = (schema: SchemaObject): BaseSchema => {
+  const format =
+    schema.format && STRING_FORMATS[schema.format]
+      ? STRING_FORMATS[schema.format]
+      : undefined;
+  const checks = [
+    format,
+    schema.minLength !== undefined ? `.min(${schema.minLength})` : undefined,
+    schema.maxLength !== undefined ? `.max(${schema.maxLength})` : undefined,
+  ].filter(Boolean);
+
+  return {
+    code: code`z.string()${raw(checks.join(''))}${
+      schema.pattern !== undefined
+        ? code`.regex(new RegExp(${schema.pattern}))`
+        : raw('')
+    }`,
+    consumed: [
+      'type',
+      'minLength',
+      'maxLength',
+      'pattern',
+      ...(format ? ['format'] : []),
+    ],
+  };
+};
+
+const createNumberSchema = (schema: SchemaObject): BaseSchema => {
+  const { exclusiveMinimum, exclusiveMaximum, minimum, maximum } = schema;
+  const checks = [
+    schema.type === 'integer' ? '.int()' : undefined,
+    typeof exclusiveMinimum === 'number'
+      ? `.gt(${exclusiveMinimum})`
+      : undefined,
+    minimum !== undefined
+      ? `.${exclusiveMinimum === true ? 'gt' : 'gte'}(${minimum})`
+      : undefined,
+    typeof exclusiveMaximum === 'number'
+      ? `.lt(${exclusiveMaximum})`
+      : undefined,
+    maximum !== undefined
+      ? `.${exclusiveMaximum === true ? 'lt' : 'lte'}(${maximum})`
+      : undefined,
+    schema.multipleOf !== undefined
+      ? `.multipleOf(${schema.multipleOf})`
+      : undefined,
+  ].filter(Boolean);
+
+  return {
+    code: raw(`z.number()${checks.join('')}`),
+    consumed: [
+      'type',
+      'minimum',
+      'maximum',
+      'exclusiveMinimum',
+      'exclusiveMaximum',
+      'multipleOf',
+    ],
+  };
+};
+
+const createArraySchema = (
+  schema: SchemaObject,
+  state: GenerateState,
+): BaseSchema => {
+  const prefixItems = (schema as oas31.SchemaObject).prefixItems;
+  if (prefixItems) {
+    const items = prefixItems.map((item) => generateSchema(item, state));
+    const rest =
+      schema.items && typeof schema.items === 'object'
+        ? code`.rest(${generateSchema(schema.items, state)})`
+        : raw('');
+    return {
+      code: code`z.tuple(${items})${rest}`,
+      consumed: ['type', 'prefixItems', 'items', 'minItems', 'maxItems'],
+    };
+  }
+
+  const checks = [
+    schema.minItems !== undefined ? `.min(${schema.minItems})` : undefined,
+    schema.maxItems !== undefined ? `.max(${schema.maxItems})` : undefined,
+  ].filter(Boolean);
+  const items = schema.items
+    ? generateSchema(schema.items, state)
+    : raw('z.unknown()');
+
+  return {
+    code: code`z.array(${items})${raw(checks.join(''))}`,
+    consumed: ['type', 'items', 'minItems', 'maxItems'],
+  };
+};
+
+const createObjectSchema = (
+  schema: SchemaObject,
+  state: GenerateState,
+): BaseSchema => {
+  const required = new Set(schema.required ?? []);
+  const { additionalProperties } = schema;
+  const consumed = ['type', 'properties', 'required', 'additionalProperties'];
+
+  if (
+    !schema.properties &&
+    additionalProperties &&
+    typeof additionalProperties === 'object'
+  ) {
+    return {
+      code: code`z.record(z.string(), ${generateSchema(additionalProperties, state)})`,
+      consumed,
+    };
+  }
+
+  const properties: Record<string, SchemaOrRef> = schema.properties ?? {};
+  const shape = Object.fromEntries(
+    Object.entries(properties).map(([key, property]) => [
+      key,
+      required.has(key)
+        ? generateSchema(property, state)
+        : code`${generateSchema(property, state)}.optional()`,
+    ]),
+  );
+
+  if (additionalProperties === false) {
+    return { code: code`z.object(${shape}).strict()`, consumed };
+  }
+  if (additionalProperties === true) {
+    return { code: code`z.object(${shape}).passthrough()`, consumed };
+  }
+  if (additionalProperties) {
+    return {
+      code: code`z.object(${shape}).catchall(${generateSchema(additionalProperties, state)})`,
+      consumed,
+    };
+  }
+  return { code: code`z.object(${shape})`, consumed };
+};
+
+const createTypeSchema = (
+  schema: SchemaObject,
+  type: string | undefined,
+  state: GenerateState,
+): BaseSchema => {
+  switch (type) {
+    case 'string':
+      return createStringSchema(schema);
+    case 'number':
+    case 'integer':
+      return createNumberSchema(schema);
+    case 'boolean':
+      return { code: raw('z.boolean()'), consumed: ['type'] };
+    case 'null':
+      return { code: raw('z.null()'), consumed: ['type'] };
+    case 'array':
+      return createArraySchema(schema, state);
+    case 'object':
+      return createObjectSchema(schema, state);
+  }
+
+  if (schema.properties || schema.additionalProperties !== undefined) {
+    return createObjectSchema(schema, state);
+  }
+
+  return { code: raw('z.unknown()'), consumed: [] };
+};
+
+const createBaseSchema = (
+  schema: SchemaObject,
+  types: string[],
+  state: GenerateState,
+): BaseSchema => {
+  if (schema.enum) {
+    const values = schema.enum.filter((value) => value !== null);
+    return {
+      code: values.length ? createEnumSchema(values) : raw('z.null()'),
+      consumed: ['enum', 'type'],
+    };
+  }
+
+  if ('const' in schema) {
+    return {
+      code: createLiteralSchema(schema.const as Value),
+      consumed: ['const', 'type'],
+    };
+  }
+
+  if (schema.allOf) {
+    const { allOf, ...rest } = schema;
+    const members: SchemaOrRef[] = rest.properties
+      ? [
+          ...allOf,
+          {
+            type: 'object',
+            properties: rest.properties,
+            required: rest.required,
+          } as SchemaObject,
+        ]
+      : allOf;
+    return {
+      code: createIntersectionSchema(members, state),
+      consumed: ['allOf', 'type', 'properties', 'required'],
+    };
+  }
+
+  if (schema.oneOf || schema.anyOf) {
+    return {
+      code: createUnionSchema(
+        (schema.oneOf ?? schema.anyOf) as SchemaOrRef[],
+        state,
+        Boolean(schema.oneOf),
+      ),
+      consumed: ['oneOf', 'anyOf'],
+    };
+  }
+
+  if (types.length > 1) {
+    return {
+      code: code`z.union(${types.map(
+        (type) => createTypeSchema(schema, type, state).code,
+      )})`,
+      consumed: types.flatMap(
+        (type) => createTypeSchema(schema, type, state).consumed,
+      ),
+    };
+  }
+
+  return createTypeSchema(schema, types[0], state);
+};
+
+const getTypes = (schema: SchemaObject): string[] => {
+  if (Array.isArray(schema.type)) {
+    return schema.type as string[];
+  }
+  return schema.type ? [schema.type] : [];
+};
+
+/**
+ * Generates the source code of a Zod schema for an OpenAPI Schema Object. Any keywords which cannot be represented
+ * with Zod methods are preserved in `.openapi()`.
+ */
+export const generateSchema = (
+  schema: SchemaOrRef,
+  state: GenerateState,
+  metadata: Record<string, Value> = {},
+): Code => {
+  if (isReferenceObject(schema)) {
+    const { $ref, ...rest } = schema as oas31.ReferenceObject &
+      Record<string, Value>;
+    return applyModifiers(createRefSchema($ref, state), rest, false, metadata);
+  }
+
+  const types = getTypes(schema);
+  const nonNullTypes = types.filter((type) => type !== 'null');
+  const nullable =
+    (schema as oas30.SchemaObject).nullable === true ||
+    (types.includes('null') && nonNullTypes.length > 0) ||
+    Boolean(schema.enum?.includes(null) && schema.enum.length > 1);
+
+  const base = createBaseSchema(
+    schema,
+    nonNullTypes.length ? nonNullTypes : types,
+    state,
+  );
+  const consumed = new Set([...base.consumed, 'nullable']);
+  const rest = Object.fromEntries(
+    Object.entries(schema).filter(([key]) => !consumed.has(key)),
+  ) as Record<string, Value>;
+
+  return applyModifiers(base.code, rest, nullable, metadata);
+};
+
+const applyModifiers = (
+  schema: Code,
+  rest: Record<string, Value>,
+  nullable: boolean,
+  metadata: Record<string, Value>,
+): Code => {
+  const { description, default: defaultValue, ...additional } = rest;
+  const openapi = { ...additional, ...metadata };
+
+  return join(
+    [
+      schema,
+      nullable ? raw('.nullable()') : undefined,
+      defaultValue !== undefined ? code`.default(${defaultValue})` : undefined,
+      typeof description === 'string'
+        ? code`.describe(${description})`
+        : undefined,
+      Object.keys(openapi).length ? code`.openapi(${openapi})` : undefined,
+    ].filter((part) => part !== undefined),
+    '',
+  );
+};
+
+const collectRefs = (value: unknown, refs: Set<string>): Set<string> => {
+  if (Array.isArray(value)) {
+    value.forEach((item) => collectRefs(item, refs));
+    return refs;
+  }
+  if (typeof value === 'object' && value !== null) {
+    Object.entries(value).forEach(([key, item]) => {
+      if (key === '$ref' && typeof item === 'string') {
+        const name = getSchemaRefName(item);
+        if (name) {
+          refs.add(name);
+        }
+        return;
+      }
+      collectRefs(item, refs);
+    });
+  }
+  return refs;
+};
+
+/**
+ * Orders component schemas so that each is declared after the schemas it references. Returns the schemas which are
+ * part of a reference cycle as these need an explicit type annotation.
+ */
+export const orderSchemas = (
+  schemas: Record<string, SchemaOrRef>,
+): { order: string[]; circular: Set<string> } => {
+  const order: string[] = [];
+  const circular = new Set<string>();
+  const visited = new Set<string>();
+  const stack: string[] = [];
+
+  const visit = (name: string) => {
+    const index = stack.indexOf(name);
+    if (index !== -1) {
+      stack.slice(index).forEach((item) => circular.add(item));
+      return;
+    }
+    if (visited.has(name) || !schemas[name]) {
+      return;
+    }
+
+    stack.push(name);
+    collectRefs(schemas[name], new Set()).forEach(visit);
+    stack.pop();
+
+    visited.add(name);
+    order.push(name);
+  };
+
+  Object.keys(schemas).forEach(visit);
+
+  return { order, circular };
+};
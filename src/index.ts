@@ -1,4 +1,26 @@
+export * from './convert/convertDocument';
+export * from './create/definePath';
+export type { Diagnostic, DiagnosticCode } from './create/diagnostics';
 export * from './create/document';
+export * from './create/generateExample';
+export { defineLink, type DefineLinkObject } from './create/links';
+export type {
+  OperationDefaultsOptOut,
+  OperationMethod,
+  TransformOperation,
+  TransformOperationContext,
+  ZodOpenApiOperationDefaults,
+} from './create/operationDefaults';
+export * from './create/schema/jsonSchema';
 export * from './create/schema/single';
+export {
+  defineSecurity,
+  type SecurityRequirement,
+  type SecuritySchemeScopes,
+  type ZodOpenApiSecuritySchemeObject,
+  type ZodOpenApiSecuritySchemesObject,
+} from './create/security';
+export * from './diff/diffDocuments';
 export * from './extendZod';
+export * from './generate/generateZod';
 export * from './openapi3-ts/dist';
@@ -10,6 +10,19 @@ export const openApiVersions = [
 
 export type OpenApiVersion = (typeof openApiVersions)[number];
 
+export const HTTP_METHODS = [
+  'get',
+  'put',
+  'post',
+  'delete',
+  'options',
+  'head',
+  'patch',
+  'trace',
+] as const;
+
+export type HttpMethod = (typeof HTTP_METHODS)[number];
+
 export const satisfiesVersion = (
   test: OpenApiVersion,
   against: OpenApiVersion,
@@ -0,0 +1,45 @@
+import { z } from 'zod';
+
+import { coerceParameter } from './coerce';
+
+describe('coerceParameter', () => {
+  it.each`
+    zodType                               | value           | expected
+    ${z.number()}                         | ${'1.5'}        | ${1.5}
+    ${z.number()}                         | ${'abc'}        | ${'abc'}
+    ${z.number()}                         | ${''}           | ${''}
+    ${z.bigint()}                         | ${'10'}         | ${BigInt(10)}
+    ${z.boolean()}                        | ${'true'}       | ${true}
+    ${z.boolean()}                        | ${'false'}      | ${false}
+    ${z.boolean()}                        | ${'yes'}        | ${'yes'}
+    ${z.date()}                           | ${'2024-01-01'} | ${new Date('2024-01-01')}
+    ${z.literal(1)}                       | ${'1'}          | ${1}
+    ${z.null()}                           | ${'null'}       | ${null}
+    ${z.number().optional()}              | ${'1'}          | ${1}
+    ${z.number().default(1)}              | ${undefined}    | ${undefined}
+    ${z.number().int().pipe(z.number())}  | ${'2'}          | ${2}
+    ${z.union([z.boolean(), z.number()])} | ${'2'}          | ${2}
+    ${z.string()}                         | ${'1'}          | ${'1'}
+    ${z.array(z.number())}                | ${'1'}          | ${[1]}
+    ${z.array(z.number())}                | ${['1', '2']}   | ${[1, 2]}
+    ${z.array(z.number()).optional()}     | ${undefined}    | ${undefined}
+  `(
+    'coerces $value for $zodType._def.typeName',
+    ({ zodType, value, expected }) => {
+      expect(coerceParameter(zodType, value)).toEqual(expected);
+    },
+  );
+
+  it('splits array values using a separator', () => {
+    expect(coerceParameter(z.array(z.number()), '1, 2', ',')).toEqual([1, 2]);
+  });
+
+  it('coerces native enum values', () => {
+    enum Level {
+      Low = 1,
+      High = 2,
+    }
+
+    expect(coerceParameter(z.nativeEnum(Level), '2')).toBe(Level.High);
+  });
+});
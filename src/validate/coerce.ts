@@ -0,0 +1,124 @@
+import type { ZodType } from 'zod';
+
+import { isZodType } from '../zodType';
+
+const unwrapZodType = (zodType: ZodType): ZodType => {
+  if (
+    isZodType(zodType, 'ZodOptional') ||
+    isZodType(zodType, 'ZodNullable') ||
+    isZodType(zodType, 'ZodDefault') ||
+    isZodType(zodType, 'ZodCatch') ||
+    isZodType(zodType, 'ZodReadonly')
+  ) {
+    return unwrapZodType(zodType._def.innerType as ZodType);
+  }
+  if (isZodType(zodType, 'ZodBranded')) {
+    return unwrapZodType(zodType._def.type as ZodType);
+  }
+  if (isZodType(zodType, 'ZodEffects')) {
+    return unwrapZodType(zodType._def.schema as ZodType);
+  }
+  if (isZodType(zodType, 'ZodPipeline')) {
+    return unwrapZodType(zodType._def.in as ZodType);
+  }
+  if (isZodType(zodType, 'ZodLazy')) {
+    return unwrapZodType(zodType.schema as ZodType);
+  }
+  return zodType;
+};
+
+const coerceString = (zodType: ZodType, value: string): unknown => {
+  if (isZodType(zodType, 'ZodNumber')) {
+    const number = Number(value);
+    return value.trim() === '' || Number.isNaN(number) ? value : number;
+  }
+
+  if (isZodType(zodType, 'ZodBigInt')) {
+    try {
+      return BigInt(value);
+    } catch {
+      return value;
+    }
+  }
+
+  if (isZodType(zodType, 'ZodBoolean')) {
+    if (value === 'true') {
+      return true;
+    }
+    if (value === 'false') {
+      return false;
+    }
+    return value;
+  }
+
+  if (isZodType(zodType, 'ZodDate')) {
+    const date = new Date(value);
+    return Number.isNaN(date.getTime()) ? value : date;
+  }
+
+  if (isZodType(zodType, 'ZodNull')) {
+    return value === 'null' ? null : value;
+  }
+
+  if (isZodType(zodType, 'ZodLiteral')) {
+    const literal: unknown = zodType._def.value;
+    return String(literal) === value ? literal : value;
+  }
+
+  if (isZodType(zodType, 'ZodNativeEnum')) {
+    const enumValue = Object.values(zodType._def.values).find(
+      (option) => String(option) === value,
+    );
+    return enumValue ?? value;
+  }
+
+  if (
+    isZodType(zodType, 'ZodUnion') ||
+    isZodType(zodType, 'ZodDiscriminatedUnion')
+  ) {
+    const options = zodType.options as ZodType[];
+    for (const option of options) {
+      const coerced = coerceParameter(option, value);
+      if (option.safeParse(coerced).success) {
+        return coerced;
+      }
+    }
+    return value;
+  }
+
+  return value;
+};
+
+/**
+ * Coerces a string or string array parameter value into the type expected by its Zod schema. Values which cannot be
+ * coerced are returned as is so that the schema can report them.
+ */
+export const coerceParameter = (
+  zodType: ZodType,
+  value: unknown,
+  separator?: string,
+): unknown => {
+  const innerType = unwrapZodType(zodType);
+
+  if (isZodType(innerType, 'ZodArray')) {
+    if (value === undefined) {
+      return value;
+    }
+    if (separator && typeof value === 'string') {
+      return coerceParameter(
+        innerType,
+        value.split(separator).map((item) => item.trim()),
+      );
+    }
+    const values: unknown[] = Array.isArray(value) ? value : [value];
+    return values.map((item) =>
+      coerceParameter(innerType._def.type as ZodType, item),
+    );
+  }
+
+  if (typeof value !== 'string') {
+    return value;
+  }
+
+  return coerceString(innerType, value);
+};
@@ -0,0 +1,46 @@
+import { z } from 'zod';
+
+import { getMediaTypeObject } from './content';
+
+describe('getMediaTypeObject', () => {
+  const json = { schema: z.object({ a: z.string() }) };
+  const text = { schema: z.string() };
+  const image = { schema: z.any() };
+
+  it('selects the media type matching the content-type header', () => {
+    expect(
+      getMediaTypeObject(
+        { 'application/json': json, 'text/plain': text },
+        { 'Content-Type': 'application/json; charset=utf-8' },
+      ),
+    ).toBe(json);
+  });
+
+  it('falls back to wildcard media types', () => {
+    expect(
+      getMediaTypeObject(
+        { 'application/json': json, 'image/*': image },
+        { 'content-type': 'image/png' },
+      ),
+    ).toBe(image);
+    expect(
+      getMediaTypeObject({ '*/*': image }, { 'content-type': 'image/png' }),
+    ).toBe(image);
+  });
+
+  it('selects the only media type when there is no content-type header', () => {
+    expect(getMediaTypeObject({ 'application/json': json }, {})).toBe(json);
+    expect(
+      getMediaTypeObject({ 'application/json': json, 'text/plain': text }, {}),
+    ).toBeUndefined();
+  });
+
+  it('returns undefined for an unsupported content type', () => {
+    expect(
+      getMediaTypeObject(
+        { 'application/json': json },
+        { 'content-type': 'text/plain' },
+      ),
+    ).toBeUndefined();
+  });
+});
@@ -0,0 +1,41 @@
+import type {
+  ZodOpenApiContentObject,
+  ZodOpenApiMediaTypeObject,
+} from '../create/document';
+
+export const getContentTypeHeader = (
+  headers: Record<string, string | string[] | undefined> | undefined,
+): string | undefined => {
+  const value = Object.entries(headers ?? {}).find(
+    ([key]) => key.toLowerCase() === 'content-type',
+  )?.[1];
+  return Array.isArray(value) ? value[0] : value;
+};
+
+/**
+ * Selects the media type object for a `content-type` header. Exact media types are preferred over wildcard ranges and
+ * a missing header selects the only media type when just one is declared.
+ */
+export const getMediaTypeObject = (
+  content: ZodOpenApiContentObject,
+  headers: Record<string, string | string[] | undefined> | undefined,
+): ZodOpenApiMediaTypeObject | undefined => {
+  const contentType = getContentTypeHeader(headers);
+  const mediaTypes = Object.keys(content).filter((key) => content[key]);
+
+  if (!contentType) {
+    return mediaTypes.length === 1
+      ? content[mediaTypes[0] as string]
+      : undefined;
+  }
+
+  const mediaType = (contentType.split(';')[0] as string).trim().toLowerCase();
+  const [type] = mediaType.split('/');
+
+  const matchedMediaType =
+    mediaTypes.find((key) => key.toLowerCase() === mediaType) ??
+    mediaTypes.find((key) => key.toLowerCase() === `${type}/*`) ??
+    mediaTypes.find((key) => key === '*/*');
+
+  return matchedMediaType ? content[matchedMediaType] : undefined;
+};
@@ -0,0 +1,75 @@
+import { createOperationMatch, createPathMatch } from './path';
+
+describe('createPathMatch', () => {
+  it('matches path templates and decodes path parameters', () => {
+    const matchPath = createPathMatch({
+      '/users/{id}/posts/{postId}': {},
+    });
+
+    expect(matchPath('/users/a%20b/posts/1')).toEqual({
+      template: '/users/{id}/posts/{postId}',
+      params: { id: 'a b', postId: '1' },
+    });
+    expect(matchPath('/users/a/posts')).toBeUndefined();
+  });
+
+  it('prefers concrete paths over templated paths', () => {
+    const matchPath = createPathMatch({
+      '/users/{id}': {},
+      '/users/me': {},
+    });
+
+    expect(matchPath('/users/me')).toEqual({
+      template: '/users/me',
+      params: {},
+    });
+  });
+
+  it('escapes regex characters in path templates', () => {
+    const matchPath = createPathMatch({
+      '/files/{name}.json': {},
+    });
+
+    expect(matchPath('/files/a.json')).toEqual({
+      template: '/files/{name}.json',
+      params: { name: 'a' },
+    });
+    expect(matchPath('/files/axjson')).toBeUndefined();
+  });
+});
+
+describe('createOperationMatch', () => {
+  const operation = { responses: {} };
+  const pathItem = { get: operation };
+  const matchOperation = createOperationMatch({
+    '/users': pathItem,
+  });
+
+  it('returns the operation for a method', () => {
+    expect(matchOperation('GET', '/users')).toEqual({
+      template: '/users',
+      params: {},
+      method: 'get',
+      pathItem,
+      operation,
+    });
+  });
+
+  it('returns an issue when no path matches', () => {
+    expect(matchOperation('GET', '/jobs')).toEqual({
+      code: 'custom',
+      location: 'path',
+      message: 'No path matches /jobs',
+      path: [],
+    });
+  });
+
+  it('returns an issue when the method is not defined', () => {
+    expect(matchOperation('POST', '/users')).toEqual({
+      code: 'custom',
+      location: 'method',
+      message: 'Method POST is not defined for /users',
+      path: [],
+    });
+  });
+});
@@ -0,0 +1,110 @@
+import type {
+  ZodOpenApiOperationObject,
+  ZodOpenApiPathItemObject,
+  ZodOpenApiPathsObject,
+} from '../create/document';
+import { HTTP_METHODS, type HttpMethod } from '../openapi';
+
+import { type ValidationIssue, createIssue } from './request';
+
+export interface PathMatch {
+  template: string;
+  params: Record<string, string>;
+}
+
+interface PathMatcher {
+  template: string;
+  regex: RegExp;
+  names: string[];
+}
+
+const escapeRegex = (value: string) =>
+  value.replace(/[.*+?^$()|[\]\\]/g, '\\$&');
+
+const decodePathParam = (value: string): string => {
+  try {
+    return decodeURIComponent(value);
+  } catch {
+    return value;
+  }
+};
+
+const createPathMatcher = (template: string): PathMatcher => {
+  const names: string[] = [];
+  const source = template
+    .split(/(\{[^}]+\})/)
+    .map((part) => {
+      if (part.startsWith('{') && part.endsWith('}')) {
+        names.push(part.slice(1, -1));
+        return '([^/]+)';
+      }
+      return escapeRegex(part);
+    })
+    .join('');
+
+  return { template, regex: new RegExp(`^${source}$`), names };
+};
+
+/**
+ * Creates a function which matches a request path against the path templates in a paths object. Concrete paths are
+ * matched before templated ones eg. `/users/me` is preferred over `/users/{id}`.
+ */
+export const createPathMatch = (paths: ZodOpenApiPathsObject) => {
+  const matchers = Object.keys(paths)
+    .filter((template) => template.startsWith('/'))
+    .map(createPathMatcher)
+    .sort((a, b) => a.names.length - b.names.length);
+
+  return (path: string): PathMatch | undefined => {
+    for (const { template, regex, names } of matchers) {
+      const match = regex.exec(path);
+      if (match) {
+        return {
+          template,
+          params: Object.fromEntries(
+            names.map((name, index) => [
+              name,
+              decodePathParam(match[index + 1] as string),
+            ]),
+          ),
+        };
+      }
+    }
+    return undefined;
+  };
+};
+
+export interface OperationMatch extends PathMatch {
+  method: HttpMethod;
+  pathItem: ZodOpenApiPathItemObject;
+  operation: ZodOpenApiOperationObject;
+}
+
+/**
+ * Creates a function which finds the operation for a request method and path. Returns an issue when no operation
+ * matches.
+ */
+export const createOperationMatch = (paths: ZodOpenApiPathsObject) => {
+  const matchPath = createPathMatch(paths);
+
+  return (method: string, path: string): OperationMatch | ValidationIssue => {
+    const pathMatch = matchPath(path);
+    if (!pathMatch) {
+      return createIssue('path', `No path matches ${path}`);
+    }
+
+    const lowerMethod = method.toLowerCase() as HttpMethod;
+    const pathItem = paths[pathMatch.template] as ZodOpenApiPathItemObject;
+    const operation = HTTP_METHODS.includes(lowerMethod)
+      ? pathItem[lowerMethod]
+      : undefined;
+    if (!operation) {
+      return createIssue(
+        'method',
+        `Method ${method.toUpperCase()} is not defined for ${pathMatch.template}`,
+      );
+    }
+
+    return { ...pathMatch, method: lowerMethod, pathItem, operation };
+  };
+};
@@ -0,0 +1,477 @@
+import type { ZodIssue, ZodRawShape, ZodType, z } from 'zod';
+
+import type {
+  ZodObjectInputType,
+  ZodOpenApiContentObject,
+  ZodOpenApiOperationObject,
+  ZodOpenApiParameters,
+  ZodOpenApiPathsObject,
+} from '../create/document';
+import { getZodObject } from '../create/parameters';
+import type { ZodOpenApiSecuritySchemesObject } from '../create/security';
+import type { HttpMethod } from '../openapi';
+import type { oas31 } from '../openapi3-ts/dist';
+import { isAnyZodType } from '../zodType';
+
+import { coerceParameter } from './coerce';
+import { getMediaTypeObject } from './content';
+import type { OperationMatch } from './path';
+
+export type ValidationLocation =
+  | 'path'
+  | 'method'
+  | 'query'
+  | 'header'
+  | 'cookie'
+  | 'body'
+  | 'status';
+
+export type ValidationIssue = ZodIssue & { location: ValidationLocation };
+
+export type ValidationResult<T> =
+  | { success: true; data: T }
+  | { success: false; issues: ValidationIssue[] };
+
+export interface ValidateRequestInput {
+  method: string;
+  /** The request path without the query string eg. `/users/123` */
+  path: string;
+  query?: Record<string, string | string[] | undefined>;
+  headers?: Record<string, string | string[] | undefined>;
+  cookies?: Record<string, string | undefined>;
+  body?: unknown;
+}
+
+type ParameterLocation = keyof ZodOpenApiParameters;
+
+type ZodOutput<T> = T extends ZodType ? z.output<T> : unknown;
+
+type ParamsOutput<
+  Operation,
+  Location extends ParameterLocation,
+> = Operation extends { requestParams?: infer Params }
+  ? NonNullable<Params> extends { [key in Location]?: infer Schema }
+    ? NonNullable<Schema> extends ZodType
+      ? z.output<NonNullable<Schema>>
+      : Record<string, unknown>
+    : Record<string, unknown>
+  : Record<string, unknown>;
+
+type BodyOutput<Operation> = Operation extends {
+  requestBody?: { content: infer Content };
+}
+  ?
+      | {
+          [MediaType in keyof Content]: NonNullable<
+            Content[MediaType]
+          > extends { schema?: infer Schema }
+            ? ZodOutput<Schema>
+            : unknown;
+        }[keyof Content]
+      | (Operation extends { requestBody: { required: true } }
+          ? never
+          : undefined)
+  : unknown;
+
+export interface ValidatedRequestData<
+  Path extends string = string,
+  Method extends HttpMethod = HttpMethod,
+  Operation = ZodOpenApiOperationObject,
+> {
+  /** The path template which matched the request eg. `/users/{id}` */
+  path: Path;
+  method: Method;
+  params: {
+    [Location in ParameterLocation]: ParamsOutput<Operation, Location>;
+  };
+  body: BodyOutput<Operation>;
+}
+
+export type ValidatedRequest<Paths extends ZodOpenApiPathsObject> = {
+  [Path in keyof Paths & string]: {
+    [Method in keyof Paths[Path] & HttpMethod]: ValidatedRequestData<
+      Path,
+      Method,
+      Paths[Path][Method] &
+        Pick<Paths[Path], 'requestParams' & keyof Paths[Path]>
+    >;
+  }[keyof Paths[Path] & HttpMethod];
+}[keyof Paths & string];
+
+export interface ValidateSecurityOptions {
+  /** The security schemes of the document. API keys declared as Zod schemas are validated */
+  securitySchemes?: ZodOpenApiSecuritySchemesObject;
+  /** The security requirements which apply to operations which do not declare their own */
+  security?: oas31.SecurityRequirementObject[];
+}
+
+export const createIssue = (
+  location: ValidationLocation,
+  message: string,
+  path: Array<string | number> = [],
+): ValidationIssue => ({ code: 'custom', message, path, location });
+
+const withLocation = (
+  issues: ZodIssue[],
+  location: ValidationLocation,
+): ValidationIssue[] => issues.map((issue) => ({ ...issue, location }));
+
+const getParameterValue = (
+  location: ParameterLocation,
+  name: string,
+  request: ValidateRequestInput,
+  pathParams: Record<string, string>,
+): unknown => {
+  switch (location) {
+    case 'path':
+      return pathParams[name];
+    case 'query':
+      return request.query?.[name];
+    case 'cookie':
+      return request.cookies?.[name];
+    case 'header':
+      return Object.entries(request.headers ?? {}).find(
+        ([key]) => key.toLowerCase() === name.toLowerCase(),
+      )?.[1];
+  }
+};
+
+const validateParameter = (
+  location: ParameterLocation,
+  name: string,
+  zodType: ZodType,
+  value: unknown,
+): ValidationResult<unknown> => {
+  const result = zodType.safeParse(
+    coerceParameter(zodType, value, location === 'header' ? ',' : undefined),
+  );
+  if (!result.success) {
+    return {
+      success: false,
+      issues: result.error.issues.map((issue) => ({
+        ...issue,
+        path: [name, ...issue.path],
+        location,
+      })),
+    };
+  }
+  return result;
+};
+
+const validateRequestParams = (
+  location: ParameterLocation,
+  zodObjectType: ZodObjectInputType,
+  getValue: (name: string) => unknown,
+): ValidationResult<Record<string, unknown>> => {
+  const shape = getZodObject(zodObjectType, 'input').shape as ZodRawShape;
+  const input = Object.fromEntries(
+    Object.entries(shape).map(([name, zodType]: [string, ZodType]) => [
+      name,
+      coerceParameter(
+        zodType,
+        getValue(name),
+        location === 'header' ? ',' : undefined,
+      ),
+    ]),
+  );
+
+  const result = zodObjectType.safeParse(input);
+  if (!result.success) {
+    return {
+      success: false,
+      issues: withLocation(result.error.issues, location),
+    };
+  }
+  return { success: true, data: result.data as Record<string, unknown> };
+};
+
+type ParameterSource = Pick<
+  ZodOpenApiOperationObject,
+  'parameters' | 'requestParams'
+>;
+
+const getZodParameters = (source: ParameterSource) =>
+  (source.parameters ?? []).flatMap((parameter) => {
+    const param = isAnyZodType(parameter)
+      ? parameter._def.openapi?.param
+      : undefined;
+    if (!isAnyZodType(parameter) || !param?.in || !param.name) {
+      return [];
+    }
+    return [{ location: param.in, name: param.name, zodType: parameter }];
+  });
+
+const getParameterNames = (
+  source: ParameterSource,
+  location: ParameterLocation,
+): string[] => {
+  const zodObjectType = source.requestParams?.[location];
+  return [
+    ...(zodObjectType
+      ? Object.keys(getZodObject(zodObjectType, 'input').shape as ZodRawShape)
+      : []),
+    ...getZodParameters(source)
+      .filter((parameter) => parameter.location === location)
+      .map(({ name }) => name),
+  ];
+};
+
+/**
+ * Validates the parameters declared by an operation or path item. Parameters which are redeclared by the `overrides`
+ * source are skipped.
+ */
+const validateParameterSource = (
+  source: ParameterSource,
+  request: ValidateRequestInput,
+  pathParams: Record<string, string>,
+  overrides?: ParameterSource,
+): ValidationResult<Record<ParameterLocation, Record<string, unknown>>> => {
+  const params: Record<ParameterLocation, Record<string, unknown>> = {
+    path: {},
+    query: {},
+    header: {},
+    cookie: {},
+  };
+  const issues: ValidationIssue[] = [];
+
+  for (const location of Object.keys(params) as ParameterLocation[]) {
+    const zodObjectType = source.requestParams?.[location];
+    if (!zodObjectType) {
+      continue;
+    }
+
+    const overridden = overrides ? getParameterNames(overrides, location) : [];
+    const result = validateRequestParams(
+      location,
+      overridden.length
+        ? getZodObject(zodObjectType, 'input').omit(
+            Object.fromEntries(overridden.map((name) => [name, true])),
+          )
+        : zodObjectType,
+      (name) => getParameterValue(location, name, request, pathParams),
+    );
+    if (!result.success) {
+      issues.push(...result.issues);
+      continue;
+    }
+    Object.assign(params[location], result.data);
+  }
+
+  for (const { location, name, zodType } of getZodParameters(source)) {
+    if (overrides && getParameterNames(overrides, location).includes(name)) {
+      continue;
+    }
+
+    const result = validateParameter(
+      location,
+      name,
+      zodType,
+      getParameterValue(location, name, request, pathParams),
+    );
+    if (!result.success) {
+      issues.push(...result.issues);
+      continue;
+    }
+    params[location][name] = result.data;
+  }
+
+  return issues.length
+    ? { success: false, issues }
+    : { success: true, data: params };
+};
+
+const validateParameters = (
+  match: OperationMatch,
+  request: ValidateRequestInput,
+): ValidationResult<Record<ParameterLocation, Record<string, unknown>>> => {
+  const pathItemParams = validateParameterSource(
+    match.pathItem,
+    request,
+    match.params,
+    match.operation,
+  );
+  const operationParams = validateParameterSource(
+    match.operation,
+    request,
+    match.params,
+  );
+
+  if (!pathItemParams.success || !operationParams.success) {
+    return {
+      success: false,
+      issues: [
+        ...(pathItemParams.success ? [] : pathItemParams.issues),
+        ...(operationParams.success ? [] : operationParams.issues),
+      ],
+    };
+  }
+
+  return {
+    success: true,
+    data: {
+      path: { ...pathItemParams.data.path, ...operationParams.data.path },
+      query: { ...pathItemParams.data.query, ...operationParams.data.query },
+      header: {
+        ...pathItemParams.data.header,
+        ...operationParams.data.header,
+      },
+      cookie: {
+        ...pathItemParams.data.cookie,
+        ...operationParams.data.cookie,
+      },
+    },
+  };
+};
+
+const validateSecurityRequirement = (
+  requirement: oas31.SecurityRequirementObject,
+  securitySchemes: ZodOpenApiSecuritySchemesObject,
+  request: ValidateRequestInput,
+  pathParams: Record<string, string>,
+): ValidationResult<Record<ParameterLocation, Record<string, unknown>>> => {
+  const params: Record<ParameterLocation, Record<string, unknown>> = {
+    path: {},
+    query: {},
+    header: {},
+    cookie: {},
+  };
+  const issues: ValidationIssue[] = [];
+
+  for (const name of Object.keys(requirement)) {
+    const scheme = securitySchemes[name];
+    const param = isAnyZodType(scheme) ? scheme._def.openapi?.param : undefined;
+    if (!isAnyZodType(scheme) || !param?.in || !param.name) {
+      continue;
+    }
+
+    const result = validateParameter(
+      param.in,
+      param.name,
+      scheme,
+      getParameterValue(param.in, param.name, request, pathParams),
+    );
+    if (!result.success) {
+      issues.push(...result.issues);
+      continue;
+    }
+    params[param.in][param.name] = result.data;
+  }
+
+  return issues.length
+    ? { success: false, issues }
+    : { success: true, data: params };
+};
+
+/**
+ * Validates the API keys of the security requirements which apply to an operation. A request only needs to satisfy one
+ * of the requirements.
+ */
+const validateSecurity = (
+  match: OperationMatch,
+  request: ValidateRequestInput,
+  options: ValidateSecurityOptions,
+): ValidationResult<Record<ParameterLocation, Record<string, unknown>>> => {
+  const requirements = match.operation.security ?? options.security ?? [];
+  const results = requirements.map((requirement) =>
+    validateSecurityRequirement(
+      requirement,
+      options.securitySchemes ?? {},
+      request,
+      match.params,
+    ),
+  );
+
+  return (
+    results.find((result) => result.success) ??
+    results[0] ?? {
+      success: true,
+      data: { path: {}, query: {}, header: {}, cookie: {} },
+    }
+  );
+};
+
+export const validateContent = (
+  content: ZodOpenApiContentObject,
+  headers: ValidateRequestInput['headers'],
+  body: unknown,
+): ValidationResult<unknown> => {
+  const mediaTypeObject = getMediaTypeObject(content, headers);
+  if (!mediaTypeObject) {
+    return {
+      success: false,
+      issues: [
+        createIssue('header', 'Unsupported content type', ['content-type']),
+      ],
+    };
+  }
+
+  if (!isAnyZodType(mediaTypeObject.schema)) {
+    return { success: true, data: body };
+  }
+
+  const result = mediaTypeObject.schema.safeParse(body);
+  if (!result.success) {
+    return {
+      success: false,
+      issues: withLocation(result.error.issues, 'body'),
+    };
+  }
+  return result;
+};
+
+const validateBody = (
+  operation: ZodOpenApiOperationObject,
+  request: ValidateRequestInput,
+): ValidationResult<unknown> => {
+  const { requestBody } = operation;
+  if (!requestBody) {
+    return { success: true, data: request.body };
+  }
+
+  if (request.body === undefined) {
+    return requestBody.required
+      ? {
+          success: false,
+          issues: [createIssue('body', 'Request body is required')],
+        }
+      : { success: true, data: undefined };
+  }
+
+  return validateContent(requestBody.content, request.headers, request.body);
+};
+
+export const validateRequestOperation = (
+  match: OperationMatch,
+  request: ValidateRequestInput,
+  options: ValidateSecurityOptions = {},
+): ValidationResult<ValidatedRequestData> => {
+  const params = validateParameters(match, request);
+  const security = validateSecurity(match, request, options);
+  const body = validateBody(match.operation, request);
+
+  if (!params.success || !security.success || !body.success) {
+    return {
+      success: false,
+      issues: [
+        ...(params.success ? [] : params.issues),
+        ...(security.success ? [] : security.issues),
+        ...(body.success ? [] : body.issues),
+      ],
+    };
+  }
+
+  return {
+    success: true,
+    data: {
+      path: match.template,
+      method: match.method,
+      params: {
+        path: { ...security.data.path, ...params.data.path },
+        query: { ...security.data.query, ...params.data.query },
+        header: { ...security.data.header, ...params.data.header },
+        cookie: { ...security.data.cookie, ...params.data.cookie },
+      },
+      body: body.data,
+    },
+  };
+};
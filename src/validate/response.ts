@@ -0,0 +1,187 @@
+import type { ZodRawShape, ZodType } from 'zod';
+
+import type {
+  ZodOpenApiComponentsObject,
+  ZodOpenApiResponseObject,
+  ZodOpenApiResponsesObject,
+} from '../create/document';
+import { getZodObject } from '../create/parameters';
+import type { HttpMethod } from '../openapi';
+import { isAnyZodType } from '../zodType';
+
+import { coerceParameter } from './coerce';
+import type { OperationMatch } from './path';
+import {
+  type ValidationIssue,
+  type ValidationResult,
+  createIssue,
+  validateContent,
+} from './request';
+
+export interface ValidateResponseInput {
+  method: string;
+  /** The request path without the query string eg. `/users/123` */
+  path: string;
+  status: number;
+  headers?: Record<string, string | string[] | undefined>;
+  body?: unknown;
+}
+
+export interface ValidatedResponseData {
+  /** The path template which matched the request eg. `/users/{id}` */
+  path: string;
+  method: HttpMethod;
+  /** The key of the matched response eg. `200`, `2XX` or `default` */
+  status: string;
+  headers: Record<string, unknown>;
+  body: unknown;
+}
+
+export interface ValidateResponseOptions {
+  /** The response components of the document. Used to validate responses which are a `$ref` */
+  responses?: ZodOpenApiComponentsObject['responses'];
+}
+
+const COMPONENT_RESPONSE_PREFIX = '#/components/responses/';
+
+const getResponse = (
+  responses: ZodOpenApiResponsesObject,
+  status: number,
+):
+  | { status: string; response: ZodOpenApiResponseObject | { $ref: string } }
+  | undefined => {
+  const key = [String(status), `${String(status).charAt(0)}XX`, 'default'].find(
+    (option) => option in responses,
+  );
+  if (!key) {
+    return undefined;
+  }
+
+  return {
+    status: key,
+    response: responses[key as keyof ZodOpenApiResponsesObject] as
+      | ZodOpenApiResponseObject
+      | { $ref: string },
+  };
+};
+
+const resolveResponse = (
+  status: string,
+  response: ZodOpenApiResponseObject | { $ref: string },
+  options: ValidateResponseOptions,
+): ValidationResult<ZodOpenApiResponseObject> => {
+  if (!('$ref' in response)) {
+    return { success: true, data: response };
+  }
+
+  const component = Object.entries(options.responses ?? {}).find(
+    ([key, responseObject]) =>
+      `${COMPONENT_RESPONSE_PREFIX}${responseObject.ref ?? key}` ===
+      response.$ref,
+  )?.[1];
+  if (!component) {
+    return {
+      success: false,
+      issues: [
+        createIssue(
+          'status',
+          `Response ${status} references ${response.$ref} which was not passed to createValidator`,
+        ),
+      ],
+    };
+  }
+  return { success: true, data: component };
+};
+
+const validateHeaders = (
+  response: ZodOpenApiResponseObject,
+  headers: ValidateResponseInput['headers'],
+): ValidationResult<Record<string, unknown>> => {
+  if (!isAnyZodType(response.headers)) {
+    return { success: true, data: {} };
+  }
+
+  const shape = getZodObject(response.headers, 'output').shape as ZodRawShape;
+  const input = Object.fromEntries(
+    Object.entries(shape).map(([name, zodType]: [string, ZodType]) => [
+      name,
+      coerceParameter(
+        zodType,
+        Object.entries(headers ?? {}).find(
+          ([key]) => key.toLowerCase() === name.toLowerCase(),
+        )?.[1],
+        ',',
+      ),
+    ]),
+  );
+
+  const result = response.headers.safeParse(input);
+  if (!result.success) {
+    return {
+      success: false,
+      issues: result.error.issues.map((issue) => ({
+        ...issue,
+        location: 'header',
+      })),
+    };
+  }
+  return { success: true, data: result.data as Record<string, unknown> };
+};
+
+export const validateResponseOperation = (
+  match: OperationMatch,
+  response: ValidateResponseInput,
+  options: ValidateResponseOptions = {},
+): ValidationResult<ValidatedResponseData> => {
+  const documentedResponse = getResponse(
+    match.operation.responses,
+    response.status,
+  );
+  if (!documentedResponse) {
+    return {
+      success: false,
+      issues: [
+        createIssue(
+          'status',
+          `Response status ${response.status} is not defined for ${match.method.toUpperCase()} ${match.template}`,
+        ),
+      ],
+    };
+  }
+
+  const { status } = documentedResponse;
+  const resolved = resolveResponse(
+    status,
+    documentedResponse.response,
+    options,
+  );
+  if (!resolved.success) {
+    return resolved;
+  }
+
+  const responseObject = resolved.data;
+  const headers = validateHeaders(responseObject, response.headers);
+  // A missing body is parsed as `undefined` so that it fails unless the schema is optional
+  const body: ValidationResult<unknown> = responseObject.content
+    ? validateContent(responseObject.content, response.headers, response.body)
+    : { success: true, data: response.body };
+
+  if (!headers.success || !body.success) {
+    const issues: ValidationIssue[] = [
+      ...(headers.success ? [] : headers.issues),
+      ...(body.success ? [] : body.issues),
+    ];
+    return { success: false, issues };
+  }
+
+  return {
+    success: true,
+    data: {
+      path: match.template,
+      method: match.method,
+      status,
+      headers: headers.data,
+      body: body.data,
+    },
+  };
+};
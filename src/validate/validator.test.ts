@@ -0,0 +1,501 @@
+import '../entries/extend';
+import { z } from 'zod';
+
+import { createValidator } from './validator';
+
+const Job = z.object({
+  id: z.string(),
+  title: z.string(),
+});
+
+const { validateRequest, validateResponse } = createValidator({
+  '/jobs/{id}': {
+    get: {
+      requestParams: {
+        path: z.object({ id: z.string().uuid() }),
+        query: z.object({
+          limit: z.number().int().optional(),
+          expand: z.array(z.enum(['owner', 'tags'])).optional(),
+        }),
+        header: z.object({ 'x-request-id': z.string() }),
+        cookie: z.object({ session: z.string().optional() }),
+      },
+      parameters: [
+        z.boolean().openapi({ param: { in: 'query', name: 'draft' } }),
+      ],
+      responses: {
+        '200': {
+          description: '200 OK',
+          headers: z.object({ 'x-rate-limit': z.number() }),
+          content: {
+            'application/json': { schema: Job },
+          },
+        },
+        '4XX': {
+          description: 'Client Error',
+          content: {
+            'application/json': { schema: z.object({ message: z.string() }) },
+          },
+        },
+      },
+    },
+  },
+  '/jobs': {
+    post: {
+      requestBody: {
+        required: true,
+        content: {
+          'application/json': { schema: Job.omit({ id: true }) },
+          'text/plain': { schema: z.string() },
+        },
+      },
+      responses: {
+        '201': {
+          description: '201 Created',
+        },
+      },
+    },
+  },
+});
+
+const id = '3bd4d4c8-08e4-4a5a-8fd7-8a3a4ac9a2b8';
+
+describe('validateRequest', () => {
+  it('coerces and parses request parameters', () => {
+    const result = validateRequest({
+      method: 'GET',
+      path: `/jobs/${id}`,
+      query: { limit: '10', expand: 'owner', draft: 'true' },
+      headers: { 'X-Request-Id': 'abc' },
+      cookies: { session: 'xyz' },
+    });
+
+    expect(result).toEqual({
+      success: true,
+      data: {
+        path: '/jobs/{id}',
+        method: 'get',
+        params: {
+          path: { id },
+          query: { limit: 10, expand: ['owner'], draft: true },
+          header: { 'x-request-id': 'abc' },
+          cookie: { session: 'xyz' },
+        },
+        body: undefined,
+      },
+    });
+
+    const limit =
+      result.success && result.data.path === '/jobs/{id}'
+        ? result.data.params.query.limit
+        : undefined;
+    expect(limit satisfies number | undefined).toBe(10);
+  });
+
+  it('returns issues for invalid request parameters', () => {
+    const result = validateRequest({
+      method: 'GET',
+      path: '/jobs/123',
+      query: { limit: 'ten', draft: 'maybe' },
+    });
+
+    expect(result).toEqual({
+      success: false,
+      issues: [
+        expect.objectContaining({
+          location: 'path',
+          path: ['id'],
+          validation: 'uuid',
+        }),
+        expect.objectContaining({
+          location: 'query',
+          path: ['limit'],
+          code: 'invalid_type',
+          received: 'string',
+        }),
+        expect.objectContaining({
+          location: 'header',
+          path: ['x-request-id'],
+          code: 'invalid_type',
+          received: 'undefined',
+        }),
+        expect.objectContaining({
+          location: 'query',
+          path: ['draft'],
+          code: 'invalid_type',
+          expected: 'boolean',
+        }),
+      ],
+    });
+  });
+
+  it('parses the request body using the content-type header', () => {
+    expect(
+      validateRequest({
+        method: 'POST',
+        path: '/jobs',
+        headers: { 'content-type': 'text/plain' },
+        body: 'hello',
+      }),
+    ).toEqual({
+      success: true,
+      data: {
+        path: '/jobs',
+        method: 'post',
+        params: { path: {}, query: {}, header: {}, cookie: {} },
+        body: 'hello',
+      },
+    });
+
+    expect(
+      validateRequest({
+        method: 'POST',
+        path: '/jobs',
+        headers: { 'content-type': 'application/json' },
+        body: { title: 1 },
+      }),
+    ).toEqual({
+      success: false,
+      issues: [
+        expect.objectContaining({
+          location: 'body',
+          path: ['title'],
+          code: 'invalid_type',
+        }),
+      ],
+    });
+  });
+
+  it('returns issues for a missing or unsupported request body', () => {
+    expect(validateRequest({ method: 'POST', path: '/jobs' })).toEqual({
+      success: false,
+      issues: [
+        {
+          code: 'custom',
+          location: 'body',
+          message: 'Request body is required',
+          path: [],
+        },
+      ],
+    });
+
+    expect(
+      validateRequest({
+        method: 'POST',
+        path: '/jobs',
+        headers: { 'content-type': 'application/xml' },
+        body: '<job />',
+      }),
+    ).toEqual({
+      success: false,
+      issues: [
+        {
+          code: 'custom',
+          location: 'header',
+          message: 'Unsupported content type',
+          path: ['content-type'],
+        },
+      ],
+    });
+  });
+
+  it('validates path item parameters which operations can override', () => {
+    const validator = createValidator({
+      '/orgs/{orgId}/jobs/{jobId}': {
+        requestParams: {
+          path: z.object({ orgId: z.string(), jobId: z.string() }),
+          header: z.object({ 'x-version': z.number() }),
+        },
+        get: {
+          requestParams: {
+            path: z.object({ jobId: z.number() }),
+          },
+          responses: {},
+        },
+      },
+    });
+
+    const result = validator.validateRequest({
+      method: 'GET',
+      path: '/orgs/acme/jobs/1',
+      headers: { 'x-version': '2' },
+    });
+
+    expect(result).toEqual({
+      success: true,
+      data: {
+        path: '/orgs/{orgId}/jobs/{jobId}',
+        method: 'get',
+        params: {
+          path: { orgId: 'acme', jobId: 1 },
+          query: {},
+          header: { 'x-version': 2 },
+          cookie: {},
+        },
+        body: undefined,
+      },
+    });
+
+    const orgId = result.success ? result.data.params.path.orgId : undefined;
+    expect(orgId satisfies string | undefined).toBe('acme');
+
+    expect(
+      validator.validateRequest({ method: 'GET', path: '/orgs/acme/jobs/1' }),
+    ).toEqual({
+      success: false,
+      issues: [
+        expect.objectContaining({
+          location: 'header',
+          path: ['x-version'],
+          code: 'invalid_type',
+        }),
+      ],
+    });
+  });
+
+  it('validates API keys declared as Zod security schemes', () => {
+    const validator = createValidator(
+      {
+        '/jobs': {
+          get: { responses: {} },
+          post: { security: [{ session: [] }, {}], responses: {} },
+        },
+      },
+      {
+        securitySchemes: {
+          apiKey: z
+            .string()
+            .startsWith('key_')
+            .openapi({ param: { in: 'header', name: 'x-api-key' } }),
+          session: z
+            .string()
+            .openapi({ param: { in: 'cookie', name: 'session' } }),
+          oauth: {
+            type: 'oauth2',
+            flows: {
+              implicit: { authorizationUrl: 'https://example.com', scopes: {} },
+            },
+          },
+        },
+        security: [{ apiKey: [] }, { oauth: [] }],
+      },
+    );
+
+    expect(
+      validator.validateRequest({
+        method: 'GET',
+        path: '/jobs',
+        headers: { 'X-Api-Key': 'key_123' },
+      }),
+    ).toEqual({
+      success: true,
+      data: {
+        path: '/jobs',
+        method: 'get',
+        params: {
+          path: {},
+          query: {},
+          header: { 'x-api-key': 'key_123' },
+          cookie: {},
+        },
+        body: undefined,
+      },
+    });
+
+    expect(
+      validator.validateRequest({
+        method: 'GET',
+        path: '/jobs',
+        headers: { 'x-api-key': '123' },
+      }),
+    ).toEqual({ success: true, data: expect.anything() });
+
+    expect(
+      createValidator(
+        { '/jobs': { get: { responses: {} } } },
+        {
+          securitySchemes: {
+            apiKey: z
+              .string()
+              .openapi({ param: { in: 'header', name: 'x-api-key' } }),
+          },
+          security: [{ apiKey: [] }],
+        },
+      ).validateRequest({ method: 'GET', path: '/jobs' }),
+    ).toEqual({
+      success: false,
+      issues: [
+        expect.objectContaining({
+          location: 'header',
+          path: ['x-api-key'],
+          code: 'invalid_type',
+        }),
+      ],
+    });
+
+    expect(
+      validator.validateRequest({ method: 'POST', path: '/jobs' }),
+    ).toEqual({ success: true, data: expect.anything() });
+  });
+
+  it('returns an issue when no operation matches', () => {
+    expect(validateRequest({ method: 'DELETE', path: '/jobs' })).toEqual({
+      success: false,
+      issues: [
+        {
+          code: 'custom',
+          location: 'method',
+          message: 'Method DELETE is not defined for /jobs',
+          path: [],
+        },
+      ],
+    });
+  });
+});
+
+describe('validateResponse', () => {
+  it('parses the response headers and body for a status code', () => {
+    expect(
+      validateResponse({
+        method: 'GET',
+        path: `/jobs/${id}`,
+        status: 200,
+        headers: { 'X-Rate-Limit': '100' },
+        body: { id, title: 'Developer' },
+      }),
+    ).toEqual({
+      success: true,
+      data: {
+        path: '/jobs/{id}',
+        method: 'get',
+        status: '200',
+        headers: { 'x-rate-limit': 100 },
+        body: { id, title: 'Developer' },
+      },
+    });
+  });
+
+  it('matches status code ranges', () => {
+    expect(
+      validateResponse({
+        method: 'GET',
+        path: `/jobs/${id}`,
+        status: 404,
+        body: { error: 'Not Found' },
+      }),
+    ).toEqual({
+      success: false,
+      issues: [
+        expect.objectContaining({
+          location: 'body',
+          path: ['message'],
+          code: 'invalid_type',
+        }),
+      ],
+    });
+  });
+
+  it('parses a missing response body with the schema', () => {
+    expect(
+      validateResponse({
+        method: 'GET',
+        path: `/jobs/${id}`,
+        status: 200,
+        headers: { 'x-rate-limit': '100' },
+      }),
+    ).toEqual({
+      success: false,
+      issues: [
+        expect.objectContaining({
+          location: 'body',
+          path: [],
+          code: 'invalid_type',
+        }),
+      ],
+    });
+  });
+
+  it('resolves responses which are a $ref', () => {
+    const validator = createValidator(
+      {
+        '/jobs': {
+          get: {
+            responses: {
+              '404': { $ref: '#/components/responses/NotFound' },
+              '500': { $ref: '#/components/responses/Error' },
+            },
+          },
+        },
+      },
+      {
+        responses: {
+          NotFound: {
+            description: '404 Not Found',
+            content: {
+              'application/json': {
+                schema: z.object({ message: z.string() }),
+              },
+            },
+          },
+        },
+      },
+    );
+
+    expect(
+      validator.validateResponse({
+        method: 'GET',
+        path: '/jobs',
+        status: 404,
+        body: {},
+      }),
+    ).toEqual({
+      success: false,
+      issues: [
+        expect.objectContaining({
+          location: 'body',
+          path: ['message'],
+          code: 'invalid_type',
+        }),
+      ],
+    });
+    expect(
+      validator.validateResponse({
+        method: 'GET',
+        path: '/jobs',
+        status: 500,
+        body: {},
+      }),
+    ).toEqual({
+      success: false,
+      issues: [
+        {
+          code: 'custom',
+          location: 'status',
+          message:
+            'Response 500 references #/components/responses/Error which was not passed to createValidator',
+          path: [],
+        },
+      ],
+    });
+  });
+
+  it('returns an issue for an undocumented status code', () => {
+    expect(
+      validateResponse({
+        method: 'POST',
+        path: '/jobs',
+        status: 500,
+      }),
+    ).toEqual({
+      success: false,
+      issues: [
+        {
+          code: 'custom',
+          location: 'status',
+          message: 'Response status 500 is not defined for POST /jobs',
+          path: [],
+        },
+      ],
+    });
+  });
+});
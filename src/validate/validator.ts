@@ -0,0 +1,64 @@
+import type { ZodOpenApiPathsObject } from '../create/document';
+
+import { createOperationMatch } from './path';
+import {
+  type ValidateRequestInput,
+  type ValidateSecurityOptions,
+  type ValidatedRequest,
+  type ValidationResult,
+  validateRequestOperation,
+} from './request';
+import {
+  type ValidateResponseInput,
+  type ValidateResponseOptions,
+  type ValidatedResponseData,
+  validateResponseOperation,
+} from './response';
+
+export interface Validator<Paths extends ZodOpenApiPathsObject> {
+  /**
+   * Matches a request against the paths object, coerces its parameters and parses its parameters and body
+   */
+  validateRequest: (
+    request: ValidateRequestInput,
+  ) => ValidationResult<ValidatedRequest<Paths>>;
+  /**
+   * Parses the headers and body of a response against the response declared for its status code
+   */
+  validateResponse: (
+    response: ValidateResponseInput,
+  ) => ValidationResult<ValidatedResponseData>;
+}
+
+export type ValidatorOptions = ValidateSecurityOptions &
+  ValidateResponseOptions;
+
+export const createValidator = <Paths extends ZodOpenApiPathsObject>(
+  paths: Paths,
+  options: ValidatorOptions = {},
+): Validator<Paths> => {
+  const matchOperation = createOperationMatch(paths);
+
+  return {
+    validateRequest: (request) => {
+      const match = matchOperation(request.method, request.path);
+      if ('location' in match) {
+        return { success: false, issues: [match] };
+      }
+
+      return validateRequestOperation(
+        match,
+        request,
+        options,
+      ) as ValidationResult<ValidatedRequest<Paths>>;
+    },
+    validateResponse: (response) => {
+      const match = matchOperation(response.method, response.path);
+      if ('location' in match) {
+        return { success: false, issues: [match] };
+      }
+
+      return validateResponseOperation(match, response, options);
+    },
+  };
+};